@@ -12,14 +12,27 @@ import type * as alerts from "../alerts.js";
 import type * as appState from "../appState.js";
 import type * as auth from "../auth.js";
 import type * as billing from "../billing.js";
+import type * as crons from "../crons.js";
 import type * as crowdfundingBackers from "../crowdfundingBackers.js";
 import type * as emails from "../emails.js";
 import type * as fs from "../fs.js";
 import type * as http from "../http.js";
+import type * as lib_hash from "../lib/hash.js";
+import type * as lib_limits from "../lib/limits.js";
+import type * as lib_png from "../lib/png.js";
+import type * as lib_sanitize from "../lib/sanitize.js";
+import type * as lib_stl from "../lib/stl.js";
+import type * as lib_svg from "../lib/svg.js";
+import type * as lib_thumbnail from "../lib/thumbnail.js";
+import type * as lib_xml from "../lib/xml.js";
+import type * as maintenance from "../maintenance.js";
 import type * as pricingCatalog from "../pricingCatalog.js";
+import type * as projects from "../projects.js";
+import type * as quotas from "../quotas.js";
 import type * as rateLimiter from "../rateLimiter.js";
 import type * as stlFiles from "../stlFiles.js";
 import type * as svgFiles from "../svgFiles.js";
+import type * as thumbnails from "../thumbnails.js";
 import type * as uploads from "../uploads.js";
 import type * as users from "../users.js";
 
@@ -34,14 +47,27 @@ declare const fullApi: ApiFromModules<{
   appState: typeof appState;
   auth: typeof auth;
   billing: typeof billing;
+  crons: typeof crons;
   crowdfundingBackers: typeof crowdfundingBackers;
   emails: typeof emails;
   fs: typeof fs;
   http: typeof http;
+  "lib/hash": typeof lib_hash;
+  "lib/limits": typeof lib_limits;
+  "lib/png": typeof lib_png;
+  "lib/sanitize": typeof lib_sanitize;
+  "lib/stl": typeof lib_stl;
+  "lib/svg": typeof lib_svg;
+  "lib/thumbnail": typeof lib_thumbnail;
+  "lib/xml": typeof lib_xml;
+  maintenance: typeof maintenance;
   pricingCatalog: typeof pricingCatalog;
+  projects: typeof projects;
+  quotas: typeof quotas;
   rateLimiter: typeof rateLimiter;
   stlFiles: typeof stlFiles;
   svgFiles: typeof svgFiles;
+  thumbnails: typeof thumbnails;
   uploads: typeof uploads;
   users: typeof users;
 }>;
@@ -1,5 +1,5 @@
 import { v } from "convex/values";
-import { query, action } from "./_generated/server";
+import { query, action, type QueryCtx } from "./_generated/server";
 import { api, components } from "./_generated/api";
 import { authComponent } from "./auth";
 import { StripeSubscriptions } from "@convex-dev/stripe";
@@ -33,6 +33,59 @@ const stripeClient = new StripeSubscriptions(components.stripe, {});
 // Subscription Status Query
 // =============================================================================
 
+/**
+ * Subscription info for a Better Auth user id. Shared with quota checks,
+ * which run where getAuthUser isn't available (the /upload route).
+ */
+export async function loadSubscriptionStatus(ctx: Pick<QueryCtx, "runQuery">, authUserId: string) {
+  // Get subscriptions for this user
+  const subscriptions = await ctx.runQuery(
+    components.stripe.public.listSubscriptionsByUserId,
+    { userId: authUserId }
+  );
+
+  if (subscriptions.length === 0) {
+    return {
+      hasSubscription: false,
+      status: null,
+      tier: null,
+      audience: null,
+      currentPeriodEnd: null,
+      cancelAtPeriodEnd: false,
+    };
+  }
+
+  // Get the most recent active subscription
+  // Priority: active > past_due > others
+  const priorityOrder = ["active", "trialing", "past_due"];
+  const sorted = [...subscriptions].sort((a, b) => {
+    const aPriority = priorityOrder.indexOf(a.status);
+    const bPriority = priorityOrder.indexOf(b.status);
+    // Lower index = higher priority, -1 means not in priority list
+    if (aPriority === -1 && bPriority === -1) return 0;
+    if (aPriority === -1) return 1;
+    if (bPriority === -1) return -1;
+    return aPriority - bPriority;
+  });
+
+  const subscription = sorted[0];
+
+  // Get tier and audience from subscription metadata
+  const metadata = subscription.metadata as Record<string, string> | undefined;
+  const tier = metadata?.tier as "personal" | "commercial" | undefined;
+  const audience = metadata?.audience as "public" | "backer" | undefined;
+
+  return {
+    hasSubscription: true,
+    status: subscription.status,
+    tier: tier ?? null,
+    audience: audience ?? null,
+    priceId: subscription.priceId,
+    currentPeriodEnd: subscription.currentPeriodEnd,
+    cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+  };
+}
+
 /**
  * Get the current user's subscription status.
  * Returns null if not authenticated, otherwise returns subscription info.
@@ -51,52 +104,7 @@ export const getSubscriptionStatus = query({
       return null;
     }
 
-    // Get subscriptions for this user
-    const subscriptions = await ctx.runQuery(
-      components.stripe.public.listSubscriptionsByUserId,
-      { userId: authUser._id }
-    );
-
-    if (subscriptions.length === 0) {
-      return {
-        hasSubscription: false,
-        status: null,
-        tier: null,
-        audience: null,
-        currentPeriodEnd: null,
-        cancelAtPeriodEnd: false,
-      };
-    }
-
-    // Get the most recent active subscription
-    // Priority: active > past_due > others
-    const priorityOrder = ["active", "trialing", "past_due"];
-    const sorted = [...subscriptions].sort((a, b) => {
-      const aPriority = priorityOrder.indexOf(a.status);
-      const bPriority = priorityOrder.indexOf(b.status);
-      // Lower index = higher priority, -1 means not in priority list
-      if (aPriority === -1 && bPriority === -1) return 0;
-      if (aPriority === -1) return 1;
-      if (bPriority === -1) return -1;
-      return aPriority - bPriority;
-    });
-
-    const subscription = sorted[0];
-
-    // Get tier and audience from subscription metadata
-    const metadata = subscription.metadata as Record<string, string> | undefined;
-    const tier = metadata?.tier as "personal" | "commercial" | undefined;
-    const audience = metadata?.audience as "public" | "backer" | undefined;
-
-    return {
-      hasSubscription: true,
-      status: subscription.status,
-      tier: tier ?? null,
-      audience: audience ?? null,
-      priceId: subscription.priceId,
-      currentPeriodEnd: subscription.currentPeriodEnd,
-      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
-    };
+    return await loadSubscriptionStatus(ctx, authUser._id);
   },
 });
 
@@ -169,8 +177,8 @@ export const createCheckoutSession = action({
       priceId: price.priceId,
       customerId: customer.customerId,
       mode: "subscription",
-      successUrl: `${siteUrl}?session_id={CHECKOUT_SESSION_ID}`,
-      cancelUrl: `${siteUrl}`,
+      successUrl: `${siteUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: `${siteUrl}/pricing`,
       // Link subscription to user and store tier/audience for easy lookup
       subscriptionMetadata: {
         userId: authUser._id,
@@ -220,7 +228,7 @@ export const createCustomerPortalSession = action({
 
     const session = await stripeClient.createCustomerPortalSession(ctx, {
       customerId,
-      returnUrl: siteUrl,
+      returnUrl: `${siteUrl}/account`,
     });
 
     return { url: session.url };
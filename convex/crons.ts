@@ -0,0 +1,23 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Expired pending uploads: drop the ownership records so abandoned uploads
+// stop counting against the uploads-in-flight check. convex-fs GCs the
+// uncommitted blobs on its own schedule.
+crons.interval(
+  "cleanup expired uploads",
+  { minutes: 15 },
+  internal.uploads.cleanupExpiredUploads
+);
+
+// Files in convex-fs with no stl_files/svg_files record (daily, off-peak)
+crons.daily(
+  "reconcile orphaned files",
+  { hourUTC: 4, minuteUTC: 30 },
+  internal.maintenance.reconcileOrphanedFiles,
+  {}
+);
+
+export default crons;
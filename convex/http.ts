@@ -5,6 +5,11 @@ import { registerRoutes as registerStripeRoutes } from "@convex-dev/stripe";
 import { authComponent, createAuth } from "./auth";
 import { components, internal } from "./_generated/api";
 import { fs } from "./fs";
+import { sha256Hex } from "./lib/hash";
+import { MAX_UPLOAD_BYTES, formatBytes } from "./lib/limits";
+import { sanitizeSvg } from "./lib/sanitize";
+import { parseStl, type BoundingBox, type StlReport } from "./lib/stl";
+import { parseSvg } from "./lib/svg";
 
 const http = httpRouter();
 
@@ -65,14 +70,15 @@ uploadCors.route({
       });
     }
 
-    // One-upload-at-a-time: check if user has an uncommitted upload
-    const hasPending = await ctx.runQuery(internal.uploads.hasPendingUpload, {
+    // Uploads in flight: a few uncommitted uploads per user (per tier)
+    const pendingCheck = await ctx.runQuery(internal.uploads.checkPendingUploads, {
       authUserId: session.user.id,
     });
-    if (hasPending) {
+    if (!pendingCheck.ok) {
       return new Response(
         JSON.stringify({
-          error: "You have a pending upload. Please wait for it to complete.",
+          error: `You have ${pendingCheck.pending} unfinished uploads (your plan allows ${pendingCheck.limit} at a time). Wait for them to complete or cancel them.`,
+          code: "pending_upload_limit",
         }),
         {
           status: 429,
@@ -81,8 +87,71 @@ uploadCors.route({
       );
     }
 
+    // Kind decides content validation and which commit mutation accepts the blob
+    const params = new URL(req.url).searchParams;
+    const kind = params.get("kind");
+    if (kind !== "stl" && kind !== "svg") {
+      return new Response(JSON.stringify({ error: "Missing or invalid kind (stl or svg)" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Admin base-sample uploads (base=true) only reuse other base samples.
+    // Only affects deduplication - commitFile checks the admin role.
+    const isBase = params.get("base") === "true";
+
+    // Get file data. The request's Content-Type is ignored: the stored type
+    // follows from kind, since /fs serves blobs back with it.
+    const data = await req.arrayBuffer();
+
+    if (data.byteLength === 0) {
+      return new Response(JSON.stringify({ error: "Empty file" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // File size limit per kind (lib/limits - the client shows the same numbers)
+    const maxSize = MAX_UPLOAD_BYTES[kind];
+    if (data.byteLength > maxSize) {
+      return new Response(JSON.stringify({ error: `File too large (max ${formatBytes(maxSize)})` }), {
+        status: 413,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Content hash of the stored bytes. An identical file the user can
+    // already use is returned instead of stored again: no blob is written,
+    // no quota or rate-limit token used, and the client uses existingFileId
+    // without committing.
+    const findDuplicate = (sha256: string) =>
+      ctx.runQuery(internal.uploads.findDuplicateFile, {
+        authUserId: session.user.id,
+        kind,
+        sha256,
+        isBase,
+      });
+    const existingFileResponse = (existingFileId: string) =>
+      new Response(JSON.stringify({ existingFileId }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+
+    // STLs are stored as uploaded, so the raw bytes can be matched right away
+    let sha256: string | undefined;
+    if (kind === "stl") {
+      sha256 = await sha256Hex(data);
+      const existingFileId = await findDuplicate(sha256);
+      if (existingFileId) {
+        return existingFileResponse(existingFileId);
+      }
+    }
+
     // Rate limit check - 10 uploads/hour per user
-    // This runs BEFORE writing blob to prevent storage abuse
+    // This runs BEFORE parsing (STL/SVG checks cost CPU) and writing the
+    // blob. STL re-uploads were answered above; SVG ones still count, since
+    // they can only be matched after sanitizing.
     const rateLimit = await ctx.runMutation(
       internal.uploads.checkUploadRateLimit,
       { authUserId: session.user.id }
@@ -99,36 +168,103 @@ uploadCors.route({
       );
     }
 
-    // Get file data
-    const contentType = req.headers.get("Content-Type") ?? "application/octet-stream";
-    const data = await req.arrayBuffer();
+    // STL content check: don't trust the extension or Content-Type.
+    // Parse the bytes and reject anything that isn't a well-formed STL.
+    let stlInfo: { triangleCount: number; boundingBox: BoundingBox } | undefined;
+    if (kind === "stl") {
+      let report: StlReport;
+      try {
+        report = parseStl(data).report;
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: `Invalid STL: ${error instanceof Error ? error.message : "unreadable file"}`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      if (report.declaredCountMatchesLength === false) {
+        return new Response(
+          JSON.stringify({
+            error: `Invalid STL: header declares ${report.declaredTriangleCount} triangles but the file length doesn't match`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      stlInfo = { triangleCount: report.triangleCount, boundingBox: report.boundingBox };
+    }
 
-    if (data.byteLength === 0) {
-      return new Response(JSON.stringify({ error: "Empty file" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      });
+    // SVG content check: files are served back from /fs, so store a
+    // sanitized rebuild (no scripts, handlers or external references) and
+    // only if it still has shapes to extrude.
+    // STLs are served as model/stl - an ASCII STL's "solid" name can hold
+    // any text, so it must never go out as e.g. text/html.
+    let blobData = data;
+    let blobContentType = "model/stl";
+    if (kind === "svg") {
+      let svg: string;
+      try {
+        const source = new TextDecoder("utf-8", { fatal: true }).decode(data);
+        svg = sanitizeSvg(source).svg;
+        if (parseSvg(svg).shapes.length === 0) {
+          throw new Error("no drawable geometry");
+        }
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: `Invalid SVG: ${error instanceof Error ? error.message : "unreadable file"}`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      const bytes = new TextEncoder().encode(svg);
+      blobData = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+      blobContentType = "image/svg+xml";
     }
 
-    // File size limit: 2 MB (STL files)
-    // Note: SVG has its own limit (20 KB) checked client-side
-    const MAX_SIZE = 2 * 1024 * 1024;
-    if (data.byteLength > MAX_SIZE) {
-      return new Response(JSON.stringify({ error: "File too large (max 2 MB)" }), {
-        status: 413,
+    // SVGs are matched on the sanitized copy - what gets stored
+    if (sha256 === undefined) {
+      sha256 = await sha256Hex(blobData);
+      const existingFileId = await findDuplicate(sha256);
+      if (existingFileId) {
+        return existingFileResponse(existingFileId);
+      }
+    }
+
+    // Storage quota check (per tier) - also BEFORE writing the blob
+    const quota = await ctx.runQuery(internal.quotas.checkUploadQuota, {
+      authUserId: session.user.id,
+      fileSize: blobData.byteLength,
+    });
+    if (!quota.ok) {
+      return new Response(JSON.stringify({ error: quota.reason }), {
+        status: 403,
         headers: { "Content-Type": "application/json" },
       });
     }
 
     try {
       // Write blob to storage and get blobId
-      const blobId = await fs.writeBlob(ctx, data, contentType);
+      const blobId = await fs.writeBlob(ctx, blobData, blobContentType);
 
       // Register pending upload to track ownership
       // This prevents another user from stealing the blobId before commit
       await ctx.runMutation(internal.uploads.registerPendingUpload, {
         blobId,
         authUserId: session.user.id,
+        kind,
+        stlInfo,
+        fileSize: blobData.byteLength,
+        sha256,
       });
 
       return new Response(JSON.stringify({ blobId }), {
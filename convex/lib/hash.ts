@@ -0,0 +1,30 @@
+/**
+ * Content hashing for upload deduplication.
+ *
+ * /upload hashes the bytes it stores (for SVGs, the sanitized copy) and the
+ * hash is kept on stl_files/svg_files; commitFile reuses a matching record
+ * instead of storing the same file again.
+ */
+
+/**
+ * Lowercase hex SHA-256 of the data (Web Crypto - works in actions,
+ * mutations and the browser).
+ */
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Whether an existing file with the same hash can stand in for a new
+ * upload: the uploader's own file of the same kind (user or base), or a
+ * base sample when uploading to a user library.
+ */
+export function canReuseFile(
+  existing: { userId: string; isBase: boolean },
+  userId: string,
+  isBase: boolean
+): boolean {
+  if (existing.isBase) return true;
+  return !isBase && existing.userId === userId;
+}
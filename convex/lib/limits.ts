@@ -0,0 +1,66 @@
+/**
+ * Upload size limits - the single source of truth.
+ *
+ * Enforced by the /upload route (convex/http.ts) and shown/pre-checked by
+ * the client so users get an error before sending the bytes.
+ */
+
+export type UploadKind = "stl" | "svg";
+
+export const MAX_UPLOAD_BYTES: Record<UploadKind, number> = {
+  stl: 2 * 1024 * 1024,
+  svg: 15 * 1024,
+};
+
+/**
+ * Human-readable size, e.g. "15 KB" or "2 MB".
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Number((bytes / 1024).toFixed(1))} KB`;
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+}
+
+// =============================================================================
+// Storage quotas
+// =============================================================================
+// Per-user library limits (files and total bytes, STL + SVG combined).
+// Admin base samples don't count. Enforced by convex/quotas.ts.
+
+export type QuotaTier = "free" | "personal" | "commercial" | "backer";
+
+export interface StorageQuota {
+  maxFiles: number;
+  maxBytes: number;
+}
+
+export const STORAGE_QUOTAS: Record<QuotaTier, StorageQuota> = {
+  free: { maxFiles: 10, maxBytes: 10 * 1024 * 1024 },
+  personal: { maxFiles: 100, maxBytes: 100 * 1024 * 1024 },
+  commercial: { maxFiles: 500, maxBytes: 500 * 1024 * 1024 },
+  backer: { maxFiles: 1000, maxBytes: 1024 * 1024 * 1024 },
+};
+
+// Uncommitted uploads a user may have in flight at once (/upload returns 429
+// beyond this). More than one so e.g. an STL and an SVG can upload together.
+export const MAX_PENDING_UPLOADS: Record<QuotaTier, number> = {
+  free: 2,
+  personal: 3,
+  commercial: 5,
+  backer: 5,
+};
+
+// How long an abandoned upload still counts against MAX_PENDING_UPLOADS.
+// Its blob stays in storage until convex-fs's upload GC deletes it (hours
+// later), so abandoning must not free the slot at once - otherwise
+// upload/abandon loops could pile up blobs. Still far shorter than waiting
+// out a stuck upload.
+export const ABANDONED_UPLOAD_HOLD_MS = 10 * 60 * 1000;
+
+// Project versions kept per project (oldest pruned first)
+export const MAX_PROJECT_VERSIONS: Record<QuotaTier, number> = {
+  free: 5,
+  personal: 25,
+  commercial: 50,
+  backer: 50,
+};
@@ -0,0 +1,126 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseXml, type XmlElement } from "./xml";
+import { sanitizeSvg } from "./sanitize";
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./__fixtures__/svg/${name}`, import.meta.url), "utf8");
+}
+
+// Every element name in the sanitized output, in document order
+function elementNames(svg: string): string[] {
+  const names: string[] = [];
+  const walk = (element: XmlElement) => {
+    names.push(element.name);
+    element.children.forEach(walk);
+  };
+  walk(parseXml(svg));
+  return names;
+}
+
+describe("sanitizeSvg", () => {
+  it("removes script elements in any case", () => {
+    const { svg, removed } = sanitizeSvg(fixture("script.svg"));
+    expect(elementNames(svg)).toEqual(["svg", "rect"]);
+    expect(svg).not.toMatch(/alert/);
+    expect(removed).toEqual(expect.arrayContaining(["<script> element", "<SCRIPT> element"]));
+  });
+
+  it("removes foreignObject and its HTML content", () => {
+    const { svg, removed } = sanitizeSvg(fixture("foreign-object.svg"));
+    expect(elementNames(svg)).toEqual(["svg", "rect"]);
+    expect(svg).not.toMatch(/iframe|evil\.example/);
+    expect(removed).toContain("<foreignObject> element");
+  });
+
+  it("removes event handler attributes and animations", () => {
+    const { svg, removed } = sanitizeSvg(fixture("event-handlers.svg"));
+    expect(elementNames(svg)).toEqual(["svg", "rect"]);
+    expect(svg).not.toMatch(/\son\w+=|alert/i);
+    expect(removed).toEqual(
+      expect.arrayContaining([
+        "onload attribute",
+        "onclick attribute",
+        "ONMOUSEOVER attribute",
+        "<animate> element",
+      ])
+    );
+  });
+
+  it("keeps fragment hrefs and removes javascript: and external ones", () => {
+    const { svg, removed } = sanitizeSvg(fixture("hrefs.svg"));
+    expect(svg).not.toMatch(/javascript:|evil\.example/i);
+    expect(svg).toContain('href="#box"');
+    expect(svg).toContain('xlink:href="#box"');
+    expect(removed).toEqual(expect.arrayContaining(["external href", "external xlink:href"]));
+  });
+
+  it("removes external CSS url() and @import, keeping fragment references", () => {
+    const { svg, removed } = sanitizeSvg(fixture("css-urls.svg"));
+    expect(svg).not.toMatch(/evil\.example|@import/);
+    expect(svg).toContain('style="fill:url(#g)"');
+    expect(svg).toContain('style="fill:blue"');
+    expect(removed).toEqual(
+      expect.arrayContaining([
+        "external reference in <style>",
+        "external url() in style",
+        "external url() in fill",
+      ])
+    );
+  });
+
+  it("decodes CSS escapes before checking url() and @import", () => {
+    const { svg, removed } = sanitizeSvg(fixture("css-escapes.svg"));
+    expect(svg).not.toMatch(/evil\.example|mport/);
+    expect(svg).toContain('style="stroke:none"');
+    expect(svg).toContain('style="fill:url(\\23 g)"');
+    expect(removed).toEqual(
+      expect.arrayContaining([
+        "external reference in <style>",
+        "external url() in style",
+        "external url() in fill",
+      ])
+    );
+  });
+
+  it("keeps text and child elements in document order", () => {
+    const { svg, removed } = sanitizeSvg(fixture("mixed-content.svg"));
+    expect(svg).toContain('<text x="0" y="15">Size <tspan font-weight="bold">10</tspan> mm &amp; up</text>');
+    expect(removed).toEqual(["<script> element"]);
+  });
+
+  it("resolves namespace prefixes instead of trusting the element name", () => {
+    const { svg, removed } = sanitizeSvg(fixture("namespace-prefix.svg"));
+    expect(elementNames(svg)).toEqual(["svg", "s:rect"]);
+    expect(svg).not.toMatch(/alert|xhtml|evil\.example/);
+    expect(removed).toEqual(
+      expect.arrayContaining([
+        "<h:script> element (not SVG)",
+        "<s:script> element",
+        "<s:foreignObject> element",
+        "<g> element (not SVG)",
+        "xmlns:h declaration",
+        "h:onclick attribute",
+      ])
+    );
+  });
+
+  it("leaves a clean file unchanged", () => {
+    const source = fixture("clean.svg");
+    const { svg, removed } = sanitizeSvg(source);
+    expect(removed).toEqual([]);
+    expect(elementNames(svg)).toEqual(elementNames(source));
+    expect(svg).toContain('xlink:href="#p"');
+    expect(svg).toContain('style="fill:url(#g);stroke:none"');
+  });
+
+  it("rejects a root that is not an SVG <svg>", () => {
+    expect(() => sanitizeSvg('<html><svg xmlns="http://www.w3.org/2000/svg"/></html>')).toThrow(
+      "not <svg>"
+    );
+    expect(() => sanitizeSvg('<svg xmlns="http://www.w3.org/1999/xhtml"/>')).toThrow("not <svg>");
+    expect(() =>
+      sanitizeSvg('<h:svg xmlns:h="http://www.w3.org/1999/xhtml"><script/></h:svg>')
+    ).toThrow("not <svg>");
+  });
+});
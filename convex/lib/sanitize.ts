@@ -0,0 +1,185 @@
+/**
+ * SVG sanitization for files we store and serve back from /fs.
+ *
+ * The document is parsed (lib/xml) and rebuilt from the element tree, so
+ * anything the parser skips (DOCTYPE and its entities, comments, processing
+ * instructions) never reaches the output. On top of that we remove:
+ * - script and embedding elements (script, foreignObject, iframe, ...)
+ * - animation elements (they can rewrite href to a javascript: URL)
+ * - event handler attributes (onload, onclick, ...)
+ * - href / xlink:href that point anywhere but a fragment in this file
+ * - url(...) references to anything but a fragment, in attributes and CSS
+ *   (checked after decoding CSS escapes, so "\75 rl(" counts as url())
+ * - elements outside the SVG namespace (e.g. <h:script> with h bound to
+ *   XHTML), other namespaces' declarations and their prefixed attributes
+ *
+ * The parser keeps prefixed names as written, so namespaces are resolved
+ * here and elements are checked by local name.
+ * Pure TypeScript so it runs in the /upload HTTP action.
+ */
+
+import { parseXml, serializeXml, type XmlElement, type XmlNode } from "./xml";
+
+export interface SvgSanitizeResult {
+  svg: string;
+  removed: string[]; // what was stripped, e.g. "<script> element", "onload attribute"
+}
+
+// Compared lowercased
+const BLOCKED_ELEMENTS = new Set([
+  "script",
+  "foreignobject",
+  "iframe",
+  "embed",
+  "object",
+  "audio",
+  "video",
+  "canvas",
+  "handler",
+  "listener",
+  "set",
+  "animate",
+  "animatemotion",
+  "animatetransform",
+  "animatecolor",
+]);
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const XLINK_NS = "http://www.w3.org/1999/xlink";
+const XML_NS = "http://www.w3.org/XML/1998/namespace";
+
+// Namespaces an attribute prefix may belong to
+const ALLOWED_ATTRIBUTE_NS = new Set([SVG_NS, XLINK_NS, XML_NS]);
+
+// prefix ("" for the default namespace) -> namespace URI
+type NamespaceScope = Map<string, string>;
+
+function splitName(name: string): { prefix: string; local: string } {
+  const colon = name.indexOf(":");
+  return colon === -1
+    ? { prefix: "", local: name }
+    : { prefix: name.slice(0, colon), local: name.slice(colon + 1) };
+}
+
+/**
+ * The element's namespace scope: the parent's plus its own xmlns declarations.
+ * No default namespace counts as SVG - hand-written files often leave it out.
+ */
+function scopeFor(element: XmlElement, parent: NamespaceScope): NamespaceScope {
+  const scope = new Map(parent);
+  for (const [name, value] of Object.entries(element.attributes)) {
+    if (name === "xmlns") scope.set("", value.trim());
+    else if (name.startsWith("xmlns:")) scope.set(name.slice(6), value.trim());
+  }
+  return scope;
+}
+
+// url(...) whose target is not "#fragment"
+const EXTERNAL_URL = /url\(\s*(?!['"]?\s*#)/i;
+const CSS_IMPORT = /@import/i;
+
+// A backslash and what it escapes: up to 6 hex digits (plus one
+// whitespace), an escaped newline, or any other character
+const CSS_ESCAPE = /\\(?:([0-9a-fA-F]{1,6})(?:\r\n|[ \t\n\r\f])?|(\r\n|[\n\r\f])|([\s\S]))/g;
+
+/**
+ * Resolve CSS escapes the way a browser's tokenizer does, so "\75 rl(" or
+ * "@\69mport" is checked as the url( / @import it becomes.
+ */
+function decodeCssEscapes(value: string): string {
+  return value.replace(CSS_ESCAPE, (_, hex?: string, newline?: string, char?: string) => {
+    if (hex !== undefined) {
+      const code = parseInt(hex, 16);
+      const valid = code > 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+      return String.fromCodePoint(valid ? code : 0xfffd);
+    }
+    return newline !== undefined ? "" : (char ?? "");
+  });
+}
+
+// An external url() or @import in a style attribute or <style> text
+function hasExternalCss(css: string): boolean {
+  const decoded = decodeCssEscapes(css);
+  return EXTERNAL_URL.test(decoded) || CSS_IMPORT.test(decoded);
+}
+
+/**
+ * Sanitize SVG text. Throws if it is not well-formed XML with an <svg> root.
+ */
+export function sanitizeSvg(source: string): SvgSanitizeResult {
+  const root = parseXml(source);
+  // xlink is pre-bound too: files often use xlink:href without declaring it
+  const rootScope = scopeFor(root, new Map([["", SVG_NS], ["xml", XML_NS], ["xlink", XLINK_NS]]));
+  const rootName = splitName(root.name);
+  if (rootName.local.toLowerCase() !== "svg" || rootScope.get(rootName.prefix) !== SVG_NS) {
+    throw new Error(`Root element is <${root.name}>, not <svg>`);
+  }
+
+  const removed = new Set<string>();
+  const clean = (element: XmlElement, scope: NamespaceScope): XmlElement => {
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of Object.entries(element.attributes)) {
+      const { prefix, local } = splitName(name);
+      const lower = local.toLowerCase();
+      if (name === "xmlns" || prefix === "xmlns") {
+        // Keep declarations of SVG and XLink only
+        if (value.trim() === SVG_NS || (prefix === "xmlns" && value.trim() === XLINK_NS)) {
+          attributes[name] = value;
+        } else {
+          removed.add(`${name} declaration`);
+        }
+      } else if (prefix && !ALLOWED_ATTRIBUTE_NS.has(scope.get(prefix) ?? "")) {
+        removed.add(`${name} attribute`);
+      } else if (lower.startsWith("on")) {
+        removed.add(`${name} attribute`);
+      } else if (lower === "href") {
+        if (value.trim().startsWith("#")) {
+          attributes[name] = value;
+        } else {
+          removed.add(`external ${name}`);
+        }
+      } else if (lower === "style") {
+        // Keep the safe declarations - fills often live here
+        const declarations = value.split(";").filter((d) => d.trim() !== "");
+        const safe = declarations.filter((d) => !hasExternalCss(d));
+        if (safe.length < declarations.length) removed.add("external url() in style");
+        if (safe.length > 0) attributes[name] = safe.join(";");
+      } else if (EXTERNAL_URL.test(decodeCssEscapes(value))) {
+        removed.add(`external url() in ${name}`);
+      } else {
+        attributes[name] = value;
+      }
+    }
+
+    let text = element.text;
+    if (splitName(element.name).local.toLowerCase() === "style" && hasExternalCss(text)) {
+      removed.add("external reference in <style>");
+      text = "";
+    }
+
+    // Rebuilt in document order; removed elements leave the text around them
+    const children: XmlElement[] = [];
+    const content: XmlNode[] = [];
+    for (const node of element.content) {
+      if (typeof node === "string") {
+        if (text !== "") content.push(node);
+        continue;
+      }
+      const childScope = scopeFor(node, scope);
+      const { prefix, local } = splitName(node.name);
+      if (childScope.get(prefix) !== SVG_NS) {
+        removed.add(`<${node.name}> element (not SVG)`);
+      } else if (BLOCKED_ELEMENTS.has(local.toLowerCase())) {
+        removed.add(`<${node.name}> element`);
+      } else {
+        const child = clean(node, childScope);
+        children.push(child);
+        content.push(child);
+      }
+    }
+
+    return { name: element.name, attributes, children, text, content };
+  };
+
+  return { svg: serializeXml(clean(root, rootScope)), removed: [...removed] };
+}
@@ -0,0 +1,108 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseStl } from "./stl";
+
+function fixture(name: string): ArrayBuffer {
+  const bytes = readFileSync(new URL(`./__fixtures__/stl/${name}`, import.meta.url));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+// The tetrahedron of tetrahedron.stl, 9 coordinates per triangle
+const TETRAHEDRON = [
+  [0, 0, 0, 0, 10, 0, 10, 0, 0],
+  [0, 0, 0, 10, 0, 0, 0, 0, 10],
+  [0, 0, 0, 0, 0, 10, 0, 10, 0],
+  [10, 0, 0, 0, 10, 0, 0, 0, 10],
+];
+
+/**
+ * Binary STL per the format: 80-byte header, uint32 triangle count at byte
+ * 80, then 50 bytes per triangle (normal, three vertices, attribute count).
+ */
+function binaryStl(
+  triangles: number[][],
+  { header = "", declared = triangles.length }: { header?: string; declared?: number } = {}
+): ArrayBuffer {
+  const data = new ArrayBuffer(84 + triangles.length * 50);
+  const view = new DataView(data);
+  new Uint8Array(data, 0, 80).set(new TextEncoder().encode(header).slice(0, 80));
+  view.setUint32(80, declared, true);
+  triangles.forEach((coords, t) => {
+    coords.forEach((value, i) => view.setFloat32(84 + t * 50 + 12 + i * 4, value, true));
+  });
+  return data;
+}
+
+describe("parseStl", () => {
+  it("reads a binary STL", () => {
+    const { mesh, report } = parseStl(binaryStl(TETRAHEDRON));
+    expect(report).toEqual({
+      format: "binary",
+      triangleCount: 4,
+      vertexCount: 4,
+      boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 10, y: 10, z: 10 } },
+      degenerateTriangles: 0,
+      declaredTriangleCount: 4,
+      declaredCountMatchesLength: true,
+    });
+    expect(mesh.indices).toHaveLength(12);
+    // Bottom face winds clockwise from above, so its normal points down
+    expect(Array.from(mesh.faceNormals.slice(0, 3))).toEqual([0, 0, -1]);
+  });
+
+  it("reads a binary STL whose header starts with solid", () => {
+    const { report } = parseStl(binaryStl(TETRAHEDRON, { header: "solid exported facet endsolid" }));
+    expect(report.format).toBe("binary");
+    expect(report.triangleCount).toBe(4);
+  });
+
+  it("reads an ASCII STL", () => {
+    const { mesh, report } = parseStl(fixture("tetrahedron.stl"));
+    expect(report).toEqual({
+      format: "ascii",
+      triangleCount: 4,
+      vertexCount: 4,
+      boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 10, y: 10, z: 10 } },
+      degenerateTriangles: 0,
+      declaredTriangleCount: null,
+      declaredCountMatchesLength: null,
+    });
+    expect(Array.from(mesh.positions)).toEqual(Array.from(parseStl(binaryStl(TETRAHEDRON)).mesh.positions));
+  });
+
+  it("reads the whole triangles of a truncated binary STL", () => {
+    const full = binaryStl(TETRAHEDRON);
+    const { report } = parseStl(full.slice(0, 84 + 2 * 50 + 20));
+    expect(report.triangleCount).toBe(2);
+    expect(report.declaredTriangleCount).toBe(4);
+    expect(report.declaredCountMatchesLength).toBe(false);
+  });
+
+  it("reads only the declared triangles when the count doesn't match the length", () => {
+    const { report } = parseStl(binaryStl(TETRAHEDRON, { declared: 3 }));
+    expect(report.triangleCount).toBe(3);
+    expect(report.declaredTriangleCount).toBe(3);
+    expect(report.declaredCountMatchesLength).toBe(false);
+  });
+
+  it("counts degenerate triangles", () => {
+    const { report } = parseStl(binaryStl([...TETRAHEDRON, [0, 0, 0, 5, 5, 5, 10, 10, 10]]));
+    expect(report.triangleCount).toBe(5);
+    expect(report.degenerateTriangles).toBe(1);
+  });
+
+  it("rejects empty, truncated and malformed files", () => {
+    expect(() => parseStl(new ArrayBuffer(0))).toThrow("Empty STL file");
+    expect(() => parseStl(new TextEncoder().encode("not an stl").buffer)).toThrow("too small");
+    expect(() => parseStl(binaryStl([]))).toThrow("no triangles");
+
+    const ascii = new TextDecoder().decode(fixture("tetrahedron.stl"));
+    const cut = ascii.slice(0, ascii.indexOf("endloop"));
+    expect(() => parseStl(new TextEncoder().encode(cut).buffer)).toThrow("Malformed ASCII STL");
+  });
+
+  it("rejects non-finite binary coordinates", () => {
+    const data = binaryStl([[0, 0, 0, Number.NaN, 0, 0, 0, 1, 0]]);
+    expect(() => parseStl(data)).toThrow("Invalid vertex coordinate in triangle 1");
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * STL parsing (binary + ASCII).
+ *
+ * Pure TypeScript with no DOM or Node dependencies, so the same code runs in
+ * the browser (Step 1, scene viewer) and in Convex functions (upload checks).
+ *
+ * Output is an indexed mesh: identical vertices are merged so downstream
+ * geometry code (face detection, export) can walk shared edges.
+ */
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface BoundingBox {
+  min: Vec3;
+  max: Vec3;
+}
+
+export interface StlMesh {
+  positions: Float32Array; // xyz per unique vertex
+  normals: Float32Array; // xyz per unique vertex (area-weighted)
+  faceNormals: Float32Array; // xyz per triangle, computed from winding
+  indices: Uint32Array; // 3 per triangle
+}
+
+export interface StlReport {
+  format: "binary" | "ascii";
+  triangleCount: number;
+  vertexCount: number;
+  boundingBox: BoundingBox;
+  degenerateTriangles: number;
+  // Binary only: count stored at byte 80, right after the header; null for ASCII
+  declaredTriangleCount: number | null;
+  // Binary only: true if 84 + 50 * declared === byte length, null for ASCII
+  declaredCountMatchesLength: boolean | null;
+}
+
+export interface StlParseResult {
+  mesh: StlMesh;
+  report: StlReport;
+}
+
+const BINARY_HEADER_BYTES = 84;
+const BINARY_TRIANGLE_BYTES = 50;
+
+// Triangles with a cross-product magnitude below this are treated as degenerate
+const DEGENERATE_AREA_EPSILON = 1e-12;
+
+/**
+ * Parse an STL file.
+ * Detects binary vs ASCII, merges duplicate vertices and builds a report.
+ * Throws if the data is not a readable STL.
+ */
+export function parseStl(data: ArrayBuffer): StlParseResult {
+  if (data.byteLength === 0) {
+    throw new Error("Empty STL file");
+  }
+
+  if (isBinaryStl(data)) {
+    return parseBinary(data);
+  }
+  return parseAscii(data);
+}
+
+/**
+ * Binary STLs may also start with "solid", so the header text alone can't be
+ * trusted. An exact length match wins; otherwise anything that doesn't look
+ * like ASCII facets is treated as (possibly truncated) binary.
+ */
+function isBinaryStl(data: ArrayBuffer): boolean {
+  if (data.byteLength >= BINARY_HEADER_BYTES) {
+    const declared = new DataView(data).getUint32(80, true);
+    if (BINARY_HEADER_BYTES + declared * BINARY_TRIANGLE_BYTES === data.byteLength) {
+      return true;
+    }
+  }
+
+  const head = new TextDecoder().decode(new Uint8Array(data, 0, Math.min(data.byteLength, 512)));
+  const looksAscii = /^\s*solid\b/.test(head) && /\bfacet\b|\bendsolid\b/.test(head);
+  if (looksAscii) {
+    return false;
+  }
+
+  if (data.byteLength < BINARY_HEADER_BYTES) {
+    throw new Error("File is too small to be a binary STL and is not ASCII STL");
+  }
+  return true;
+}
+
+// =============================================================================
+// Mesh building
+// =============================================================================
+
+class MeshBuilder {
+  private vertexMap = new Map<string, number>();
+  private positions: number[] = [];
+  private indices: number[] = [];
+  degenerateTriangles = 0;
+
+  addTriangle(coords: ArrayLike<number>) {
+    const a = this.addVertex(coords[0], coords[1], coords[2]);
+    const b = this.addVertex(coords[3], coords[4], coords[5]);
+    const c = this.addVertex(coords[6], coords[7], coords[8]);
+    this.indices.push(a, b, c);
+  }
+
+  private addVertex(x: number, y: number, z: number): number {
+    // Round to float32 so ASCII and binary sources merge identically
+    const fx = Math.fround(x);
+    const fy = Math.fround(y);
+    const fz = Math.fround(z);
+    const key = `${fx},${fy},${fz}`;
+    const existing = this.vertexMap.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const index = this.positions.length / 3;
+    this.positions.push(fx, fy, fz);
+    this.vertexMap.set(key, index);
+    return index;
+  }
+
+  build(format: StlReport["format"], declared: number | null, matches: boolean | null): StlParseResult {
+    const triangleCount = this.indices.length / 3;
+    if (triangleCount === 0) {
+      throw new Error("STL contains no triangles");
+    }
+
+    const positions = new Float32Array(this.positions);
+    const indices = new Uint32Array(this.indices);
+    const normals = new Float32Array(positions.length);
+    const faceNormals = new Float32Array(triangleCount * 3);
+
+    for (let t = 0; t < triangleCount; t++) {
+      const ia = indices[t * 3] * 3;
+      const ib = indices[t * 3 + 1] * 3;
+      const ic = indices[t * 3 + 2] * 3;
+
+      const abx = positions[ib] - positions[ia];
+      const aby = positions[ib + 1] - positions[ia + 1];
+      const abz = positions[ib + 2] - positions[ia + 2];
+      const acx = positions[ic] - positions[ia];
+      const acy = positions[ic + 1] - positions[ia + 1];
+      const acz = positions[ic + 2] - positions[ia + 2];
+
+      // Cross product - length is twice the triangle area
+      const nx = aby * acz - abz * acy;
+      const ny = abz * acx - abx * acz;
+      const nz = abx * acy - aby * acx;
+      const len = Math.hypot(nx, ny, nz);
+
+      if (len < DEGENERATE_AREA_EPSILON || ia === ib || ib === ic || ia === ic) {
+        this.degenerateTriangles++;
+        continue;
+      }
+
+      faceNormals[t * 3] = nx / len;
+      faceNormals[t * 3 + 1] = ny / len;
+      faceNormals[t * 3 + 2] = nz / len;
+
+      // Unnormalized cross product = area weighting for vertex normals
+      for (const i of [ia, ib, ic]) {
+        normals[i] += nx;
+        normals[i + 1] += ny;
+        normals[i + 2] += nz;
+      }
+    }
+
+    for (let i = 0; i < normals.length; i += 3) {
+      const len = Math.hypot(normals[i], normals[i + 1], normals[i + 2]);
+      if (len > 0) {
+        normals[i] /= len;
+        normals[i + 1] /= len;
+        normals[i + 2] /= len;
+      }
+    }
+
+    return {
+      mesh: { positions, normals, faceNormals, indices },
+      report: {
+        format,
+        triangleCount,
+        vertexCount: positions.length / 3,
+        boundingBox: computeBoundingBox(positions),
+        degenerateTriangles: this.degenerateTriangles,
+        declaredTriangleCount: declared,
+        declaredCountMatchesLength: matches,
+      },
+    };
+  }
+}
+
+/**
+ * Axis-aligned bounding box of a flat xyz position buffer.
+ */
+export function computeBoundingBox(positions: ArrayLike<number>): BoundingBox {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (let i = 0; i < positions.length; i += 3) {
+    min.x = Math.min(min.x, positions[i]);
+    min.y = Math.min(min.y, positions[i + 1]);
+    min.z = Math.min(min.z, positions[i + 2]);
+    max.x = Math.max(max.x, positions[i]);
+    max.y = Math.max(max.y, positions[i + 1]);
+    max.z = Math.max(max.z, positions[i + 2]);
+  }
+  return { min, max };
+}
+
+// =============================================================================
+// Binary
+// =============================================================================
+
+function parseBinary(data: ArrayBuffer): StlParseResult {
+  const view = new DataView(data);
+  const declared = view.getUint32(80, true);
+  const expectedLength = BINARY_HEADER_BYTES + declared * BINARY_TRIANGLE_BYTES;
+  const matches = expectedLength === data.byteLength;
+
+  // Read only whole triangles that are actually present
+  const available = Math.floor((data.byteLength - BINARY_HEADER_BYTES) / BINARY_TRIANGLE_BYTES);
+  const count = Math.min(declared, available);
+
+  const builder = new MeshBuilder();
+  const coords = new Float32Array(9);
+
+  for (let t = 0; t < count; t++) {
+    // Skip the stored 12-byte normal - recomputed from winding
+    const offset = BINARY_HEADER_BYTES + t * BINARY_TRIANGLE_BYTES + 12;
+    for (let i = 0; i < 9; i++) {
+      const value = view.getFloat32(offset + i * 4, true);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid vertex coordinate in triangle ${t + 1}`);
+      }
+      coords[i] = value;
+    }
+    builder.addTriangle(coords);
+  }
+
+  return builder.build("binary", declared, matches);
+}
+
+// =============================================================================
+// ASCII
+// =============================================================================
+
+function parseAscii(data: ArrayBuffer): StlParseResult {
+  const text = new TextDecoder().decode(data);
+  const tokens = text.split(/\s+/).filter((token) => token.length > 0);
+  let pos = 0;
+
+  const expect = (keyword: string) => {
+    const token = tokens[pos++];
+    if (token?.toLowerCase() !== keyword) {
+      throw new Error(`Malformed ASCII STL: expected "${keyword}" but found "${token ?? "end of file"}"`);
+    }
+  };
+
+  const readNumber = () => {
+    const token = tokens[pos++];
+    const value = Number(token);
+    if (token === undefined || !Number.isFinite(value)) {
+      throw new Error(`Malformed ASCII STL: invalid number "${token ?? "end of file"}"`);
+    }
+    return value;
+  };
+
+  expect("solid");
+  // Optional solid name runs until the first "facet" / "endsolid"
+  while (pos < tokens.length && !/^(facet|endsolid)$/i.test(tokens[pos])) {
+    pos++;
+  }
+
+  const builder = new MeshBuilder();
+  const coords = new Array<number>(9);
+
+  while (pos < tokens.length && tokens[pos].toLowerCase() === "facet") {
+    pos++;
+    expect("normal");
+    readNumber();
+    readNumber();
+    readNumber();
+    expect("outer");
+    expect("loop");
+    for (let i = 0; i < 3; i++) {
+      expect("vertex");
+      coords[i * 3] = readNumber();
+      coords[i * 3 + 1] = readNumber();
+      coords[i * 3 + 2] = readNumber();
+    }
+    expect("endloop");
+    expect("endfacet");
+    builder.addTriangle(coords);
+  }
+
+  expect("endsolid");
+
+  return builder.build("ascii", null, null);
+}
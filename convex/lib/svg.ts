@@ -0,0 +1,925 @@
+/**
+ * SVG parsing: turns an SVG document into indexed, closed, fillable shapes.
+ *
+ * Supports <path>, <rect>, <circle>, <ellipse>, <polygon>, <polyline>, <line>
+ * and <use>, nested <g>/<svg> transforms, fill-rule (nonzero/evenodd) and
+ * display/visibility/fill="none". Curves and arcs are flattened to straight
+ * segments within a configurable tolerance.
+ *
+ * Output coordinates are the SVG user space of the root element (Y down).
+ * Each shape is one filled region: an outer contour (positive shoelace area)
+ * plus hole contours (negative area). Shapes are numbered in document order,
+ * which is what projects.extrusionPlanes[].svgShapes[].shapeIndex refers to.
+ *
+ * Content that can't be extruded as drawn (text, images, stroke-only
+ * outlines, open paths) is reported per element in `diagnostics`.
+ *
+ * Pure TypeScript (see lib/xml) so it runs in the browser and in Convex.
+ */
+
+import { parseXml, type XmlElement } from "./xml";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Contour = Point[];
+
+export interface SvgShape {
+  index: number;
+  outer: Contour;
+  holes: Contour[];
+  element: string; // source element name, e.g. "path"
+  elementId?: string; // source element id attribute, if any
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface SvgParseOptions {
+  // Max distance (output units) between a curve and its flattened segments
+  tolerance?: number;
+}
+
+/**
+ * Content that won't extrude the way it looks in a browser, per element.
+ * - open-path: a filled path/polyline with subpaths that don't end in Z
+ *   (filled as if closed, which is rarely what an outline drawing meant)
+ * - stroke-only: drawn with a stroke and no fill - strokes aren't extruded
+ * - text: <text> that wasn't converted to paths
+ * - raster: embedded <image>
+ */
+export interface SvgDiagnostic {
+  kind: "open-path" | "stroke-only" | "text" | "raster";
+  element: string;
+  elementId?: string;
+  message: string;
+}
+
+export interface SvgParseResult {
+  shapes: SvgShape[];
+  bounds: Bounds | null; // null when there are no shapes
+  viewBox: Bounds | null;
+  warnings: string[];
+  diagnostics: SvgDiagnostic[];
+}
+
+type Matrix = [number, number, number, number, number, number]; // a b c d e f
+type FillRule = "nonzero" | "evenodd";
+
+interface InheritedStyle {
+  matrix: Matrix;
+  fillRule: FillRule;
+  filled: boolean;
+  stroked: boolean;
+  visible: boolean;
+}
+
+const DEFAULT_TOLERANCE = 0.1;
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Contours with less area than this (output units²) are dropped
+const MIN_CONTOUR_AREA = 1e-9;
+
+// Nested <use> references deeper than this are ignored (guards cycles)
+const MAX_USE_DEPTH = 8;
+
+// Work limits over the whole document, <use> copies included. Depth alone
+// doesn't bound fan-out: a few KB of nested <use> can expand to millions of
+// shapes. Past these parseSvg throws rather than keep going.
+const MAX_VISITED_ELEMENTS = 100_000;
+const MAX_SHAPES = 20_000;
+const MAX_POINTS = 2_000_000;
+// Per curve/arc, whatever the tolerance and scale ask for
+const MAX_CURVE_SEGMENTS = 1024;
+
+// Elements whose children are rendered in place
+const CONTAINER_ELEMENTS = new Set(["svg", "g", "a", "switch"]);
+const SHAPE_ELEMENTS = new Set(["path", "rect", "circle", "ellipse", "polygon", "polyline", "line"]);
+const TEXT_ELEMENTS = new Set(["text", "textPath"]);
+
+/**
+ * Parse SVG text into shapes. Throws if the text is not an SVG document.
+ */
+export function parseSvg(source: string, options: SvgParseOptions = {}): SvgParseResult {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  if (!(tolerance > 0)) {
+    throw new Error("Curve tolerance must be positive");
+  }
+
+  const root = parseXml(source);
+  if (localName(root.name) !== "svg") {
+    throw new Error("Not an SVG document (root element is not <svg>)");
+  }
+
+  const ids = new Map<string, XmlElement>();
+  collectIds(root, ids);
+
+  const shapes: SvgShape[] = [];
+  const warnings = new Set<string>();
+  const diagnostics: SvgDiagnostic[] = [];
+  let visitedElements = 0;
+  let pointCount = 0;
+  const tooComplex = (what: string): never => {
+    throw new Error(`SVG is too complex (more than ${what}) - simplify it in your editor`);
+  };
+  const rootStyle: InheritedStyle = {
+    matrix: IDENTITY,
+    fillRule: "nonzero",
+    filled: true,
+    stroked: false,
+    visible: true,
+  };
+
+  const diagnose = (kind: SvgDiagnostic["kind"], element: XmlElement, message: string) => {
+    const id = element.attributes.id;
+    diagnostics.push({
+      kind,
+      element: localName(element.name),
+      ...(id ? { elementId: id } : {}),
+      message: `${describeElement(element)} ${message}`,
+    });
+  };
+
+  const visit = (element: XmlElement, inherited: InheritedStyle, useDepth: number) => {
+    if (++visitedElements > MAX_VISITED_ELEMENTS) {
+      tooComplex(`${MAX_VISITED_ELEMENTS} elements, counting <use> copies`);
+    }
+    const name = localName(element.name);
+    const style = resolveStyle(element, inherited, element === root);
+    if (style.display === "none") return;
+
+    if (CONTAINER_ELEMENTS.has(name)) {
+      for (const child of element.children) visit(child, style.inherited, useDepth);
+      return;
+    }
+
+    if (name === "use") {
+      const href = element.attributes["href"] ?? element.attributes["xlink:href"];
+      const target = href?.startsWith("#") ? ids.get(href.slice(1)) : undefined;
+      if (!target || useDepth >= MAX_USE_DEPTH) {
+        warnings.add(`Skipped <use> with unresolved reference ${href ?? "(none)"}`);
+        return;
+      }
+      const x = parseLength(element.attributes.x);
+      const y = parseLength(element.attributes.y);
+      const matrix = multiply(style.inherited.matrix, [1, 0, 0, 1, x, y]);
+      // <symbol> only renders through <use>, as a group
+      const targets = localName(target.name) === "symbol" ? target.children : [target];
+      for (const child of targets) visit(child, { ...style.inherited, matrix }, useDepth + 1);
+      return;
+    }
+
+    if (TEXT_ELEMENTS.has(name)) {
+      if (style.inherited.visible) {
+        diagnose("text", element, "wasn't converted to paths - convert text to paths in your editor to extrude it");
+      }
+      return;
+    }
+    if (name === "image") {
+      if (style.inherited.visible) {
+        diagnose("raster", element, "is an embedded image - only vector shapes can be extruded");
+      }
+      return;
+    }
+
+    if (!SHAPE_ELEMENTS.has(name)) return;
+    if (!style.inherited.visible) return;
+    if (!style.inherited.filled) {
+      warnings.add(`Skipped <${name}> with fill="none" (outlines can't be extruded)`);
+      if (style.inherited.stroked) {
+        diagnose("stroke-only", element, "has a stroke but no fill - convert the stroke to a filled outline");
+      }
+      return;
+    }
+
+    const matrix = style.inherited.matrix;
+    // Flatten in local space with the tolerance scaled to match output units
+    const localTolerance = tolerance / Math.max(matrixScale(matrix), 1e-9);
+    const subpaths = elementSubpaths(element, name, localTolerance, warnings);
+    for (const points of subpaths) pointCount += points.length;
+    if (pointCount > MAX_POINTS) tooComplex(`${MAX_POINTS} points`);
+    const contours = subpaths
+      .map((points) => removeDuplicatePoints(points.map((p) => transformPoint(matrix, p))))
+      .filter((contour) => contour.length >= 3 && Math.abs(signedArea(contour)) > MIN_CONTOUR_AREA);
+
+    if (contours.length === 0) {
+      if (name === "line" || name === "polyline") {
+        warnings.add(`Skipped <${name}> with no fill area`);
+        if (style.inherited.stroked) {
+          diagnose("stroke-only", element, "is a stroked line with no fill area");
+        }
+      }
+      return;
+    }
+
+    const open = name === "polyline" ? 1 : name === "path" ? openSubpathCount(element.attributes.d ?? "") : 0;
+    if (open > 0) {
+      diagnose(
+        "open-path",
+        element,
+        open === 1
+          ? "is not closed - it will be filled as if it were"
+          : `has ${open} unclosed parts - they will be filled as if closed`
+      );
+    }
+
+    for (const region of resolveFillRegions(contours, style.inherited.fillRule)) {
+      if (shapes.length >= MAX_SHAPES) tooComplex(`${MAX_SHAPES} shapes`);
+      shapes.push({
+        index: shapes.length,
+        outer: region.outer,
+        holes: region.holes,
+        element: name,
+        ...(element.attributes.id ? { elementId: element.attributes.id } : {}),
+      });
+    }
+  };
+
+  visit(root, rootStyle, 0);
+
+  return {
+    shapes,
+    bounds: shapes.length > 0 ? contourBounds(shapes.map((s) => s.outer).flat()) : null,
+    viewBox: parseViewBox(root.attributes.viewBox),
+    warnings: [...warnings],
+    diagnostics,
+  };
+}
+
+// e.g. <path id="leaf">, or <path> without an id
+function describeElement(element: XmlElement): string {
+  const id = element.attributes.id;
+  return id ? `<${localName(element.name)} id="${id}">` : `<${localName(element.name)}>`;
+}
+
+// Subpaths (each starting at M/m) that draw something but never close with Z/z
+function openSubpathCount(d: string): number {
+  let open = 0;
+  for (const subpath of d.split(/(?=[Mm])/)) {
+    if (/[LlHhVvCcSsQqTtAa]/.test(subpath) && !/[Zz]/.test(subpath)) open++;
+  }
+  return open;
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(":");
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function collectIds(element: XmlElement, ids: Map<string, XmlElement>) {
+  const id = element.attributes.id;
+  if (id && !ids.has(id)) ids.set(id, element);
+  for (const child of element.children) collectIds(child, ids);
+}
+
+function parseViewBox(value: string | undefined): Bounds | null {
+  if (!value) return null;
+  const numbers = parseNumberList(value);
+  if (numbers.length !== 4 || numbers[2] <= 0 || numbers[3] <= 0) return null;
+  const [x, y, width, height] = numbers;
+  return { minX: x, minY: y, maxX: x + width, maxY: y + height };
+}
+
+// =============================================================================
+// Styles and transforms
+// =============================================================================
+
+/**
+ * Presentation attributes and inline style="" declarations (style wins).
+ * <style> sheets and classes are not applied.
+ */
+function resolveStyle(element: XmlElement, inherited: InheritedStyle, isRoot: boolean) {
+  const props: Record<string, string> = {};
+  for (const key of ["fill", "fill-rule", "stroke", "display", "visibility"]) {
+    if (element.attributes[key] !== undefined) props[key] = element.attributes[key].trim();
+  }
+  for (const declaration of (element.attributes.style ?? "").split(";")) {
+    const colon = declaration.indexOf(":");
+    if (colon === -1) continue;
+    const key = declaration.slice(0, colon).trim().toLowerCase();
+    props[key] = declaration.slice(colon + 1).replace(/!important/i, "").trim();
+  }
+
+  let matrix = inherited.matrix;
+  // Nested <svg> viewports only contribute their x/y offset
+  if (!isRoot && localName(element.name) === "svg") {
+    matrix = multiply(matrix, [1, 0, 0, 1, parseLength(element.attributes.x), parseLength(element.attributes.y)]);
+  }
+  if (element.attributes.transform) {
+    matrix = multiply(matrix, parseTransform(element.attributes.transform));
+  }
+
+  const fillRule = props["fill-rule"];
+  const visibility = props.visibility;
+  const fill = props.fill;
+  const stroke = props.stroke;
+
+  return {
+    display: props.display,
+    inherited: {
+      matrix,
+      fillRule:
+        fillRule === "evenodd" || fillRule === "nonzero" ? fillRule : inherited.fillRule,
+      filled: fill === undefined || fill === "inherit" ? inherited.filled : fill !== "none",
+      stroked: stroke === undefined || stroke === "inherit" ? inherited.stroked : stroke !== "none",
+      visible:
+        visibility === undefined || visibility === "inherit"
+          ? inherited.visible
+          : visibility === "visible",
+    } satisfies InheritedStyle,
+  };
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function transformPoint(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+// Largest stretch the matrix applies to any direction
+function matrixScale(m: Matrix): number {
+  const [a, b, c, d] = m;
+  const sum = a * a + b * b + c * c + d * d;
+  const det = a * d - b * c;
+  return Math.sqrt((sum + Math.sqrt(Math.max(sum * sum - 4 * det * det, 0))) / 2);
+}
+
+/**
+ * Parse a transform list: matrix, translate, scale, rotate, skewX, skewY.
+ */
+export function parseTransform(value: string): Matrix {
+  let result: Matrix = IDENTITY;
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  for (const match of value.matchAll(pattern)) {
+    const args = parseNumberList(match[2]);
+    let m: Matrix = IDENTITY;
+    switch (match[1]) {
+      case "matrix":
+        if (args.length === 6) m = args as Matrix;
+        break;
+      case "translate":
+        m = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+        break;
+      case "scale":
+        m = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case "rotate": {
+        const angle = ((args[0] ?? 0) * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const cx = args[1] ?? 0;
+        const cy = args[2] ?? 0;
+        m = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case "skewX":
+        m = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case "skewY":
+        m = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    result = multiply(result, m);
+  }
+  return result;
+}
+
+function parseNumberList(value: string): number[] {
+  return (value.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []).map(Number);
+}
+
+// Lengths with units are read as plain user units; percentages aren't supported
+function parseLength(value: string | undefined): number {
+  if (!value) return 0;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+// =============================================================================
+// Elements to subpaths
+// =============================================================================
+
+function elementSubpaths(
+  element: XmlElement,
+  name: string,
+  tolerance: number,
+  warnings: Set<string>
+): Point[][] {
+  const attr = (key: string) => parseLength(element.attributes[key]);
+
+  switch (name) {
+    case "path":
+      try {
+        return flattenPath(element.attributes.d ?? "", tolerance);
+      } catch (err) {
+        warnings.add(err instanceof Error ? err.message : "Invalid path data");
+        return [];
+      }
+    case "rect": {
+      const x = attr("x");
+      const y = attr("y");
+      const width = attr("width");
+      const height = attr("height");
+      if (width <= 0 || height <= 0) return [];
+      // Missing rx/ry default to each other; both clamp to half the size
+      let rx = element.attributes.rx !== undefined ? attr("rx") : attr("ry");
+      let ry = element.attributes.ry !== undefined ? attr("ry") : attr("rx");
+      rx = Math.min(Math.max(rx, 0), width / 2);
+      ry = Math.min(Math.max(ry, 0), height / 2);
+      if (rx === 0 || ry === 0) {
+        return [[
+          { x, y },
+          { x: x + width, y },
+          { x: x + width, y: y + height },
+          { x, y: y + height },
+        ]];
+      }
+      const corners: [number, number, number][] = [
+        [x + width - rx, y + ry, -Math.PI / 2],
+        [x + width - rx, y + height - ry, 0],
+        [x + rx, y + height - ry, Math.PI / 2],
+        [x + rx, y + ry, Math.PI],
+      ];
+      return [corners.flatMap(([cx, cy, start]) => ellipseArc(cx, cy, rx, ry, 0, start, Math.PI / 2, tolerance, true))];
+    }
+    case "circle": {
+      const r = attr("r");
+      return r > 0 ? [ellipseArc(attr("cx"), attr("cy"), r, r, 0, 0, 2 * Math.PI, tolerance, false)] : [];
+    }
+    case "ellipse": {
+      const rx = attr("rx");
+      const ry = attr("ry");
+      return rx > 0 && ry > 0
+        ? [ellipseArc(attr("cx"), attr("cy"), rx, ry, 0, 0, 2 * Math.PI, tolerance, false)]
+        : [];
+    }
+    case "polygon":
+    case "polyline": {
+      const numbers = parseNumberList(element.attributes.points ?? "");
+      const points: Point[] = [];
+      for (let i = 0; i + 1 < numbers.length; i += 2) {
+        points.push({ x: numbers[i], y: numbers[i + 1] });
+      }
+      return [points];
+    }
+    case "line":
+      return [[
+        { x: attr("x1"), y: attr("y1") },
+        { x: attr("x2"), y: attr("y2") },
+      ]];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Points along an ellipse from `start` sweeping `sweep` radians.
+ * includeEnd adds the final point (used when chaining arcs).
+ */
+function ellipseArc(
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+  phi: number,
+  start: number,
+  sweep: number,
+  tolerance: number,
+  includeEnd: boolean
+): Point[] {
+  const r = Math.max(rx, ry);
+  // Chord sagitta r(1 - cos(step/2)) stays within tolerance
+  const maxStep = tolerance >= r ? Math.PI / 2 : 2 * Math.acos(1 - tolerance / r);
+  const segments = Math.min(
+    Math.max(Math.ceil(Math.abs(sweep) / maxStep), includeEnd ? 1 : 8),
+    MAX_CURVE_SEGMENTS
+  );
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const points: Point[] = [];
+  const count = includeEnd ? segments + 1 : segments;
+  for (let i = 0; i < count; i++) {
+    const t = start + (sweep * i) / segments;
+    const x = rx * Math.cos(t);
+    const y = ry * Math.sin(t);
+    points.push({ x: cx + x * cosPhi - y * sinPhi, y: cy + x * sinPhi + y * cosPhi });
+  }
+  return points;
+}
+
+// =============================================================================
+// Path data
+// =============================================================================
+
+const PATH_TOKEN = /([MmLlHhVvCcSsQqTtAaZz])|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/y;
+
+const PARAM_COUNTS: Record<string, number> = {
+  M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0,
+};
+
+/**
+ * Flatten path data into subpaths (each implicitly closed for filling).
+ * Throws on malformed data.
+ */
+export function flattenPath(d: string, tolerance: number): Point[][] {
+  const subpaths: Point[][] = [];
+  let current: Point[] = [];
+  let pen: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  // Reflection points for S/T smooth curves
+  let lastCubicControl: Point | null = null;
+  let lastQuadControl: Point | null = null;
+
+  const finishSubpath = () => {
+    if (current.length > 1) subpaths.push(current);
+    current = [];
+  };
+
+  const lineTo = (p: Point) => {
+    if (current.length === 0) current.push(pen);
+    current.push(p);
+    pen = p;
+  };
+
+  let pos = 0;
+  let command = "";
+  let args: number[] = [];
+
+  const readNumber = (flag: boolean): number => {
+    skipSeparators();
+    // Arc flags may be written without separators ("a1 1 0 0110 10")
+    if (flag && (d[pos] === "0" || d[pos] === "1")) {
+      return Number(d[pos++]);
+    }
+    PATH_TOKEN.lastIndex = pos;
+    const match = PATH_TOKEN.exec(d);
+    if (!match || match[2] === undefined) {
+      throw new Error(`Invalid path data near "${d.slice(pos, pos + 12)}"`);
+    }
+    pos += match[0].length;
+    return Number(match[2]);
+  };
+
+  const skipSeparators = () => {
+    while (pos < d.length && /[\s,]/.test(d[pos])) pos++;
+  };
+
+  for (;;) {
+    skipSeparators();
+    if (pos >= d.length) break;
+
+    if (/[A-Za-z]/.test(d[pos])) {
+      command = d[pos++];
+      if (PARAM_COUNTS[command.toUpperCase()] === undefined) {
+        throw new Error(`Unknown path command "${command}"`);
+      }
+    } else if (!command) {
+      throw new Error("Path data must start with a move command");
+    } else if (command === "Z" || command === "z") {
+      throw new Error(`Unexpected number after "${command}" in path data`);
+    }
+
+    const upper = command.toUpperCase();
+    const relative = command !== upper;
+    const count = PARAM_COUNTS[upper];
+    args = [];
+    for (let i = 0; i < count; i++) {
+      args.push(readNumber(upper === "A" && (i === 3 || i === 4)));
+    }
+
+    const ox = relative ? pen.x : 0;
+    const oy = relative ? pen.y : 0;
+    let cubicControl: Point | null = null;
+    let quadControl: Point | null = null;
+
+    switch (upper) {
+      case "M":
+        finishSubpath();
+        pen = { x: ox + args[0], y: oy + args[1] };
+        start = pen;
+        // Extra coordinate pairs after a move are implicit line-tos
+        command = relative ? "l" : "L";
+        break;
+      case "L":
+        lineTo({ x: ox + args[0], y: oy + args[1] });
+        break;
+      case "H":
+        lineTo({ x: ox + args[0], y: pen.y });
+        break;
+      case "V":
+        lineTo({ x: pen.x, y: oy + args[0] });
+        break;
+      case "C":
+      case "S": {
+        const c1: Point =
+          upper === "C"
+            ? { x: ox + args[0], y: oy + args[1] }
+            : lastCubicControl
+              ? { x: 2 * pen.x - lastCubicControl.x, y: 2 * pen.y - lastCubicControl.y }
+              : pen;
+        const rest = upper === "C" ? args.slice(2) : args;
+        const c2 = { x: ox + rest[0], y: oy + rest[1] };
+        const end = { x: ox + rest[2], y: oy + rest[3] };
+        for (const p of flattenCubic(pen, c1, c2, end, tolerance)) lineTo(p);
+        cubicControl = c2;
+        break;
+      }
+      case "Q":
+      case "T": {
+        const c: Point =
+          upper === "Q"
+            ? { x: ox + args[0], y: oy + args[1] }
+            : lastQuadControl
+              ? { x: 2 * pen.x - lastQuadControl.x, y: 2 * pen.y - lastQuadControl.y }
+              : pen;
+        const rest = upper === "Q" ? args.slice(2) : args;
+        const end = { x: ox + rest[0], y: oy + rest[1] };
+        for (const p of flattenQuadratic(pen, c, end, tolerance)) lineTo(p);
+        quadControl = c;
+        break;
+      }
+      case "A": {
+        const end = { x: ox + args[5], y: oy + args[6] };
+        for (const p of flattenArc(pen, args[0], args[1], args[2], args[3] !== 0, args[4] !== 0, end, tolerance)) {
+          lineTo(p);
+        }
+        break;
+      }
+      case "Z":
+        if (current.length > 0) lineTo(start);
+        finishSubpath();
+        pen = start;
+        break;
+    }
+
+    lastCubicControl = cubicControl;
+    lastQuadControl = quadControl;
+  }
+
+  finishSubpath();
+  return subpaths;
+}
+
+function flattenCubic(p0: Point, p1: Point, p2: Point, p3: Point, tolerance: number): Point[] {
+  // Flattening error is bounded by max|B''| / (8 n²), with |B''| <= 6 * max second difference
+  const dd = Math.max(
+    Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y),
+    Math.hypot(p1.x - 2 * p2.x + p3.x, p1.y - 2 * p2.y + p3.y)
+  );
+  const n = Math.min(Math.max(1, Math.ceil(Math.sqrt((6 * dd) / (8 * tolerance)))), MAX_CURVE_SEGMENTS);
+  const points: Point[] = [];
+  for (let i = 1; i <= n; i++) {
+    const t = i / n;
+    const mt = 1 - t;
+    const a = mt * mt * mt;
+    const b = 3 * mt * mt * t;
+    const c = 3 * mt * t * t;
+    const e = t * t * t;
+    points.push({
+      x: a * p0.x + b * p1.x + c * p2.x + e * p3.x,
+      y: a * p0.y + b * p1.y + c * p2.y + e * p3.y,
+    });
+  }
+  return points;
+}
+
+function flattenQuadratic(p0: Point, p1: Point, p2: Point, tolerance: number): Point[] {
+  const dd = Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y);
+  const n = Math.min(Math.max(1, Math.ceil(Math.sqrt((2 * dd) / (8 * tolerance)))), MAX_CURVE_SEGMENTS);
+  const points: Point[] = [];
+  for (let i = 1; i <= n; i++) {
+    const t = i / n;
+    const mt = 1 - t;
+    points.push({
+      x: mt * mt * p0.x + 2 * mt * t * p1.x + t * t * p2.x,
+      y: mt * mt * p0.y + 2 * mt * t * p1.y + t * t * p2.y,
+    });
+  }
+  return points;
+}
+
+/**
+ * Endpoint-parameterized arc (SVG spec F.6.5) flattened after the start point.
+ */
+function flattenArc(
+  p0: Point,
+  rxIn: number,
+  ryIn: number,
+  rotationDeg: number,
+  largeArc: boolean,
+  sweep: boolean,
+  p1: Point,
+  tolerance: number
+): Point[] {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0 || (p0.x === p1.x && p0.y === p1.y)) {
+    return [p1];
+  }
+
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (p0.x - p1.x) / 2;
+  const dy = (p0.y - p1.y) / 2;
+  const x1 = cosPhi * dx + sinPhi * dy;
+  const y1 = -sinPhi * dx + cosPhi * dy;
+
+  // Scale up radii that are too small to reach the end point
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  let factor = Math.sqrt(Math.max(numerator, 0) / denominator);
+  if (largeArc === sweep) factor = -factor;
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+
+  const cx = cosPhi * cx1 - sinPhi * cy1 + (p0.x + p1.x) / 2;
+  const cy = sinPhi * cx1 + cosPhi * cy1 + (p0.y + p1.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const points = ellipseArc(cx, cy, rx, ry, phi, theta, delta, tolerance, true).slice(1);
+  // Land exactly on the end point
+  points[points.length - 1] = p1;
+  return points;
+}
+
+// =============================================================================
+// Fill rule resolution
+// =============================================================================
+
+interface FillRegion {
+  outer: Contour;
+  holes: Contour[];
+}
+
+/**
+ * Split one element's contours into filled regions.
+ *
+ * For each contour, sample the winding number just inside and just outside
+ * one of its edges. A contour where the fill state changes is a boundary:
+ * filled inside means outer, filled outside means hole. Contours with the
+ * same fill on both sides (e.g. a nested same-direction loop under nonzero)
+ * are dropped. Holes attach to the smallest outer that contains them.
+ * Assumes contours don't cross each other.
+ */
+function resolveFillRegions(contours: Contour[], fillRule: FillRule): FillRegion[] {
+  const isFilled = (winding: number) => (fillRule === "evenodd" ? winding % 2 !== 0 : winding !== 0);
+
+  const outers: { contour: Contour; area: number }[] = [];
+  const holes: { contour: Contour; sample: Point }[] = [];
+
+  for (const contour of contours) {
+    const samples = edgeSamples(contour);
+    if (!samples) continue;
+    const inside = isFilled(windingNumber(contours, samples.inside));
+    const outside = isFilled(windingNumber(contours, samples.outside));
+    if (inside === outside) continue;
+
+    if (inside) {
+      const outer = ensureOrientation(contour, true);
+      outers.push({ contour: outer, area: signedArea(outer) });
+    } else {
+      holes.push({ contour: ensureOrientation(contour, false), sample: samples.inside });
+    }
+  }
+
+  const regions: FillRegion[] = outers.map((o) => ({ outer: o.contour, holes: [] }));
+  for (const hole of holes) {
+    let best = -1;
+    for (let i = 0; i < outers.length; i++) {
+      if (windingNumber([outers[i].contour], hole.sample) === 0) continue;
+      if (best === -1 || outers[i].area < outers[best].area) best = i;
+    }
+    if (best !== -1) regions[best].holes.push(hole.contour);
+  }
+  return regions;
+}
+
+/**
+ * Points a hair inside and outside the contour, off its longest edge.
+ */
+function edgeSamples(contour: Contour): { inside: Point; outside: Point } | null {
+  let longest = -1;
+  let length = 0;
+  for (let i = 0; i < contour.length; i++) {
+    const a = contour[i];
+    const b = contour[(i + 1) % contour.length];
+    const l = Math.hypot(b.x - a.x, b.y - a.y);
+    if (l > length) {
+      length = l;
+      longest = i;
+    }
+  }
+  if (longest === -1) return null;
+
+  const a = contour[longest];
+  const b = contour[(longest + 1) % contour.length];
+  const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  // Left normal points inward for positive-area contours
+  const sign = signedArea(contour) > 0 ? 1 : -1;
+  const nx = (-(b.y - a.y) / length) * sign;
+  const ny = ((b.x - a.x) / length) * sign;
+  const offset = Math.max(length * 1e-4, 1e-7);
+  return {
+    inside: { x: mid.x + nx * offset, y: mid.y + ny * offset },
+    outside: { x: mid.x - nx * offset, y: mid.y - ny * offset },
+  };
+}
+
+function windingNumber(contours: Contour[], p: Point): number {
+  let winding = 0;
+  for (const contour of contours) {
+    for (let i = 0; i < contour.length; i++) {
+      const a = contour[i];
+      const b = contour[(i + 1) % contour.length];
+      const cross = (b.x - a.x) * (p.y - a.y) - (p.x - a.x) * (b.y - a.y);
+      if (a.y <= p.y) {
+        if (b.y > p.y && cross > 0) winding++;
+      } else if (b.y <= p.y && cross < 0) {
+        winding--;
+      }
+    }
+  }
+  return winding;
+}
+
+// =============================================================================
+// Contour helpers
+// =============================================================================
+
+/**
+ * Shoelace area (positive when counter-clockwise in a Y-up frame).
+ */
+export function signedArea(contour: Contour): number {
+  let sum = 0;
+  for (let i = 0; i < contour.length; i++) {
+    const a = contour[i];
+    const b = contour[(i + 1) % contour.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+function ensureOrientation(contour: Contour, positive: boolean): Contour {
+  return signedArea(contour) > 0 === positive ? contour : [...contour].reverse();
+}
+
+function removeDuplicatePoints(points: Point[]): Point[] {
+  const result: Point[] = [];
+  for (const p of points) {
+    const last = result[result.length - 1];
+    if (!last || Math.abs(last.x - p.x) > 1e-9 || Math.abs(last.y - p.y) > 1e-9) {
+      result.push(p);
+    }
+  }
+  // Closing point duplicates the first
+  while (
+    result.length > 1 &&
+    Math.abs(result[0].x - result[result.length - 1].x) <= 1e-9 &&
+    Math.abs(result[0].y - result[result.length - 1].y) <= 1e-9
+  ) {
+    result.pop();
+  }
+  return result;
+}
+
+export function contourBounds(points: Point[]): Bounds {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  return { minX, minY, maxX, maxY };
+}
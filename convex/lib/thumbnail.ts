@@ -0,0 +1,157 @@
+/**
+ * Software rasterizer for STL thumbnails.
+ *
+ * Renders the mesh from a fixed three-quarter view (Z up, same direction as
+ * the scene's default camera) with an orthographic projection, a depth
+ * buffer and flat Lambert shading. 2x supersampled, transparent background.
+ *
+ * Pure TypeScript with no GPU or DOM, so it runs in Convex actions.
+ */
+
+import type { StlMesh } from "./stl";
+
+export interface ThumbnailOptions {
+  size?: number; // output width and height in pixels
+}
+
+export const DEFAULT_THUMBNAIL_SIZE = 256;
+
+const SUPERSAMPLE = 2;
+const MARGIN = 0.08; // fraction of the image left empty on each side
+
+// Toward the camera, matching the scene's framing direction
+const VIEW_DIR = normalize([0.55, -0.65, 0.5]);
+// Light from above-left of the camera
+const LIGHT_DIR = normalize([-0.2, -0.6, 1]);
+const AMBIENT = 0.35;
+const MODEL_COLOR = [148, 163, 184]; // slate-400, as in the scene
+
+type Vec3 = [number, number, number];
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(v[0], v[1], v[2]);
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+/**
+ * Render the mesh to RGBA pixels (size x size, top row first).
+ */
+export function renderThumbnail(mesh: StlMesh, options: ThumbnailOptions = {}): Uint8Array {
+  const size = options.size ?? DEFAULT_THUMBNAIL_SIZE;
+  const full = size * SUPERSAMPLE;
+  const { positions, indices } = mesh;
+
+  // Camera basis: screen x = right, screen y = up, depth = toward the camera
+  const right = normalize(cross([0, 0, 1], VIEW_DIR));
+  const up = cross(VIEW_DIR, right);
+
+  const vertexCount = positions.length / 3;
+  const projected = new Float32Array(vertexCount * 3);
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < vertexCount; i++) {
+    const p: Vec3 = [positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]];
+    const x = dot(p, right);
+    const y = dot(p, up);
+    projected[i * 3] = x;
+    projected[i * 3 + 1] = y;
+    projected[i * 3 + 2] = dot(p, VIEW_DIR);
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+
+  // Fit the projected bounds, centered, keeping the aspect ratio
+  const extent = Math.max(maxX - minX, maxY - minY) || 1;
+  const scale = (full * (1 - 2 * MARGIN)) / extent;
+  const offsetX = full / 2 - ((minX + maxX) / 2) * scale;
+  const offsetY = full / 2 + ((minY + maxY) / 2) * scale;
+  for (let i = 0; i < vertexCount; i++) {
+    projected[i * 3] = projected[i * 3] * scale + offsetX;
+    projected[i * 3 + 1] = offsetY - projected[i * 3 + 1] * scale; // image y points down
+  }
+
+  const depth = new Float32Array(full * full).fill(-Infinity);
+  const shade = new Float32Array(full * full).fill(-1); // -1 = background
+
+  for (let t = 0; t < indices.length; t += 3) {
+    const ia = indices[t] * 3;
+    const ib = indices[t + 1] * 3;
+    const ic = indices[t + 2] * 3;
+
+    // Flat shading from the face normal; back faces lit as if flipped so
+    // open meshes still read as solid
+    const e1: Vec3 = [positions[ib] - positions[ia], positions[ib + 1] - positions[ia + 1], positions[ib + 2] - positions[ia + 2]];
+    const e2: Vec3 = [positions[ic] - positions[ia], positions[ic + 1] - positions[ia + 1], positions[ic + 2] - positions[ia + 2]];
+    const normal = cross(e1, e2);
+    const length = Math.hypot(normal[0], normal[1], normal[2]);
+    if (length === 0) continue;
+    const facing = dot(normal, VIEW_DIR) >= 0 ? 1 : -1;
+    const lambert = Math.max(0, (facing * dot(normal, LIGHT_DIR)) / length);
+    const intensity = AMBIENT + (1 - AMBIENT) * lambert;
+
+    const ax = projected[ia], ay = projected[ia + 1], az = projected[ia + 2];
+    const bx = projected[ib], by = projected[ib + 1], bz = projected[ib + 2];
+    const cx = projected[ic], cy = projected[ic + 1], cz = projected[ic + 2];
+    const area = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+    if (area === 0) continue;
+
+    const x0 = Math.max(0, Math.floor(Math.min(ax, bx, cx)));
+    const x1 = Math.min(full - 1, Math.ceil(Math.max(ax, bx, cx)));
+    const y0 = Math.max(0, Math.floor(Math.min(ay, by, cy)));
+    const y1 = Math.min(full - 1, Math.ceil(Math.max(ay, by, cy)));
+
+    for (let y = y0; y <= y1; y++) {
+      const py = y + 0.5;
+      for (let x = x0; x <= x1; x++) {
+        const px = x + 0.5;
+        // Barycentric weights; same sign as area means inside
+        const w0 = ((bx - px) * (cy - py) - (by - py) * (cx - px)) / area;
+        const w1 = ((cx - px) * (ay - py) - (cy - py) * (ax - px)) / area;
+        const w2 = 1 - w0 - w1;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+        const z = w0 * az + w1 * bz + w2 * cz;
+        const i = y * full + x;
+        if (z > depth[i]) {
+          depth[i] = z;
+          shade[i] = intensity;
+        }
+      }
+    }
+  }
+
+  // Box-filter down to the output size
+  const rgba = new Uint8Array(size * size * 4);
+  const samples = SUPERSAMPLE * SUPERSAMPLE;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let covered = 0;
+      let light = 0;
+      for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+          const s = shade[(y * SUPERSAMPLE + sy) * full + x * SUPERSAMPLE + sx];
+          if (s >= 0) {
+            covered++;
+            light += s;
+          }
+        }
+      }
+      if (covered === 0) continue;
+      const o = (y * size + x) * 4;
+      const average = light / covered;
+      rgba[o] = Math.round(MODEL_COLOR[0] * average);
+      rgba[o + 1] = Math.round(MODEL_COLOR[1] * average);
+      rgba[o + 2] = Math.round(MODEL_COLOR[2] * average);
+      rgba[o + 3] = Math.round((255 * covered) / samples);
+    }
+  }
+  return rgba;
+}
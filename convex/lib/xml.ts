@@ -0,0 +1,219 @@
+/**
+ * Minimal XML element parser and serializer.
+ *
+ * Enough for SVG files: elements, attributes, text, comments, CDATA,
+ * processing instructions and DOCTYPE (skipped). No namespace resolution -
+ * prefixed names are kept as written (e.g. "xlink:href").
+ *
+ * Pure TypeScript so it runs in Convex functions where DOMParser is missing.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // concatenated direct text content (entities decoded)
+  content: XmlNode[]; // text and child elements in document order
+}
+
+// Text (entities decoded) or an element
+export type XmlNode = string | XmlElement;
+
+const NAME_PATTERN = /[A-Za-z_:][-A-Za-z0-9_:.]*/y;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return safeFromCodePoint(parseInt(entity.slice(2), 16)) ?? match;
+    }
+    if (entity.startsWith("#")) {
+      return safeFromCodePoint(parseInt(entity.slice(1), 10)) ?? match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function safeFromCodePoint(code: number): string | null {
+  try {
+    return String.fromCodePoint(code);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a document and return its root element.
+ * Throws on malformed markup (unclosed or mismatched tags, bad attributes).
+ */
+export function parseXml(source: string): XmlElement {
+  let pos = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid XML at offset ${pos}: ${message}`);
+  };
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, pos);
+    if (end === -1) fail(`missing "${terminator}"`);
+    pos = end + terminator.length;
+  };
+
+  const readName = (): string => {
+    NAME_PATTERN.lastIndex = pos;
+    const match = NAME_PATTERN.exec(source);
+    if (!match) fail("expected a name");
+    pos += match![0].length;
+    return match![0];
+  };
+
+  const skipWhitespace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  // Adjacent text (e.g. around a comment) merges into one node
+  const appendText = (text: string) => {
+    const parent = stack[stack.length - 1];
+    parent.text += text;
+    const last = parent.content.length - 1;
+    if (typeof parent.content[last] === "string") parent.content[last] += text;
+    else parent.content.push(text);
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf("<", pos);
+    const textEnd = lt === -1 ? source.length : lt;
+    if (textEnd > pos) {
+      const text = source.slice(pos, textEnd);
+      if (stack.length > 0) {
+        appendText(decodeEntities(text));
+      } else if (text.trim()) {
+        fail("text outside the root element");
+      }
+    }
+    if (lt === -1) break;
+    pos = lt;
+
+    if (source.startsWith("<!--", pos)) {
+      skipPast("-->");
+    } else if (source.startsWith("<![CDATA[", pos)) {
+      const start = pos + 9;
+      skipPast("]]>");
+      if (stack.length > 0) {
+        appendText(source.slice(start, pos - 3));
+      }
+    } else if (source.startsWith("<?", pos)) {
+      skipPast("?>");
+    } else if (source.startsWith("<!", pos)) {
+      skipDoctype();
+    } else if (source.startsWith("</", pos)) {
+      pos += 2;
+      const name = readName();
+      skipWhitespace();
+      if (source[pos] !== ">") fail("expected >");
+      pos++;
+      const open = stack.pop();
+      if (!open || open.name !== name) fail(`unexpected closing tag </${name}>`);
+    } else {
+      pos++;
+      const element: XmlElement = {
+        name: readName(),
+        attributes: {},
+        children: [],
+        text: "",
+        content: [],
+      };
+      let selfClosing = false;
+
+      for (;;) {
+        skipWhitespace();
+        if (source.startsWith("/>", pos)) {
+          selfClosing = true;
+          pos += 2;
+          break;
+        }
+        if (source[pos] === ">") {
+          pos++;
+          break;
+        }
+        if (pos >= source.length) fail(`unclosed tag <${element.name}>`);
+
+        const attrName = readName();
+        skipWhitespace();
+        if (source[pos] !== "=") fail(`attribute ${attrName} has no value`);
+        pos++;
+        skipWhitespace();
+        const quote = source[pos];
+        if (quote !== '"' && quote !== "'") fail(`attribute ${attrName} is not quoted`);
+        const end = source.indexOf(quote, pos + 1);
+        if (end === -1) fail(`unterminated attribute ${attrName}`);
+        element.attributes[attrName] = decodeEntities(source.slice(pos + 1, end));
+        pos = end + 1;
+      }
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+        stack[stack.length - 1].content.push(element);
+      } else if (root) {
+        fail("multiple root elements");
+      } else {
+        root = element;
+      }
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  if (!root) {
+    throw new Error("Invalid XML: no root element");
+  }
+  return root;
+
+  // DOCTYPE may carry an internal subset in [...]
+  function skipDoctype() {
+    let depth = 0;
+    while (pos < source.length) {
+      const ch = source[pos++];
+      if (ch === "[") depth++;
+      else if (ch === "]") depth--;
+      else if (ch === ">" && depth <= 0) return;
+    }
+    fail("unterminated declaration");
+  }
+}
+
+/**
+ * Serialize an element tree back to markup from each element's content.
+ * Comments, processing instructions and DOCTYPE are gone (the parser drops
+ * them).
+ */
+export function serializeXml(element: XmlElement): string {
+  const attributes = Object.entries(element.attributes)
+    .map(([name, value]) => ` ${name}="${encodeEntities(value, true)}"`)
+    .join("");
+  if (element.content.every((node) => node === "")) {
+    return `<${element.name}${attributes}/>`;
+  }
+  const content = element.content
+    .map((node) => (typeof node === "string" ? encodeEntities(node, false) : serializeXml(node)))
+    .join("");
+  return `<${element.name}${attributes}>${content}</${element.name}>`;
+}
+
+function encodeEntities(value: string, inAttribute: boolean): string {
+  const encoded = value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return inAttribute ? encoded.replace(/"/g, "&quot;") : encoded;
+}
@@ -0,0 +1,184 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { internalMutation, query, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { authComponent } from "./auth";
+import { fs } from "./fs";
+import { maintenanceJobValidator } from "./schema";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Keep log rows small - the count is always exact
+const MAX_LOGGED_ITEMS = 100;
+
+// Files checked per reconcile run (each page reschedules the next)
+const RECONCILE_PAGE_SIZE = 100;
+
+// Only these trees hold app files; anything else in convex-fs is left alone
+const RECONCILED_PREFIXES = ["/users/", "/base/"];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Record what a cleanup job removed (or, for expired uploads, released), for
+ * the admin Logs section.
+ */
+export async function recordMaintenanceLog(
+  ctx: MutationCtx,
+  log: {
+    job: Infer<typeof maintenanceJobValidator>;
+    removed: string[];
+    removedCount?: number; // When removed is already capped
+    scanned?: number;
+  }
+) {
+  await ctx.db.insert("maintenance_logs", {
+    job: log.job,
+    removedCount: log.removedCount ?? log.removed.length,
+    removed: log.removed.slice(0, MAX_LOGGED_ITEMS),
+    scanned: log.scanned,
+    createdAt: Date.now(),
+  });
+}
+
+// True if a stl_files/svg_files record still points at this path
+async function isReferenced(ctx: MutationCtx, path: string) {
+  const stl = await ctx.db
+    .query("stl_files")
+    .withIndex("by_path", (q) => q.eq("path", path))
+    .first();
+  if (stl) return true;
+
+  const thumbnailOf = await ctx.db
+    .query("stl_files")
+    .withIndex("by_thumbnailPath", (q) => q.eq("thumbnailPath", path))
+    .first();
+  if (thumbnailOf) return true;
+
+  const svg = await ctx.db
+    .query("svg_files")
+    .withIndex("by_path", (q) => q.eq("path", path))
+    .first();
+  return svg !== null;
+}
+
+// =============================================================================
+// SCHEDULED JOBS
+// =============================================================================
+
+/**
+ * Delete convex-fs files that no stl_files/svg_files record references
+ * (e.g. left behind by a failed delete). convex-fs then garbage-collects
+ * the unreferenced blobs after its grace period.
+ *
+ * Runs daily from crons.ts. Works one page at a time and schedules itself
+ * for the next page, carrying the running totals; the last page writes the
+ * maintenance log.
+ */
+export const reconcileOrphanedFiles = internalMutation({
+  args: {
+    prefixIndex: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+    removed: v.optional(v.array(v.string())),
+    removedCount: v.optional(v.number()),
+    scanned: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const prefixIndex = args.prefixIndex ?? 0;
+    let removed = args.removed ?? [];
+    let removedCount = args.removedCount ?? 0;
+    let scanned = args.scanned ?? 0;
+
+    const page = await fs.list(ctx, {
+      prefix: RECONCILED_PREFIXES[prefixIndex],
+      paginationOpts: { numItems: RECONCILE_PAGE_SIZE, cursor: args.cursor ?? null },
+    });
+
+    for (const file of page.page) {
+      scanned++;
+      if (await isReferenced(ctx, file.path)) continue;
+
+      await fs.delete(ctx, file.path);
+      removedCount++;
+      if (removed.length < MAX_LOGGED_ITEMS) {
+        removed = [...removed, file.path];
+      }
+    }
+
+    // Next page of this prefix, or the first page of the next prefix
+    const next = !page.isDone
+      ? { prefixIndex, cursor: page.continueCursor }
+      : prefixIndex + 1 < RECONCILED_PREFIXES.length
+        ? { prefixIndex: prefixIndex + 1, cursor: null }
+        : null;
+
+    if (next) {
+      await ctx.scheduler.runAfter(0, internal.maintenance.reconcileOrphanedFiles, {
+        ...next,
+        removed,
+        removedCount,
+        scanned,
+      });
+      return;
+    }
+
+    await recordMaintenanceLog(ctx, {
+      job: "orphaned_files",
+      removed,
+      removedCount,
+      scanned,
+    });
+  },
+});
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Recent maintenance logs, newest first (admin only).
+ * Returns null for non-admins.
+ */
+export const listLogs = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user (may throw during sign-out race)
+    let authUser;
+    try {
+      authUser = await authComponent.getAuthUser(ctx);
+    } catch {
+      return null;
+    }
+    if (!authUser) {
+      return null;
+    }
+
+    const appUser = await ctx.db
+      .query("users")
+      .withIndex("by_authUserId", (q) => q.eq("authUserId", authUser._id))
+      .first();
+    if (!appUser) {
+      return null;
+    }
+
+    const admin = await ctx.db
+      .query("admins")
+      .withIndex("by_email", (q) => q.eq("email", appUser.email))
+      .first();
+    if (!admin) {
+      return null;
+    }
+
+    return await ctx.db
+      .query("maintenance_logs")
+      .withIndex("by_createdAt")
+      .order("desc")
+      .take(Math.min(args.limit ?? 50, 200));
+  },
+});
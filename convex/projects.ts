@@ -0,0 +1,493 @@
+import { v } from "convex/values";
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { MAX_PROJECT_VERSIONS } from "./lib/limits";
+import { resolveTier } from "./quotas";
+import { rateLimiter } from "./rateLimiter";
+import { extrusionPlaneValidator, stlOrientationValidator } from "./schema";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const MAX_EXTRUSION_PLANES = 10;
+const MAX_NAME_LENGTH = 100;
+const MAX_PLANE_NAME_LENGTH = 50;
+const MIN_EXTRUSION_HEIGHT = 0.1; // mm
+const MAX_EXTRUSION_HEIGHT = 50; // mm
+// Autosaves snapshot a version at most this often
+const AUTOSAVE_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Resolve the authenticated app user, or null if signed out
+async function getAppUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  return await ctx.db
+    .query("users")
+    .withIndex("by_authUserId", (q) => q.eq("authUserId", identity.subject))
+    .unique();
+}
+
+async function requireAppUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const appUser = await ctx.db
+    .query("users")
+    .withIndex("by_authUserId", (q) => q.eq("authUserId", identity.subject))
+    .unique();
+  if (!appUser) {
+    throw new Error("App user not found");
+  }
+  return appUser;
+}
+
+// Load a project and verify the caller owns it
+async function requireOwnedProject(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+  appUser: Doc<"users">
+) {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw new Error("Project not found");
+  }
+  if (project.userId !== appUser._id) {
+    throw new Error("Access denied");
+  }
+  return project;
+}
+
+function normalizeName(name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Project name is required");
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new Error(`Project name must be ${MAX_NAME_LENGTH} characters or less`);
+  }
+  return trimmed;
+}
+
+async function enforceCreateRateLimit(ctx: MutationCtx, userId: Id<"users">) {
+  // 20 per hour per user (token bucket, burst of 5)
+  const { ok, retryAfter } = await rateLimiter.limit(ctx, "projectCreate", {
+    key: userId,
+  });
+  if (!ok) {
+    throw new Error(
+      `Too many new projects. Try again in ${Math.ceil(retryAfter! / 1000)} seconds.`
+    );
+  }
+}
+
+// Files referenced by a project must be base samples or owned by the user
+function assertFileAccess(
+  file: Doc<"stl_files"> | Doc<"svg_files"> | null,
+  appUser: Doc<"users">
+) {
+  if (!file) {
+    throw new Error("Referenced file not found");
+  }
+  if (!file.isBase && file.userId !== appUser._id) {
+    throw new Error("Access denied to referenced file");
+  }
+}
+
+async function validateExtrusionPlanes(
+  ctx: MutationCtx,
+  planes: Doc<"projects">["extrusionPlanes"],
+  appUser: Doc<"users">
+) {
+  if (planes.length > MAX_EXTRUSION_PLANES) {
+    throw new Error(`A project can have at most ${MAX_EXTRUSION_PLANES} extrusion planes`);
+  }
+
+  for (const plane of planes) {
+    const name = plane.name.trim();
+    if (!name || name.length > MAX_PLANE_NAME_LENGTH) {
+      throw new Error(`Extrusion plane names must be 1-${MAX_PLANE_NAME_LENGTH} characters`);
+    }
+    if (plane.svgSettings) {
+      const { scale, rotation, position } = plane.svgSettings;
+      if (!(scale > 0) || ![scale, rotation, position.x, position.y].every(Number.isFinite)) {
+        throw new Error("Invalid SVG placement");
+      }
+    }
+    for (const shape of plane.svgShapes ?? []) {
+      const { height } = shape.extrusionSettings;
+      if (!(height >= MIN_EXTRUSION_HEIGHT && height <= MAX_EXTRUSION_HEIGHT)) {
+        throw new Error(
+          `Extrusion heights must be between ${MIN_EXTRUSION_HEIGHT} and ${MAX_EXTRUSION_HEIGHT} mm`
+        );
+      }
+    }
+    if (plane.svgFileId) {
+      assertFileAccess(await ctx.db.get(plane.svgFileId), appUser);
+    }
+  }
+}
+
+// Snapshot a project's current state into project_versions, then prune
+// the oldest versions beyond the owner's tier cap
+async function snapshotVersion(
+  ctx: MutationCtx,
+  project: Doc<"projects">,
+  appUser: Doc<"users">,
+  reason: Doc<"project_versions">["reason"]
+) {
+  await ctx.db.insert("project_versions", {
+    projectId: project._id,
+    userId: project.userId,
+    reason,
+    stlFileId: project.stlFileId,
+    stlOrientation: project.stlOrientation,
+    extrusionPlanes: project.extrusionPlanes,
+    createdAt: Date.now(),
+  });
+
+  const maxVersions = MAX_PROJECT_VERSIONS[await resolveTier(ctx, appUser)];
+  const versions = await ctx.db
+    .query("project_versions")
+    .withIndex("by_projectId_createdAt", (q) => q.eq("projectId", project._id))
+    .order("desc")
+    .collect();
+  for (const old of versions.slice(maxVersions)) {
+    await ctx.db.delete(old._id);
+  }
+}
+
+async function latestVersion(ctx: MutationCtx, projectId: Id<"projects">) {
+  return await ctx.db
+    .query("project_versions")
+    .withIndex("by_projectId_createdAt", (q) => q.eq("projectId", projectId))
+    .order("desc")
+    .first();
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * List the current user's projects, most recently updated first.
+ * Returns summaries only - load a full project with `get`.
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const appUser = await getAppUser(ctx);
+    if (!appUser) {
+      return [];
+    }
+
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("by_userId", (q) => q.eq("userId", appUser._id))
+      .collect();
+
+    return projects
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((p) => ({
+        _id: p._id,
+        name: p.name,
+        createdAt: p.createdAt,
+        updatedAt: p.updatedAt,
+        stlFileId: p.stlFileId,
+        planeCount: p.extrusionPlanes.length,
+      }));
+  },
+});
+
+/**
+ * Get a single project.
+ * Returns null if it doesn't exist or belongs to another user.
+ *
+ * Takes the id as a string: it comes from the URL (/projects/:id), and a
+ * mistyped link should read as "not found" rather than fail validation.
+ */
+export const get = query({
+  args: {
+    projectId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await getAppUser(ctx);
+    if (!appUser) {
+      return null;
+    }
+
+    const projectId = ctx.db.normalizeId("projects", args.projectId);
+    if (!projectId) {
+      return null;
+    }
+
+    const project = await ctx.db.get(projectId);
+    if (!project || project.userId !== appUser._id) {
+      return null;
+    }
+
+    return project;
+  },
+});
+
+/**
+ * A project's version history, newest first.
+ * Summaries only - load a full snapshot with `getVersion`.
+ */
+export const listVersions = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await getAppUser(ctx);
+    if (!appUser) {
+      return [];
+    }
+
+    const project = await ctx.db.get(args.projectId);
+    if (!project || project.userId !== appUser._id) {
+      return [];
+    }
+
+    const versions = await ctx.db
+      .query("project_versions")
+      .withIndex("by_projectId_createdAt", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .collect();
+
+    return versions.map((version) => ({
+      _id: version._id,
+      reason: version.reason,
+      createdAt: version.createdAt,
+      planeCount: version.extrusionPlanes.length,
+    }));
+  },
+});
+
+/**
+ * Get a single project version (for preview and diff).
+ * Returns null if it doesn't exist or belongs to another user.
+ */
+export const getVersion = query({
+  args: {
+    versionId: v.id("project_versions"),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await getAppUser(ctx);
+    if (!appUser) {
+      return null;
+    }
+
+    const version = await ctx.db.get(args.versionId);
+    if (!version || version.userId !== appUser._id) {
+      return null;
+    }
+
+    return version;
+  },
+});
+
+// =============================================================================
+// MUTATIONS
+// =============================================================================
+
+/**
+ * Create a new, empty project.
+ * Rate limited with the `projectCreate` rule.
+ */
+export const create = mutation({
+  args: {
+    name: v.string(),
+    stlFileId: v.optional(v.id("stl_files")),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await requireAppUser(ctx);
+    const name = normalizeName(args.name);
+
+    await enforceCreateRateLimit(ctx, appUser._id);
+
+    if (args.stlFileId) {
+      assertFileAccess(await ctx.db.get(args.stlFileId), appUser);
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("projects", {
+      userId: appUser._id,
+      name,
+      createdAt: now,
+      updatedAt: now,
+      stlFileId: args.stlFileId,
+      extrusionPlanes: [],
+    });
+  },
+});
+
+/**
+ * Update a project's model, orientation and extrusion planes.
+ * Omitted fields are left unchanged; pass null to clear the STL or orientation.
+ *
+ * snapshot records the saved state in the version history: "manual" always,
+ * "autosave" only if the latest version is older than
+ * AUTOSAVE_VERSION_INTERVAL_MS.
+ */
+export const update = mutation({
+  args: {
+    projectId: v.id("projects"),
+    stlFileId: v.optional(v.union(v.id("stl_files"), v.null())),
+    stlOrientation: v.optional(v.union(stlOrientationValidator, v.null())),
+    extrusionPlanes: v.optional(v.array(extrusionPlaneValidator)),
+    snapshot: v.optional(v.union(v.literal("manual"), v.literal("autosave"))),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await requireAppUser(ctx);
+    await requireOwnedProject(ctx, args.projectId, appUser);
+
+    const patch: Partial<Doc<"projects">> = { updatedAt: Date.now() };
+
+    if (args.stlFileId !== undefined) {
+      if (args.stlFileId !== null) {
+        assertFileAccess(await ctx.db.get(args.stlFileId), appUser);
+      }
+      patch.stlFileId = args.stlFileId ?? undefined;
+    }
+
+    if (args.stlOrientation !== undefined) {
+      patch.stlOrientation = args.stlOrientation ?? undefined;
+    }
+
+    if (args.extrusionPlanes !== undefined) {
+      await validateExtrusionPlanes(ctx, args.extrusionPlanes, appUser);
+      patch.extrusionPlanes = args.extrusionPlanes;
+    }
+
+    await ctx.db.patch(args.projectId, patch);
+
+    if (args.snapshot) {
+      const latest = await latestVersion(ctx, args.projectId);
+      const due =
+        args.snapshot === "manual" ||
+        !latest ||
+        Date.now() - latest.createdAt >= AUTOSAVE_VERSION_INTERVAL_MS;
+      if (due) {
+        const saved = await ctx.db.get(args.projectId);
+        await snapshotVersion(ctx, saved!, appUser, args.snapshot);
+      }
+    }
+  },
+});
+
+/**
+ * Rename a project.
+ */
+export const rename = mutation({
+  args: {
+    projectId: v.id("projects"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await requireAppUser(ctx);
+    await requireOwnedProject(ctx, args.projectId, appUser);
+
+    await ctx.db.patch(args.projectId, {
+      name: normalizeName(args.name),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Duplicate a project under a new name.
+ * Counts against the `projectCreate` rate limit like any new project.
+ */
+export const duplicate = mutation({
+  args: {
+    projectId: v.id("projects"),
+    name: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await requireAppUser(ctx);
+    const source = await requireOwnedProject(ctx, args.projectId, appUser);
+
+    const name = normalizeName(
+      args.name ?? `${source.name} (copy)`.slice(0, MAX_NAME_LENGTH)
+    );
+
+    await enforceCreateRateLimit(ctx, appUser._id);
+
+    const now = Date.now();
+    return await ctx.db.insert("projects", {
+      userId: appUser._id,
+      name,
+      createdAt: now,
+      updatedAt: now,
+      stlFileId: source.stlFileId,
+      stlOrientation: source.stlOrientation,
+      extrusionPlanes: source.extrusionPlanes,
+    });
+  },
+});
+
+/**
+ * Delete a project.
+ */
+export const deleteProject = mutation({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await requireAppUser(ctx);
+    await requireOwnedProject(ctx, args.projectId, appUser);
+
+    const versions = await ctx.db
+      .query("project_versions")
+      .withIndex("by_projectId_createdAt", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    for (const version of versions) {
+      await ctx.db.delete(version._id);
+    }
+
+    await ctx.db.delete(args.projectId);
+  },
+});
+
+/**
+ * Restore a project to an earlier version.
+ * The current state is snapshotted first (reason "restore"), so a restore
+ * can itself be undone from the history.
+ */
+export const restoreVersion = mutation({
+  args: {
+    versionId: v.id("project_versions"),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await requireAppUser(ctx);
+    const version = await ctx.db.get(args.versionId);
+    if (!version) {
+      throw new Error("Version not found");
+    }
+    const project = await requireOwnedProject(ctx, version.projectId, appUser);
+
+    // Files may have been deleted since the snapshot
+    if (version.stlFileId) {
+      assertFileAccess(await ctx.db.get(version.stlFileId), appUser);
+    }
+    await validateExtrusionPlanes(ctx, version.extrusionPlanes, appUser);
+
+    await snapshotVersion(ctx, project, appUser, "restore");
+    await ctx.db.patch(project._id, {
+      stlFileId: version.stlFileId,
+      stlOrientation: version.stlOrientation,
+      extrusionPlanes: version.extrusionPlanes,
+      updatedAt: Date.now(),
+    });
+  },
+});
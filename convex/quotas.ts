@@ -0,0 +1,159 @@
+import { v } from "convex/values";
+import { internalQuery, query, type QueryCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { loadSubscriptionStatus } from "./billing";
+import { STORAGE_QUOTAS, formatBytes, type QuotaTier } from "./lib/limits";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const ACTIVE_STATUSES = ["active", "trialing", "past_due"];
+
+/**
+ * Quota tier for a user. Backer access (claimed crowdfunding code, or a
+ * backer-audience subscription) beats a paid tier; no active subscription
+ * means free (discovery).
+ */
+export async function resolveTier(ctx: QueryCtx, user: Doc<"users">): Promise<QuotaTier> {
+  if (user.backerAccessUntil && user.backerAccessUntil > Date.now()) {
+    return "backer";
+  }
+
+  const subscription = await loadSubscriptionStatus(ctx, user.authUserId);
+  if (!subscription.hasSubscription || !ACTIVE_STATUSES.includes(subscription.status ?? "")) {
+    return "free";
+  }
+  if (subscription.audience === "backer") return "backer";
+  return subscription.tier ?? "free";
+}
+
+/**
+ * Files and bytes in a user's library (STL + SVG, base samples excluded).
+ */
+async function loadUsage(ctx: QueryCtx, user: Doc<"users">) {
+  const stlFiles = await ctx.db
+    .query("stl_files")
+    .withIndex("by_userId", (q) => q.eq("userId", user._id))
+    .collect();
+  const svgFiles = await ctx.db
+    .query("svg_files")
+    .withIndex("by_userId", (q) => q.eq("userId", user._id))
+    .collect();
+
+  const files = [...stlFiles, ...svgFiles].filter((f) => !f.isBase);
+  return {
+    files: files.length,
+    bytes: files.reduce((sum, f) => sum + f.fileSize, 0),
+  };
+}
+
+/**
+ * Why adding one file of fileSize bytes would exceed the user's quota,
+ * or null if it fits.
+ */
+export async function quotaViolation(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  fileSize: number
+): Promise<string | null> {
+  const tier = await resolveTier(ctx, user);
+  const quota = STORAGE_QUOTAS[tier];
+  const usage = await loadUsage(ctx, user);
+
+  if (usage.files + 1 > quota.maxFiles) {
+    return `Storage quota reached: your plan allows ${quota.maxFiles} files. Delete files or upgrade your plan.`;
+  }
+  if (usage.bytes + fileSize > quota.maxBytes) {
+    return `Storage quota exceeded: ${formatBytes(usage.bytes)} of ${formatBytes(quota.maxBytes)} used, this file needs ${formatBytes(fileSize)}. Delete files or upgrade your plan.`;
+  }
+  return null;
+}
+
+/**
+ * Throwing form of quotaViolation, for commit mutations.
+ */
+export async function assertWithinQuota(ctx: QueryCtx, user: Doc<"users">, fileSize: number) {
+  const violation = await quotaViolation(ctx, user, fileSize);
+  if (violation) {
+    throw new Error(violation);
+  }
+}
+
+// =============================================================================
+// Upload check
+// =============================================================================
+
+/**
+ * Check storage quota for an upload.
+ * Called by HTTP upload endpoint BEFORE writing blob to storage, with the
+ * size that will actually be stored. commitFile checks again (the library
+ * may have changed in between).
+ *
+ * Admins are exempt here: /upload doesn't know yet whether the file is a
+ * base sample. Their user files are still checked at commit.
+ */
+export const checkUploadQuota = internalQuery({
+  args: {
+    authUserId: v.string(),
+    fileSize: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await ctx.db
+      .query("users")
+      .withIndex("by_authUserId", (q) => q.eq("authUserId", args.authUserId))
+      .unique();
+
+    if (!appUser) {
+      // Same first sign-in edge case as checkUploadRateLimit - commit checks
+      return { ok: true as const };
+    }
+
+    const adminRecord = await ctx.db
+      .query("admins")
+      .withIndex("by_email", (q) => q.eq("email", appUser.email))
+      .unique();
+    if (adminRecord) {
+      return { ok: true as const };
+    }
+
+    const violation = await quotaViolation(ctx, appUser, args.fileSize);
+    return violation ? { ok: false as const, reason: violation } : { ok: true as const };
+  },
+});
+
+// =============================================================================
+// Usage
+// =============================================================================
+
+/**
+ * Current user's storage usage and quota (for the account page meter).
+ * Returns null if not authenticated.
+ */
+export const getStorageUsage = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    const appUser = await ctx.db
+      .query("users")
+      .withIndex("by_authUserId", (q) => q.eq("authUserId", identity.subject))
+      .unique();
+
+    if (!appUser) {
+      return null;
+    }
+
+    const tier = await resolveTier(ctx, appUser);
+    const usage = await loadUsage(ctx, appUser);
+
+    return {
+      tier,
+      ...usage,
+      ...STORAGE_QUOTAS[tier],
+    };
+  },
+});
@@ -66,6 +66,11 @@ export const rateLimiter = new RateLimiter(components.rateLimiter, {
   // File upload: Storage costs
   // 10 per hour per user (with burst capacity of 5)
   fileUpload: { kind: "token bucket", rate: 10, period: HOUR, capacity: 5 },
+
+  // Abandoning pending uploads: frees upload slots, but the blobs stay in
+  // storage until convex-fs GCs them, so don't let it recycle slots freely
+  // 10 per hour per user
+  uploadAbandon: { kind: "fixed window", rate: 10, period: HOUR },
 });
 
 // Usage example in a mutation:
@@ -1,6 +1,81 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// =============================================================================
+// Shared project validators
+// =============================================================================
+// Exported so project mutations validate args with the exact stored shape.
+
+// STL orientation: quaternion + offset to build plate (mm)
+export const stlOrientationValidator = v.object({
+  rotation: v.object({
+    x: v.number(),
+    y: v.number(),
+    z: v.number(),
+    w: v.number(),
+  }),
+  zOffset: v.number(),
+});
+
+export const extrusionPlaneValidator = v.object({
+  name: v.string(),
+  planeData: v.object({
+    outer: v.array(v.object({ x: v.number(), y: v.number() })),
+    holes: v.array(
+      v.array(v.object({ x: v.number(), y: v.number() }))
+    ),
+    planeZ: v.number(),
+  }),
+  svgFileId: v.optional(v.id("svg_files")),
+  svgSettings: v.optional(
+    v.object({
+      scale: v.number(),
+      rotation: v.number(),
+      position: v.object({ x: v.number(), y: v.number() }),
+    })
+  ),
+  svgShapes: v.optional(
+    v.array(
+      v.object({
+        shapeIndex: v.number(),
+        name: v.string(),
+        extrusionSettings: v.object({
+          height: v.number(),
+        }),
+      })
+    )
+  ),
+});
+
+// Why a project version was snapshotted
+export const projectVersionReasonValidator = v.union(
+  v.literal("manual"), // Explicit Save
+  v.literal("autosave"), // Periodic, see projects.update
+  v.literal("restore") // State just before restoring another version
+);
+
+// =============================================================================
+// Shared upload validators
+// =============================================================================
+
+// File kinds accepted by the /upload route (?kind=stl|svg)
+export const uploadKindValidator = v.union(v.literal("stl"), v.literal("svg"));
+
+// STL facts verified server-side by parsing the uploaded blob
+export const stlInfoValidator = v.object({
+  triangleCount: v.number(),
+  boundingBox: v.object({
+    min: v.object({ x: v.number(), y: v.number(), z: v.number() }),
+    max: v.object({ x: v.number(), y: v.number(), z: v.number() }),
+  }),
+});
+
+// Scheduled cleanup jobs that write maintenance_logs
+export const maintenanceJobValidator = v.union(
+  v.literal("expired_uploads"),
+  v.literal("orphaned_files")
+);
+
 export default defineSchema({
   // App-specific user data (extends Better Auth user)
   // Better Auth manages its own tables (betterAuth:user, betterAuth:session, etc.)
@@ -107,8 +182,13 @@ export default defineSchema({
   pending_uploads: defineTable({
     blobId: v.string(), // From convex-fs upload
     authUserId: v.string(), // Better Auth user ID who uploaded
+    kind: v.optional(uploadKindValidator), // Declared via /upload?kind=
+    stlInfo: v.optional(stlInfoValidator), // Set when kind is "stl" and the blob parsed
+    fileSize: v.optional(v.number()), // Stored bytes (sanitized SVGs can differ from the upload)
+    sha256: v.optional(v.string()), // Hex SHA-256 of the stored bytes (dedupe at commit)
     createdAt: v.number(),
     expiresAt: v.number(), // Auto-cleanup after this time
+    abandonedAt: v.optional(v.number()), // Can't be committed; still counts until expiresAt
   })
     .index("by_blobId", ["blobId"])
     .index("by_authUserId", ["authUserId"])
@@ -122,10 +202,21 @@ export default defineSchema({
     name: v.string(), // User-defined display name
     fileSize: v.number(), // Bytes, for quota tracking
     isBase: v.boolean(), // True for admin samples (discovery mode)
+    // Verified at upload (optional: records from before validation lack them)
+    triangleCount: v.optional(v.number()),
+    boundingBox: v.optional(stlInfoValidator.fields.boundingBox),
+    // PNG preview next to the model, set by thumbnails.generateStlThumbnail
+    thumbnailPath: v.optional(v.string()),
+    thumbnailBlobId: v.optional(v.string()),
+    // Hex SHA-256 of the stored bytes (optional: older records lack it)
+    sha256: v.optional(v.string()),
     createdAt: v.number(),
   })
     .index("by_userId", ["userId"])
-    .index("by_isBase", ["isBase"]),
+    .index("by_isBase", ["isBase"])
+    .index("by_path", ["path"])
+    .index("by_thumbnailPath", ["thumbnailPath"])
+    .index("by_sha256", ["sha256"]),
 
   // SVG files - user library + admin base samples
   svg_files: defineTable({
@@ -135,10 +226,14 @@ export default defineSchema({
     name: v.string(), // User-defined display name
     fileSize: v.number(), // Bytes, for quota tracking
     isBase: v.boolean(), // True for admin samples
+    // Hex SHA-256 of the stored (sanitized) bytes (optional: older records lack it)
+    sha256: v.optional(v.string()),
     createdAt: v.number(),
   })
     .index("by_userId", ["userId"])
-    .index("by_isBase", ["isBase"]),
+    .index("by_isBase", ["isBase"])
+    .index("by_path", ["path"])
+    .index("by_sha256", ["sha256"]),
 
   // Projects - user's saved work
   projects: defineTable({
@@ -149,48 +244,33 @@ export default defineSchema({
     // STL reference (can be user file or base file)
     stlFileId: v.optional(v.id("stl_files")),
     // STL orientation in viewer
-    stlOrientation: v.optional(
-      v.object({
-        rotation: v.object({
-          x: v.number(),
-          y: v.number(),
-          z: v.number(),
-          w: v.number(),
-        }),
-        zOffset: v.number(),
-      })
-    ),
+    stlOrientation: v.optional(stlOrientationValidator),
     // Extrusion planes (max 10, enforced in mutation)
-    extrusionPlanes: v.array(
-      v.object({
-        name: v.string(),
-        planeData: v.object({
-          outer: v.array(v.object({ x: v.number(), y: v.number() })),
-          holes: v.array(
-            v.array(v.object({ x: v.number(), y: v.number() }))
-          ),
-          planeZ: v.number(),
-        }),
-        svgFileId: v.optional(v.id("svg_files")),
-        svgSettings: v.optional(
-          v.object({
-            scale: v.number(),
-            rotation: v.number(),
-            position: v.object({ x: v.number(), y: v.number() }),
-          })
-        ),
-        svgShapes: v.optional(
-          v.array(
-            v.object({
-              shapeIndex: v.number(),
-              name: v.string(),
-              extrusionSettings: v.object({
-                height: v.number(),
-              }),
-            })
-          )
-        ),
-      })
-    ),
+    extrusionPlanes: v.array(extrusionPlaneValidator),
   }).index("by_userId", ["userId"]),
+
+  // Project versions - immutable snapshots for history/restore
+  // Written by projects.update (manual saves, periodic autosaves) and
+  // before a restore; pruned to the owner's tier cap
+  project_versions: defineTable({
+    projectId: v.id("projects"),
+    userId: v.id("users"),
+    reason: projectVersionReasonValidator,
+    stlFileId: v.optional(v.id("stl_files")),
+    stlOrientation: v.optional(stlOrientationValidator),
+    extrusionPlanes: v.array(extrusionPlaneValidator),
+    createdAt: v.number(),
+  }).index("by_projectId_createdAt", ["projectId", "createdAt"]),
+
+  // Maintenance logs - what the scheduled cleanup jobs removed (convex/crons.ts)
+  // Shown in the admin Logs section
+  maintenance_logs: defineTable({
+    job: maintenanceJobValidator,
+    removedCount: v.number(),
+    // Removed paths (orphaned_files) or released uploads' blobIds, whose
+    // blobs convex-fs GCs later (expired_uploads). Capped, see maintenance.ts
+    removed: v.array(v.string()),
+    scanned: v.optional(v.number()), // Files checked (orphan reconcile)
+    createdAt: v.number(),
+  }).index("by_createdAt", ["createdAt"]),
 });
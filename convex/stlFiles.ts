@@ -1,7 +1,24 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
 import { fs } from "./fs";
+import { canReuseFile } from "./lib/hash";
+import { assertWithinQuota } from "./quotas";
+
+// Display names, as in the admin upload form
+const MAX_NAME_LENGTH = 100;
+
+function normalizeDisplayName(name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("File name is required");
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new Error(`File name must be ${MAX_NAME_LENGTH} characters or less`);
+  }
+  return trimmed;
+}
 
 /**
  * Commit an uploaded STL file to the user's library.
@@ -10,25 +27,29 @@ import { fs } from "./fs";
  * Security features:
  * - Rate limiting enforced at /upload endpoint (10/hour per user)
  * - BlobId ownership validation (prevents theft)
+ * - Content validation: only blobs parsed as STL by /upload?kind=stl commit
  * - Server-side path generation (prevents path injection)
  * - Admin validation for base files
+ * - Per-tier storage quota for user files (lib/limits STORAGE_QUOTAS)
+ * - Content-hash dedupe: re-uploads return the existing record
  *
  * Flow:
  * 1. Client POSTs file to /upload → rate limited, gets { blobId }
  * 2. Client calls this mutation with blobId
- * 3. Server validates blobId ownership
+ * 3. Server validates blobId ownership and that it was verified as STL
  * 4. Server generates path and commits blob
- * 5. Server creates stl_files record
+ * 5. Server creates stl_files record and schedules its thumbnail
  */
 export const commitFile = mutation({
   args: {
     blobId: v.string(), // From /upload response
     fileName: v.string(), // Original filename
     name: v.string(), // User-defined display name
-    fileSize: v.number(), // Bytes
+    fileSize: v.number(), // Bytes (fallback; the server-measured size wins)
     isBase: v.boolean(), // True for admin base samples
   },
-  handler: async (ctx, args) => {
+  // Explicit return type: the internal api reference below is otherwise circular
+  handler: async (ctx, args): Promise<Id<"stl_files">> => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) {
       throw new Error("Not authenticated");
@@ -59,9 +80,14 @@ export const commitFile = mutation({
     if (!uploadValidation.valid) {
       throw new Error(uploadValidation.reason ?? "Invalid upload");
     }
+    if (uploadValidation.kind !== "stl" || !uploadValidation.stlInfo) {
+      throw new Error("Upload was not verified as an STL file");
+    }
+    const { triangleCount, boundingBox } = uploadValidation.stlInfo;
+
+    const fileSize = uploadValidation.fileSize ?? args.fileSize;
 
     // Server-side admin validation for base files
-    let path: string;
     if (args.isBase) {
       const adminRecord = await ctx.db
         .query("admins")
@@ -71,11 +97,33 @@ export const commitFile = mutation({
       if (!adminRecord) {
         throw new Error("Only admins can upload base samples");
       }
+    }
 
+    // Deduplicate: an identical file the user can already use (their own,
+    // or a base sample) is returned instead of stored again. /upload catches
+    // most of these before writing a blob; this covers one committed since.
+    // The blob stays uncommitted and convex-fs GCs it.
+    const { sha256 } = uploadValidation;
+    if (sha256) {
+      const matches = await ctx.db
+        .query("stl_files")
+        .withIndex("by_sha256", (q) => q.eq("sha256", sha256))
+        .collect();
+      const existing = matches.find((file) => canReuseFile(file, appUser._id, args.isBase));
+      if (existing) {
+        return existing._id;
+      }
+    }
+
+    let path: string;
+    if (args.isBase) {
       // Generate path server-side (prevents path injection)
       const fileId = crypto.randomUUID();
       path = `/base/stl/${fileId}.stl`;
     } else {
+      // Per-tier storage quota (checked at /upload too; the library may have changed since)
+      await assertWithinQuota(ctx, appUser, fileSize);
+
       // User files go in their directory
       const fileId = crypto.randomUUID();
       path = `/users/${identity.subject}/stl/${fileId}.stl`;
@@ -89,16 +137,31 @@ export const commitFile = mutation({
       userId: appUser._id,
       path,
       fileName: args.fileName,
-      name: args.name,
-      fileSize: args.fileSize,
+      name: normalizeDisplayName(args.name),
+      fileSize,
       isBase: args.isBase,
+      sha256,
+      triangleCount,
+      boundingBox,
       createdAt: Date.now(),
     });
 
+    await ctx.scheduler.runAfter(0, internal.thumbnails.generateStlThumbnail, { fileId });
+
     return fileId;
   },
 });
 
+/**
+ * Thumbnail download info ({ path, blobId } for the /fs route), or null
+ * while it's being generated or if generation failed.
+ */
+function thumbnailOf(file: Doc<"stl_files">) {
+  return file.thumbnailPath && file.thumbnailBlobId
+    ? { path: file.thumbnailPath, blobId: file.thumbnailBlobId }
+    : null;
+}
+
 /**
  * List all base STL samples (for discovery mode).
  * Public - no auth required.
@@ -117,6 +180,7 @@ export const listBaseSamples = query({
       fileName: s.fileName,
       fileSize: s.fileSize,
       path: s.path, // Client constructs URL: ${CONVEX_SITE_URL}/fs${path}
+      thumbnail: thumbnailOf(s),
       createdAt: s.createdAt,
     }));
   },
@@ -147,6 +211,12 @@ export const listUserFiles = query({
       .withIndex("by_userId", (q) => q.eq("userId", appUser._id))
       .collect();
 
+    // Usage counts so the client can warn before deleting
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("by_userId", (q) => q.eq("userId", appUser._id))
+      .collect();
+
     // Filter out base files (admin might have user files too)
     return files
       .filter((f) => !f.isBase)
@@ -156,11 +226,106 @@ export const listUserFiles = query({
         fileName: f.fileName,
         fileSize: f.fileSize,
         path: f.path, // Client constructs URL: ${CONVEX_SITE_URL}/fs${path}
+        thumbnail: thumbnailOf(f),
         createdAt: f.createdAt,
+        projectCount: projects.filter((p) => p.stlFileId === f._id).length,
       }));
   },
 });
 
+/**
+ * Get a single STL file with the blobId needed for the /fs download route.
+ * Base samples are public; user files are only returned to their owner.
+ */
+export const getFile = query({
+  args: {
+    fileId: v.id("stl_files"),
+  },
+  handler: async (ctx, args) => {
+    const file = await ctx.db.get(args.fileId);
+    if (!file) {
+      return null;
+    }
+
+    if (!file.isBase) {
+      const identity = await ctx.auth.getUserIdentity();
+      if (!identity) {
+        return null;
+      }
+
+      const appUser = await ctx.db
+        .query("users")
+        .withIndex("by_authUserId", (q) => q.eq("authUserId", identity.subject))
+        .unique();
+
+      if (!appUser || file.userId !== appUser._id) {
+        return null;
+      }
+    }
+
+    const stat = await fs.stat(ctx, file.path);
+    if (!stat) {
+      return null;
+    }
+
+    return {
+      _id: file._id,
+      name: file.name,
+      fileName: file.fileName,
+      fileSize: file.fileSize,
+      isBase: file.isBase,
+      path: file.path,
+      blobId: stat.blobId, // Client builds ${CONVEX_SITE_URL}/fs/blobs/${blobId}?path=${path}
+    };
+  },
+});
+
+/**
+ * Rename an STL file (display name only; the stored path doesn't change).
+ * Owners rename their own files; admins rename base samples.
+ */
+export const renameFile = mutation({
+  args: {
+    fileId: v.id("stl_files"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const file = await ctx.db.get(args.fileId);
+    if (!file) {
+      throw new Error("File not found");
+    }
+
+    const appUser = await ctx.db
+      .query("users")
+      .withIndex("by_authUserId", (q) => q.eq("authUserId", identity.subject))
+      .unique();
+
+    if (!appUser) {
+      throw new Error("App user not found");
+    }
+
+    if (file.isBase) {
+      const adminRecord = await ctx.db
+        .query("admins")
+        .withIndex("by_email", (q) => q.eq("email", appUser.email))
+        .unique();
+
+      if (!adminRecord) {
+        throw new Error("Only admins can rename base samples");
+      }
+    } else if (file.userId !== appUser._id) {
+      throw new Error("Access denied");
+    }
+
+    await ctx.db.patch(args.fileId, { name: normalizeDisplayName(args.name) });
+  },
+});
+
 /**
  * Delete an STL file.
  */
@@ -208,6 +373,9 @@ export const deleteFile = mutation({
 
     // Delete from convex-fs
     await fs.delete(ctx, file.path);
+    if (file.thumbnailPath) {
+      await fs.delete(ctx, file.thumbnailPath);
+    }
 
     // Delete the record
     await ctx.db.delete(args.fileId);
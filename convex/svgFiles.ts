@@ -1,7 +1,24 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
 import { fs } from "./fs";
+import { canReuseFile } from "./lib/hash";
+import { assertWithinQuota } from "./quotas";
+
+// Display names, as in the admin upload form
+const MAX_NAME_LENGTH = 100;
+
+function normalizeDisplayName(name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("File name is required");
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new Error(`File name must be ${MAX_NAME_LENGTH} characters or less`);
+  }
+  return trimmed;
+}
 
 /**
  * Commit an uploaded SVG file to the user's library.
@@ -10,8 +27,11 @@ import { fs } from "./fs";
  * Security features:
  * - Rate limiting enforced at /upload endpoint (10/hour per user)
  * - BlobId ownership validation (prevents theft)
+ * - Content validation: /upload?kind=svg stores a sanitized copy, size-limited
  * - Server-side path generation (prevents path injection)
  * - Admin validation for base files
+ * - Per-tier storage quota for user files (lib/limits STORAGE_QUOTAS)
+ * - Content-hash dedupe: re-uploads return the existing record
  *
  * Flow:
  * 1. Client POSTs file to /upload → rate limited, gets { blobId }
@@ -25,10 +45,11 @@ export const commitFile = mutation({
     blobId: v.string(), // From /upload response
     fileName: v.string(), // Original filename
     name: v.string(), // User-defined display name
-    fileSize: v.number(), // Bytes
+    fileSize: v.number(), // Bytes (fallback; the server-measured size wins)
     isBase: v.boolean(), // True for admin base samples
   },
-  handler: async (ctx, args) => {
+  // Explicit return type: the internal api reference below is otherwise circular
+  handler: async (ctx, args): Promise<Id<"svg_files">> => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) {
       throw new Error("Not authenticated");
@@ -59,9 +80,13 @@ export const commitFile = mutation({
     if (!uploadValidation.valid) {
       throw new Error(uploadValidation.reason ?? "Invalid upload");
     }
+    if (uploadValidation.kind !== "svg") {
+      throw new Error("Upload was not sent as an SVG file");
+    }
+
+    const fileSize = uploadValidation.fileSize ?? args.fileSize;
 
     // Server-side admin validation for base files
-    let path: string;
     if (args.isBase) {
       const adminRecord = await ctx.db
         .query("admins")
@@ -71,11 +96,33 @@ export const commitFile = mutation({
       if (!adminRecord) {
         throw new Error("Only admins can upload base samples");
       }
+    }
+
+    // Deduplicate: an identical file the user can already use (their own,
+    // or a base sample) is returned instead of stored again. /upload catches
+    // most of these before writing a blob; this covers one committed since.
+    // The blob stays uncommitted and convex-fs GCs it.
+    const { sha256 } = uploadValidation;
+    if (sha256) {
+      const matches = await ctx.db
+        .query("svg_files")
+        .withIndex("by_sha256", (q) => q.eq("sha256", sha256))
+        .collect();
+      const existing = matches.find((file) => canReuseFile(file, appUser._id, args.isBase));
+      if (existing) {
+        return existing._id;
+      }
+    }
 
+    let path: string;
+    if (args.isBase) {
       // Generate path server-side (prevents path injection)
       const fileId = crypto.randomUUID();
       path = `/base/svg/${fileId}.svg`;
     } else {
+      // Per-tier storage quota (checked at /upload too; the library may have changed since)
+      await assertWithinQuota(ctx, appUser, fileSize);
+
       // User files go in their directory
       const fileId = crypto.randomUUID();
       path = `/users/${identity.subject}/svg/${fileId}.svg`;
@@ -89,9 +136,10 @@ export const commitFile = mutation({
       userId: appUser._id,
       path,
       fileName: args.fileName,
-      name: args.name,
-      fileSize: args.fileSize,
+      name: normalizeDisplayName(args.name),
+      fileSize,
       isBase: args.isBase,
+      sha256,
       createdAt: Date.now(),
     });
 
@@ -147,6 +195,12 @@ export const listUserFiles = query({
       .withIndex("by_userId", (q) => q.eq("userId", appUser._id))
       .collect();
 
+    // Usage counts so the client can warn before deleting
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("by_userId", (q) => q.eq("userId", appUser._id))
+      .collect();
+
     // Filter out base files (admin might have user files too)
     return files
       .filter((f) => !f.isBase)
@@ -157,10 +211,103 @@ export const listUserFiles = query({
         fileSize: f.fileSize,
         path: f.path, // Client constructs URL: ${CONVEX_SITE_URL}/fs${path}
         createdAt: f.createdAt,
+        projectCount: projects.filter((p) => p.extrusionPlanes.some((plane) => plane.svgFileId === f._id)).length,
       }));
   },
 });
 
+/**
+ * Get SVG files (e.g. those placed on a project's planes) with the blobIds
+ * needed for the /fs download route.
+ * Base samples are public; user files are only returned to their owner.
+ * Missing or inaccessible files are omitted.
+ */
+export const getFiles = query({
+  args: {
+    fileIds: v.array(v.id("svg_files")),
+  },
+  handler: async (ctx, args) => {
+    if (args.fileIds.length > 20) {
+      throw new Error("Too many files requested");
+    }
+
+    const identity = await ctx.auth.getUserIdentity();
+    const appUser = identity
+      ? await ctx.db
+          .query("users")
+          .withIndex("by_authUserId", (q) => q.eq("authUserId", identity.subject))
+          .unique()
+      : null;
+
+    const results = [];
+    for (const fileId of new Set(args.fileIds)) {
+      const file = await ctx.db.get(fileId);
+      if (!file) continue;
+      if (!file.isBase && (!appUser || file.userId !== appUser._id)) continue;
+
+      const stat = await fs.stat(ctx, file.path);
+      if (!stat) continue;
+
+      results.push({
+        _id: file._id,
+        name: file.name,
+        fileName: file.fileName,
+        fileSize: file.fileSize,
+        isBase: file.isBase,
+        path: file.path,
+        blobId: stat.blobId, // Client builds ${CONVEX_SITE_URL}/fs/blobs/${blobId}?path=${path}
+      });
+    }
+    return results;
+  },
+});
+
+/**
+ * Rename an SVG file (display name only; the stored path doesn't change).
+ * Owners rename their own files; admins rename base samples.
+ */
+export const renameFile = mutation({
+  args: {
+    fileId: v.id("svg_files"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const file = await ctx.db.get(args.fileId);
+    if (!file) {
+      throw new Error("File not found");
+    }
+
+    const appUser = await ctx.db
+      .query("users")
+      .withIndex("by_authUserId", (q) => q.eq("authUserId", identity.subject))
+      .unique();
+
+    if (!appUser) {
+      throw new Error("App user not found");
+    }
+
+    if (file.isBase) {
+      const adminRecord = await ctx.db
+        .query("admins")
+        .withIndex("by_email", (q) => q.eq("email", appUser.email))
+        .unique();
+
+      if (!adminRecord) {
+        throw new Error("Only admins can rename base samples");
+      }
+    } else if (file.userId !== appUser._id) {
+      throw new Error("Access denied");
+    }
+
+    await ctx.db.patch(args.fileId, { name: normalizeDisplayName(args.name) });
+  },
+});
+
 /**
  * Delete an SVG file.
  */
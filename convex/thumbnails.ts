@@ -0,0 +1,83 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { fs } from "./fs";
+import { encodePng } from "./lib/png";
+import { parseStl } from "./lib/stl";
+import { DEFAULT_THUMBNAIL_SIZE, renderThumbnail } from "./lib/thumbnail";
+
+/**
+ * STL thumbnails.
+ *
+ * stlFiles.commitFile schedules generateStlThumbnail, which reads the
+ * committed model, rasterizes it in software and stores a PNG next to it
+ * (/.../stl/{id}.stl -> /.../stl/{id}.png). Failures are logged and leave the
+ * file without a thumbnail - the panels fall back to the generic icon.
+ */
+
+export const getStlFileForThumbnail = internalQuery({
+  args: {
+    fileId: v.id("stl_files"),
+  },
+  handler: async (ctx, args) => {
+    const file = await ctx.db.get(args.fileId);
+    return file ? { path: file.path } : null;
+  },
+});
+
+export const generateStlThumbnail = internalAction({
+  args: {
+    fileId: v.id("stl_files"),
+  },
+  handler: async (ctx, args) => {
+    const file = await ctx.runQuery(internal.thumbnails.getStlFileForThumbnail, {
+      fileId: args.fileId,
+    });
+    if (!file) return;
+
+    try {
+      const stored = await fs.getFile(ctx, file.path);
+      if (!stored) {
+        throw new Error(`File not found: ${file.path}`);
+      }
+
+      const { mesh } = parseStl(stored.data);
+      const png = encodePng(renderThumbnail(mesh), DEFAULT_THUMBNAIL_SIZE, DEFAULT_THUMBNAIL_SIZE);
+      const blobId = await fs.writeBlob(
+        ctx,
+        png.buffer.slice(png.byteOffset, png.byteOffset + png.byteLength) as ArrayBuffer,
+        "image/png"
+      );
+
+      await ctx.runMutation(internal.thumbnails.attachStlThumbnail, {
+        fileId: args.fileId,
+        blobId,
+      });
+    } catch (error) {
+      console.error("Thumbnail generation failed:", args.fileId, error);
+    }
+  },
+});
+
+/**
+ * Commit the rendered PNG next to the model and link it on the record.
+ * If the model was deleted meanwhile, nothing is committed and the
+ * uncommitted blob expires on its own.
+ */
+export const attachStlThumbnail = internalMutation({
+  args: {
+    fileId: v.id("stl_files"),
+    blobId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const file = await ctx.db.get(args.fileId);
+    if (!file) return;
+
+    const thumbnailPath = file.path.replace(/\.stl$/, ".png");
+    await fs.commitFiles(ctx, [{ path: thumbnailPath, blobId: args.blobId }]);
+    await ctx.db.patch(args.fileId, {
+      thumbnailPath,
+      thumbnailBlobId: args.blobId,
+    });
+  },
+});
@@ -1,26 +1,79 @@
 import { v } from "convex/values";
-import { internalMutation, internalQuery } from "./_generated/server";
+import { internalMutation, internalQuery, mutation } from "./_generated/server";
+import { canReuseFile } from "./lib/hash";
+import { ABANDONED_UPLOAD_HOLD_MS, MAX_PENDING_UPLOADS } from "./lib/limits";
+import { recordMaintenanceLog } from "./maintenance";
+import { resolveTier } from "./quotas";
 import { rateLimiter } from "./rateLimiter";
+import { stlInfoValidator, uploadKindValidator } from "./schema";
 
 // 1 hour expiry for pending uploads (generous buffer)
 const PENDING_UPLOAD_TTL_MS = 60 * 60 * 1000;
 
 /**
- * Check if a user has any pending (uncommitted) uploads.
- * Used to enforce one-upload-at-a-time policy.
- * Returns true if user has a pending upload, false otherwise.
+ * Check how many pending (uncommitted) uploads a user has against their
+ * tier's allowance (lib/limits MAX_PENDING_UPLOADS).
+ * Used by /upload to limit uploads in flight; stuck ones can be released
+ * with abandonPendingUploads. Abandoned ones count for a while longer (see
+ * lib/limits ABANDONED_UPLOAD_HOLD_MS).
  */
-export const hasPendingUpload = internalQuery({
+export const checkPendingUploads = internalQuery({
   args: {
     authUserId: v.string(),
   },
   handler: async (ctx, args) => {
+    // Expired records don't count - they may not have been cleaned up yet
     const pending = await ctx.db
       .query("pending_uploads")
       .withIndex("by_authUserId", (q) => q.eq("authUserId", args.authUserId))
-      .first();
+      .filter((q) => q.gt(q.field("expiresAt"), Date.now()))
+      .collect();
 
-    return pending !== null;
+    const appUser = await ctx.db
+      .query("users")
+      .withIndex("by_authUserId", (q) => q.eq("authUserId", args.authUserId))
+      .unique();
+    const tier = appUser ? await resolveTier(ctx, appUser) : "free";
+    const limit = MAX_PENDING_UPLOADS[tier];
+
+    return { ok: pending.length < limit, pending: pending.length, limit };
+  },
+});
+
+/**
+ * Find a file with this content hash the user can already use (their own,
+ * or a base sample - see lib/hash canReuseFile), or null.
+ * Called by /upload, which returns it instead of writing a new blob.
+ */
+export const findDuplicateFile = internalQuery({
+  args: {
+    authUserId: v.string(),
+    kind: uploadKindValidator,
+    sha256: v.string(),
+    isBase: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const appUser = await ctx.db
+      .query("users")
+      .withIndex("by_authUserId", (q) => q.eq("authUserId", args.authUserId))
+      .unique();
+    if (!appUser) {
+      return null;
+    }
+
+    const matches =
+      args.kind === "stl"
+        ? await ctx.db
+            .query("stl_files")
+            .withIndex("by_sha256", (q) => q.eq("sha256", args.sha256))
+            .collect()
+        : await ctx.db
+            .query("svg_files")
+            .withIndex("by_sha256", (q) => q.eq("sha256", args.sha256))
+            .collect();
+
+    const existing = matches.find((file) => canReuseFile(file, appUser._id, args.isBase));
+    return existing?._id ?? null;
   },
 });
 
@@ -69,19 +122,22 @@ export const checkUploadRateLimit = internalMutation({
  * Internal only - not callable from client.
  *
  * Opportunistic cleanup: Before inserting, deletes expired records
- * from ALL users (not just current user). This means every upload
- * acts as a mini-cleanup, preventing accumulation without needing a cron job.
+ * from ALL users (not just current user), between the scheduled
+ * cleanupExpiredUploads runs.
  */
 export const registerPendingUpload = internalMutation({
   args: {
     blobId: v.string(),
     authUserId: v.string(),
+    kind: uploadKindValidator,
+    stlInfo: v.optional(stlInfoValidator),
+    fileSize: v.number(),
+    sha256: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
 
     // Opportunistic cleanup: delete ALL expired pending uploads (any user)
-    // This prevents accumulation from inactive users without needing a cron job
     const expired = await ctx.db
       .query("pending_uploads")
       .withIndex("by_expiresAt")
@@ -96,6 +152,10 @@ export const registerPendingUpload = internalMutation({
     await ctx.db.insert("pending_uploads", {
       blobId: args.blobId,
       authUserId: args.authUserId,
+      kind: args.kind,
+      stlInfo: args.stlInfo,
+      fileSize: args.fileSize,
+      sha256: args.sha256,
       createdAt: now,
       expiresAt: now + PENDING_UPLOAD_TTL_MS,
     });
@@ -104,7 +164,8 @@ export const registerPendingUpload = internalMutation({
 
 /**
  * Validate and consume a pending upload.
- * Returns true if the blobId belongs to the given user, false otherwise.
+ * Returns valid: true if the blobId belongs to the given user, along with
+ * the declared kind, stored size and hash, and any server-verified STL info.
  * Deletes the pending upload record on success (one-time use).
  */
 export const consumePendingUpload = internalMutation({
@@ -132,18 +193,87 @@ export const consumePendingUpload = internalMutation({
       return { valid: false, reason: "Upload expired" };
     }
 
+    if (pending.abandonedAt !== undefined) {
+      return { valid: false, reason: "Upload was cancelled" };
+    }
+
     // Valid - consume the pending upload
     await ctx.db.delete(pending._id);
-    return { valid: true };
+    return {
+      valid: true,
+      kind: pending.kind,
+      stlInfo: pending.stlInfo,
+      fileSize: pending.fileSize,
+      sha256: pending.sha256,
+    };
+  },
+});
+
+/**
+ * Abandon the current user's pending uploads - one blobId, or all of them.
+ * For uploads that will never be committed (crashed tab, failed commit):
+ * they can no longer be committed, and stop counting against
+ * checkPendingUploads after ABANDONED_UPLOAD_HOLD_MS instead of
+ * PENDING_UPLOAD_TTL_MS.
+ *
+ * The blobs are NOT deleted: convex-fs has no call to delete an uncommitted
+ * upload, so they stay in storage until its upload GC removes them (hours
+ * later). The hold and the "uploadAbandon" rate limit keep upload/abandon
+ * loops from piling them up.
+ */
+export const abandonPendingUploads = mutation({
+  args: {
+    blobId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const pending = await ctx.db
+      .query("pending_uploads")
+      .withIndex("by_authUserId", (q) => q.eq("authUserId", identity.subject))
+      .collect();
+
+    const abandoned = pending.filter(
+      (record) =>
+        record.abandonedAt === undefined && (!args.blobId || record.blobId === args.blobId)
+    );
+    if (abandoned.length === 0) {
+      return { released: 0, availableAt: null };
+    }
+
+    const { ok, retryAfter } = await rateLimiter.limit(ctx, "uploadAbandon", {
+      key: identity.subject,
+    });
+    if (!ok) {
+      throw new Error(
+        `Too many cancelled uploads. Try again in ${Math.ceil(retryAfter! / 1000)} seconds.`
+      );
+    }
+
+    const now = Date.now();
+    for (const record of abandoned) {
+      await ctx.db.patch(record._id, {
+        abandonedAt: now,
+        expiresAt: Math.min(record.expiresAt, now + ABANDONED_UPLOAD_HOLD_MS),
+      });
+    }
+
+    return { released: abandoned.length, availableAt: now + ABANDONED_UPLOAD_HOLD_MS };
   },
 });
 
 /**
  * Clean up ALL expired pending uploads across all users.
- * Backup option - opportunistic cleanup in registerPendingUpload now handles
- * all users on every upload. This is only needed if no uploads have happened
- * for a long time and you want to manually clear out stale records.
+ * Scheduled by crons.ts; registerPendingUpload also cleans up opportunistically.
  * Can be called manually via `npx convex run uploads:cleanupExpiredUploads`
+ *
+ * This only releases our ownership records; the blobs are NOT deleted here.
+ * writeBlob registered them with convex-fs as uncommitted uploads, and its
+ * upload GC deletes them from storage later. The log lists the released
+ * records' blob ids (LogsSection shows them as released, not removed).
  */
 export const cleanupExpiredUploads = internalMutation({
   args: {},
@@ -151,14 +281,21 @@ export const cleanupExpiredUploads = internalMutation({
     const now = Date.now();
     const expired = await ctx.db
       .query("pending_uploads")
-      .withIndex("by_expiresAt")
-      .filter((q) => q.lt(q.field("expiresAt"), now))
+      .withIndex("by_expiresAt", (q) => q.lt("expiresAt", now))
       .collect();
 
     for (const record of expired) {
       await ctx.db.delete(record._id);
     }
 
+    // Quiet runs (the common case) don't log
+    if (expired.length > 0) {
+      await recordMaintenanceLog(ctx, {
+        job: "expired_uploads",
+        removed: expired.map((record) => record.blobId),
+      });
+    }
+
     return { deleted: expired.length };
   },
 });
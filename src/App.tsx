@@ -1,77 +1,74 @@
-import { useState, useEffect } from 'react'
-import { useConvexAuth, useMutation, useQuery } from 'convex/react'
+import { useCallback, useState, useEffect } from 'react'
+import { useQuery } from 'convex/react'
 import { api } from '@convex/_generated/api'
-import type { Id } from '@convex/_generated/dataModel'
-import { useSession } from './hooks/useSession'
+import type { Doc, Id } from '@convex/_generated/dataModel'
+import { useAuthFlow } from './hooks/useAuthFlow'
+import { useProject } from './hooks/useProject'
+import { useRoute } from './hooks/useRoute'
+import { useUndoShortcuts } from './hooks/useUndoShortcuts'
+import { useStlMesh } from './hooks/useStlMesh'
+import { usePlanarRegions } from './hooks/usePlanarRegions'
+import { useSvgShapes } from './hooks/useSvgShapes'
+import { useClippedShapes } from './hooks/useClippedShapes'
+import { useExtrusions } from './hooks/useExtrusions'
 import { UserPage } from './components/UserPage'
 import { AdminPage } from './components/AdminPage'
 import { FaqPage } from './components/FaqPage'
 import { PricingPage } from './components/PricingPage'
 import { CheckoutSuccessPage } from './components/CheckoutSuccessPage'
+import { DraftRestoreBar } from './components/DraftRestoreBar'
 import { AuthModal } from './components/modals/AuthModal'
 import { AuthPendingModal } from './components/modals/AuthPendingModal'
 import { OnboardingModal } from './components/modals/OnboardingModal'
 import { SubscribeModal } from './components/modals/SubscribeModal'
-import { Step1Panel, Step3Panel, StepPlaceholder } from './components/panels'
-import { authClient } from '@/lib/auth-client'
-import {
-  safeLocalGet,
-  safeLocalSet,
-  safeSessionGet,
-  safeSessionRemove,
-} from '@/lib/storage'
+import { OrientationTools, Step1Panel, Step2Panel, Step3Panel, Step4Panel, Step5Panel } from './components/panels'
+import { SceneViewer, type SceneMode } from './components/scene'
+import { PlacementEditor } from './components/placement'
+import { VersionHistoryPanel } from './components/history'
+import type { StlOrientation } from '@/lib/orientation'
+import { MAX_EXTRUSION_PLANES, togglePlaneForRegion, type ExtrusionPlane } from '@/lib/planes'
+import { assignSvg, resolvePlacement, type SvgSettings } from '@/lib/placement'
+import type { EditInfo } from '@/lib/undo-stack'
+import { readCurrentProjectId } from '@/lib/project-draft'
+import type { Route } from '@/lib/routes'
+import { safeLocalGet, safeLocalSet } from '@/lib/storage'
 
 const MIN_WIDTH = 1024
 const MIN_HEIGHT = 768
 
-type Page = 'main' | 'user' | 'faq' | 'pricing' | 'checkout-success'
 type SubscribeTier = 'personal' | 'commercial' | null
 
 const ONBOARDING_KEY = 'vp_onboarding_seen'
-const AUTH_PENDING_KEY = 'vp_auth_pending'
-const BACKER_ID_KEY = 'vp_backer_id'
-const BACKER_TOKEN_KEY = 'vp_backer_token'
 
 function App() {
-  const { isLoading, isAuthenticated } = useConvexAuth()
+  const auth = useAuthFlow()
+  const { route, navigate } = useRoute()
   const [tooSmall, setTooSmall] = useState(false)
-  const [activeStep, setActiveStep] = useState(1)
-  const [currentPage, setCurrentPage] = useState<Page>('main')
+  // Where the editor is. Follows the URL, and is kept while other pages are open.
+  const [projectId, setProjectId] = useState<Id<'projects'> | null>(() =>
+    route.page === 'main' && route.projectId ? route.projectId : readCurrentProjectId()
+  )
+  const [activeStep, setActiveStep] = useState(route.page === 'main' ? route.step : 1)
+  const [orientMode, setOrientMode] = useState<SceneMode>('view')
+  const [planeNotice, setPlaneNotice] = useState<string | null>(null)
+  const [selectedPlaneIndex, setSelectedPlaneIndex] = useState<number | null>(null)
+  const [isPlacementOpen, setIsPlacementOpen] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [previewVersion, setPreviewVersion] = useState<Doc<'project_versions'> | null>(null)
   const [authModalMode, setAuthModalMode] = useState<'signin' | 'signup' | null>(null)
-  const [isOnboardingOpen, setIsOnboardingOpen] = useState(false)
-  const [subscribeModalTier, setSubscribeModalTier] = useState<SubscribeTier>(null)
-  const [isEnsuringUser, setIsEnsuringUser] = useState(false)
-  const [ensureUserError, setEnsureUserError] = useState<string | null>(null)
-  const [isSigningOut, setIsSigningOut] = useState(false)
-  const [authPending, setAuthPending] = useState(false)
-  const [authPendingError, setAuthPendingError] = useState<string | null>(null)
-  const [authPendingDetails, setAuthPendingDetails] = useState<string | null>(null)
-  const [ensureAttempt, setEnsureAttempt] = useState(0)
-
   // Show onboarding modal on first visit
-  useEffect(() => {
-    const seen = safeLocalGet(ONBOARDING_KEY)
-    if (!seen) {
-      setIsOnboardingOpen(true)
-    }
-  }, [])
+  const [isOnboardingOpen, setIsOnboardingOpen] = useState(() => !safeLocalGet(ONBOARDING_KEY))
+  const [subscribeModalTier, setSubscribeModalTier] = useState<SubscribeTier>(null)
 
-  // Check for checkout success on mount
+  // Checkout returns to /checkout/success?session_id=... - drop the query
   useEffect(() => {
     const params = new URLSearchParams(window.location.search)
-    const sessionId = params.get('session_id')
-    if (sessionId) {
-      setCurrentPage('checkout-success')
+    if (params.get('session_id')) {
       // Clean URL without triggering navigation
-      window.history.replaceState({}, '', window.location.pathname)
+      window.history.replaceState(null, '', window.location.pathname)
     }
   }, [])
 
-  useEffect(() => {
-    if (typeof window === 'undefined') return
-    setAuthPending(safeSessionGet(AUTH_PENDING_KEY) === 'true')
-  }, [])
-
 
   const handleOnboardingClose = () => {
     safeLocalSet(ONBOARDING_KEY, 'true')
@@ -79,174 +76,184 @@ function App() {
   }
 
   const handleGoToFaq = () => {
-    setCurrentPage('faq')
+    navigate({ page: 'faq' })
   }
 
-  // Session management
-  const {
-    sessionId,
-    isSessionValid,
-    isDuplicateTab,
-    wasKicked,
-    clearKicked,
-    setSessionId,
-    clearSession,
-  } = useSession(isAuthenticated)
-
-  // App user state from session validation or direct query
-  const [appUser, setAppUser] = useState<{
-    userId: string
-    email: string
-    name?: string
-    isAdmin: boolean
-  } | null>(null)
-
-  const ensureAppUser = useMutation(api.users.ensureAppUser)
-  const appUserQuery = useQuery(
-    api.users.getCurrentAppUser,
-    isAuthenticated && sessionId ? {} : "skip"
+  const editorRoute: Route = { page: 'main', projectId, step: activeStep }
+
+  const goToEditor = () => navigate(editorRoute)
+
+  const goToStep = (step: number) => navigate({ ...editorRoute, step })
+
+  // A created project (or none, if the requested one is gone) - the URL
+  // follows while the editor is showing
+  const openProject = useCallback((id: Id<'projects'> | null) => {
+    setProjectId(id)
+    if (route.page === 'main') {
+      navigate({ page: 'main', projectId: id, step: activeStep }, { replace: id === null })
+    }
+  }, [route.page, activeStep, navigate])
+
+  // Load/save only with a confirmed session; edits stay in the local draft otherwise
+  const project = useProject(auth.isSessionReady, auth.appUser?.userId ?? null, projectId, openProject)
+  // The scene shows a history version while it's being previewed
+  const sceneData = previewVersion ?? project.data
+  // Undo/redo act on the editor only - not on other pages or a previewed version
+  const canEdit = route.page === 'main' && !previewVersion
+  useUndoShortcuts(canEdit, project.undo, project.redo)
+  const stlMesh = useStlMesh(sceneData.stlFileId)
+  const planarRegions = usePlanarRegions(
+    stlMesh.result?.mesh ?? null,
+    sceneData.stlOrientation,
+    sceneData.extrusionPlanes,
+    activeStep !== 1
+  )
+  const svgShapes = useSvgShapes(
+    sceneData.extrusionPlanes.flatMap((plane) => (plane.svgFileId ? [plane.svgFileId] : []))
   )
+  const clippedShapes = useClippedShapes(sceneData.extrusionPlanes, svgShapes)
+  const extrusions = useExtrusions(sceneData.extrusionPlanes, clippedShapes, activeStep >= 4 || !!previewVersion)
   const hasUnreadAlerts = useQuery(
     api.alerts.hasUnread,
-    isAuthenticated && sessionId ? {} : "skip"
+    auth.isAuthenticated && auth.sessionId ? {} : "skip"
   )
 
-  // Create app user and session if authenticated but no session exists
+  // Follow the URL (links, back/forward)
+  if (route.page === 'main' && route.step !== activeStep) {
+    setActiveStep(route.step)
+  }
+  if (route.page === 'main' && route.projectId && route.projectId !== projectId) {
+    setProjectId(route.projectId)
+  }
+
+  // A bare / reopens the last project once it can be loaded
   useEffect(() => {
-    if (isAuthenticated && !sessionId && !wasKicked) {
-      let isActive = true
-      // No session - need to create one (e.g., after Google OAuth redirect)
-      setIsEnsuringUser(true)
-      setEnsureUserError(null)
-
-      // Check for backer ID from crowdfunding sign up flow (stored before OAuth redirect)
-      const storedBackerId = safeSessionGet(BACKER_ID_KEY)
-      const storedBackerToken = safeSessionGet(BACKER_TOKEN_KEY)
-      const crowdfundingBackerId = storedBackerId
-        ? (storedBackerId as Id<"crowdfunding_backers">)
-        : undefined
-      const crowdfundingBackerToken = storedBackerToken ? String(storedBackerToken) : undefined
-
-      ensureAppUser({ crowdfundingBackerId, crowdfundingBackerToken })
-        .then((result) => {
-          if (!isActive) return
-          setSessionId(result.sessionId)
-          setAppUser({
-            userId: result.userId,
-            email: result.email,
-            name: result.name,
-            isAdmin: result.isAdmin,
-          })
-          // Clear backer ID after successful account creation
-          safeSessionRemove(BACKER_ID_KEY)
-          safeSessionRemove(BACKER_TOKEN_KEY)
-        })
-        .catch((err) => {
-          console.error('Failed to establish session:', err)
-          if (crowdfundingBackerId) {
-            safeSessionRemove(BACKER_ID_KEY)
-            safeSessionRemove(BACKER_TOKEN_KEY)
-          }
-          setEnsureUserError(
-            err instanceof Error ? err.message : 'Unable to finish sign-in. Please try again.'
-          )
-        })
-        .finally(() => {
-          if (!isActive) return
-          setIsEnsuringUser(false)
-        })
-      return () => {
-        isActive = false
-      }
-    }
-  }, [isAuthenticated, sessionId, wasKicked, ensureAppUser, setSessionId, ensureAttempt])
+    if (route.page !== 'main' || route.projectId || !projectId || !auth.isSessionReady) return
+    navigate({ ...route, projectId }, { replace: true })
+  }, [route, projectId, auth.isSessionReady, navigate])
 
+  // Sign out lands on an empty editor - nothing of this account's project
+  // is left for whoever signs in next. Edits waiting for autosave are
+  // stored first, while the session can still save them.
+  const handleSignOut = async () => {
+    if (auth.isSigningOut) return
+    await project.flush()
+    await auth.signOut(() => {
+      project.reset()
+      // Otherwise a bare / would reopen it for the next account
+      setProjectId(null)
+      setSelectedPlaneIndex(null)
+      setIsPlacementOpen(false)
+      setIsHistoryOpen(false)
+      setPreviewVersion(null)
+      navigate({ ...editorRoute, projectId: null, step: 1 })
+    })
+  }
+
+  // /account and /admin/:section are the same place for users and admins
   useEffect(() => {
-    if (!isAuthenticated || wasKicked) {
-      setAppUser(null)
-      return
+    if (!auth.appUser) return
+    if (route.page === 'account' && auth.appUser.isAdmin) {
+      navigate({ page: 'admin', section: 'alerts' }, { replace: true })
+    } else if (route.page === 'admin' && !auth.appUser.isAdmin) {
+      navigate({ page: 'account' }, { replace: true })
     }
-    if (appUserQuery === undefined) return
-    if (appUserQuery === null) {
-      setAppUser(null)
-      return
+  }, [route.page, auth.appUser, navigate])
+
+  // A link that needs an account: ask to sign in and stay on it, so the
+  // user lands there afterwards (Google sign-in returns to the same URL)
+  const needsSignIn =
+    !auth.isLoading &&
+    !auth.isAuthenticated &&
+    !auth.isSigningOut &&
+    (route.page === 'account' || route.page === 'admin' || (route.page === 'main' && !!route.projectId))
+  const [askedSignIn, setAskedSignIn] = useState(false)
+  if (needsSignIn !== askedSignIn) {
+    setAskedSignIn(needsSignIn)
+    if (needsSignIn) {
+      setAuthModalMode('signin')
     }
-    setAppUser({
-      userId: appUserQuery.userId,
-      email: appUserQuery.email,
-      name: appUserQuery.name,
-      isAdmin: appUserQuery.isAdmin,
-    })
-  }, [appUserQuery, isAuthenticated, wasKicked])
+  }
 
-  useEffect(() => {
-    if (!authPending) return
-    if (isAuthenticated && sessionId && appUserQuery !== undefined) {
-      safeSessionRemove(AUTH_PENDING_KEY)
-      setAuthPending(false)
-      setAuthPendingError(null)
+  // Projects are saved per user - prompt sign-in when signed out
+  const handleNewProject = () => {
+    if (!auth.appUser) {
+      setAuthModalMode('signin')
+      return
     }
-  }, [authPending, isAuthenticated, sessionId, appUserQuery])
+    closeHistory()
+    // An open project's planes don't come along to the new one
+    if (project.projectId) setSelectedPlaneIndex(null)
+    void project.createProject('Untitled Project')
+  }
 
-  useEffect(() => {
-    if (!authPending) return
-    const timeout = window.setTimeout(() => {
-      if (!isAuthenticated && !sessionId) {
-        safeSessionRemove(AUTH_PENDING_KEY)
-        setAuthPending(false)
-        setAuthPendingError('We could not complete Google sign-in.')
-        setAuthPendingDetails(
-          'This can happen if Google is slow, blocked, or the pop-up was closed. Please try again.'
-        )
-      }
-    }, 45000)
-    return () => window.clearTimeout(timeout)
-  }, [authPending, isAuthenticated, sessionId])
+  const closeHistory = () => {
+    setIsHistoryOpen(false)
+    setPreviewVersion(null)
+  }
 
+  const handleRestoreVersion = async (versionId: Id<'project_versions'>) => {
+    await project.restoreVersion(versionId)
+    setPreviewVersion(null)
+  }
 
-  // Compute effective app user - null if kicked or not authenticated
-  const effectiveAppUser = (wasKicked || !isAuthenticated) ? null : appUser
+  const handleSaveProject = () => {
+    if (!auth.appUser) {
+      setAuthModalMode('signin')
+      return
+    }
+    void project.saveProject()
+  }
 
-  // Handle sign out - clear session
-  const handleSignOut = async () => {
-    if (isSigningOut) return
-    setIsSigningOut(true)
-    try {
-      await authClient.signOut()
-    } catch (err) {
-      console.error('Sign out failed:', err)
-    } finally {
-      safeSessionRemove(AUTH_PENDING_KEY)
-      safeSessionRemove(BACKER_TOKEN_KEY)
-      safeSessionRemove(BACKER_ID_KEY)
-      setAuthPending(false)
-      setAuthPendingError(null)
-      setAuthPendingDetails(null)
-      setEnsureUserError(null)
-      clearSession()
-      setAppUser(null)
-      setCurrentPage('main')
-      setIsSigningOut(false)
+  // Planes are outlines on the oriented model - a new model or orientation invalidates them
+  const handleOrientationChange = (stlOrientation: StlOrientation | undefined) => {
+    project.updateData(
+      { stlOrientation, extrusionPlanes: [] },
+      { label: 'Change orientation', coalesceKey: 'orientation' }
+    )
+  }
+
+  const handlePlaneClick = (regionId: string) => {
+    const region = planarRegions.regions.find((r) => r.id === regionId)
+    if (!region) return
+    const extrusionPlanes = togglePlaneForRegion(project.data.extrusionPlanes, region)
+    if (!extrusionPlanes) {
+      setPlaneNotice(`You can select up to ${MAX_EXTRUSION_PLANES} extrusion planes. Remove one to add another.`)
+      return
     }
+    setPlaneNotice(null)
+    project.updateData({ extrusionPlanes }, { label: 'Toggle plane' })
+  }
+
+  // Step 3: the plane whose SVG is being placed
+  const selectedPlane =
+    selectedPlaneIndex !== null ? project.data.extrusionPlanes[selectedPlaneIndex] : undefined
+  const selectedSvg = selectedPlane?.svgFileId ? svgShapes.get(selectedPlane.svgFileId) : undefined
+  const selectedSvgBounds = selectedSvg?.result?.bounds
+  const selectedPlacement =
+    selectedPlane && selectedSvgBounds
+      ? resolvePlacement(selectedPlane.svgSettings, selectedSvgBounds, selectedPlane.planeData)
+      : undefined
+  const selectedClip = selectedPlaneIndex !== null ? clippedShapes[selectedPlaneIndex] ?? null : null
+
+  const updateSelectedPlane = (update: (plane: ExtrusionPlane) => ExtrusionPlane, edit: EditInfo) => {
+    if (selectedPlaneIndex === null) return
+    project.updateData({
+      extrusionPlanes: project.data.extrusionPlanes.map((plane, i) =>
+        i === selectedPlaneIndex ? update(plane) : plane
+      ),
+    }, edit)
   }
 
-  // Handle successful sign-in from modal
-  const handleAuthSuccess = (result: {
-    userId: string
-    email: string
-    name?: string
-    isAdmin: boolean
-    sessionId: string
-  }) => {
-    setSessionId(result.sessionId)
-    setAppUser({
-      userId: result.userId,
-      email: result.email,
-      name: result.name,
-      isAdmin: result.isAdmin,
+  // One undo step per drag/rotate/scale gesture on the selected plane
+  const handlePlacementChange = (svgSettings: SvgSettings) => {
+    updateSelectedPlane((plane) => ({ ...plane, svgSettings }), {
+      label: 'Adjust SVG placement',
+      coalesceKey: `placement-${selectedPlaneIndex}`,
     })
   }
 
+
   useEffect(() => {
     const check = () => setTooSmall(
       window.innerWidth < MIN_WIDTH || window.innerHeight < MIN_HEIGHT
@@ -257,7 +264,7 @@ function App() {
   }, [])
 
   // Show duplicate tab warning
-  if (isDuplicateTab) {
+  if (auth.phase === 'duplicate-tab') {
     return (
       <div className="flex h-screen items-center justify-center p-8 text-center bg-amber-50">
         <div>
@@ -273,7 +280,7 @@ function App() {
   }
 
   // Show kicked message
-  if (wasKicked) {
+  if (auth.phase === 'kicked') {
     return (
       <div className="flex h-screen items-center justify-center p-8 text-center bg-red-50">
         <div>
@@ -284,7 +291,7 @@ function App() {
             Only one session is allowed at a time.
           </p>
           <button
-            onClick={clearKicked}
+            onClick={auth.clearKicked}
             className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
           >
             Sign In Again
@@ -294,20 +301,17 @@ function App() {
     )
   }
 
-  if (ensureUserError && isAuthenticated && !sessionId) {
+  if (auth.phase === 'ensure-failed') {
     return (
       <div className="flex h-screen items-center justify-center p-8 text-center bg-red-50">
         <div>
           <h1 className="text-xl font-semibold mb-2 text-red-800">Sign-in Error</h1>
           <p className="text-red-700 mb-4">
-            {ensureUserError}
+            {auth.ensureError}
           </p>
           <div className="flex items-center justify-center gap-3">
             <button
-              onClick={() => {
-                setEnsureUserError(null)
-                setEnsureAttempt((prev) => prev + 1)
-              }}
+              onClick={auth.retryEnsure}
               className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
             >
               Try Again
@@ -337,13 +341,8 @@ function App() {
     )
   }
 
-  // Check if session is valid (only matters if authenticated)
-  const hasValidSession = !isAuthenticated || isSessionValid === true
-  const isSessionValidationPending = isAuthenticated && !!sessionId && isSessionValid === undefined
-  const isAppUserLoading = isAuthenticated && !!sessionId && appUserQuery === undefined
-  const isAuthResolving = isLoading || isEnsuringUser || isSigningOut || isSessionValidationPending || isAppUserLoading
-  const shouldShowUser = !isAuthResolving && isAuthenticated && hasValidSession && !!effectiveAppUser
-  const shouldShowSignedOut = !isAuthenticated
+  const shouldShowUser = auth.phase === 'signed-in'
+  const shouldShowSignedOut = auth.phase === 'signed-out'
 
   return (
     <div className="h-screen flex flex-col overflow-hidden">
@@ -351,7 +350,7 @@ function App() {
       <header className="flex items-center h-16 border-b shrink-0">
         {/* Logo - clicks to home */}
         <button
-          onClick={() => setCurrentPage('main')}
+          onClick={goToEditor}
           className="w-80 h-full flex items-center px-4 bg-sky-500 text-white font-semibold hover:bg-sky-600 transition-colors"
         >
           Vector Projector
@@ -359,15 +358,17 @@ function App() {
 
         {/* Menu */}
         <div className="flex-1 h-full flex items-center justify-center gap-6 bg-teal-500 text-white">
-          <button onClick={() => setCurrentPage('pricing')} className="hover:underline">Pricing</button>
-          <button onClick={() => setCurrentPage('faq')} className="hover:underline">FAQ</button>
+          <button onClick={() => navigate({ page: 'pricing' })} className="hover:underline">Pricing</button>
+          <button onClick={() => navigate({ page: 'faq' })} className="hover:underline">FAQ</button>
         </div>
 
         {/* Auth buttons - fixed width to prevent layout shift */}
         <div className="w-40 h-full flex shrink-0">
           {shouldShowUser ? (
             <button
-              onClick={() => setCurrentPage('user')}
+              onClick={() =>
+                navigate(auth.appUser?.isAdmin ? { page: 'admin', section: 'alerts' } : { page: 'account' })
+              }
               className="relative w-full h-full flex items-center justify-center bg-orange-400 text-white font-medium hover:bg-orange-500 transition-colors"
             >
               User
@@ -402,28 +403,47 @@ function App() {
       </header>
 
       {/* Page content */}
-      {currentPage === 'user' ? (
-        effectiveAppUser?.isAdmin ? (
+      {route.page === 'account' || route.page === 'admin' ? (
+        !auth.appUser ? (
+          shouldShowSignedOut ? (
+            <div className="flex-1 flex items-center justify-center p-8 text-center">
+              <div>
+                <h1 className="text-xl font-semibold mb-2">Sign In Required</h1>
+                <p className="text-muted-foreground mb-4">Sign in to open this page.</p>
+                <button
+                  onClick={() => setAuthModalMode('signin')}
+                  className="px-4 py-2 bg-orange-400 text-white rounded hover:bg-orange-500"
+                >
+                  Sign In
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1" />
+          )
+        ) : auth.appUser.isAdmin ? (
           <AdminPage
-            onBack={() => setCurrentPage('main')}
+            section={route.page === 'admin' ? route.section : 'alerts'}
+            onSectionChange={(section) => navigate({ page: 'admin', section })}
+            onBack={goToEditor}
             onSignOut={handleSignOut}
           />
         ) : (
           <UserPage
-            onBack={() => setCurrentPage('main')}
+            onBack={goToEditor}
             onSignOut={handleSignOut}
-            onGoToPricing={() => setCurrentPage('pricing')}
+            onGoToPricing={() => navigate({ page: 'pricing' })}
           />
         )
-      ) : currentPage === 'faq' ? (
-        <FaqPage onBack={() => setCurrentPage('main')} />
-      ) : currentPage === 'pricing' ? (
+      ) : route.page === 'faq' ? (
+        <FaqPage onBack={goToEditor} />
+      ) : route.page === 'pricing' ? (
         <PricingPage
-          onBack={() => setCurrentPage('main')}
+          onBack={goToEditor}
           onSubscribe={(tier) => setSubscribeModalTier(tier)}
         />
-      ) : currentPage === 'checkout-success' ? (
-        <CheckoutSuccessPage onContinue={() => setCurrentPage('main')} />
+      ) : route.page === 'checkout-success' ? (
+        <CheckoutSuccessPage onContinue={goToEditor} />
       ) : (
         /* Main content area */
         <div className="flex flex-1 overflow-hidden">
@@ -434,7 +454,7 @@ function App() {
               {[1, 2, 3, 4, 5].map((step) => (
                 <button
                   key={step}
-                  onClick={() => setActiveStep(step)}
+                  onClick={() => goToStep(step)}
                   className={`flex-1 h-10 text-sm font-medium border-r last:border-r-0 transition-colors
                     ${activeStep === step
                       ? 'bg-slate-500 text-white'
@@ -446,13 +466,88 @@ function App() {
               ))}
             </div>
 
-            {/* Panel - scrollable if needed */}
-            <div className="flex-1 overflow-y-auto p-4">
-              {activeStep === 1 && <Step1Panel />}
-              {activeStep === 2 && <StepPlaceholder step={2} title="Extrusion Planes" description="Select extrusion planes. You can select up to 10 extrusion planes." />}
-              {activeStep === 3 && <Step3Panel />}
-              {activeStep === 4 && <StepPlaceholder step={4} title="Extrusion Settings" description="Adjust your extrusion settings for all extruded shapes." />}
-              {activeStep === 5 && <StepPlaceholder step={5} title="Export" description="View results in 3D scene window. Export final 3MF files." />}
+            {/* Panel - scrollable if needed; inactive while previewing a version */}
+            <div className={`flex-1 overflow-y-auto p-4 ${previewVersion ? 'pointer-events-none opacity-50' : ''}`}>
+              {activeStep === 1 && (
+                <div className="space-y-6">
+                  <Step1Panel
+                    selectedStlId={project.data.stlFileId}
+                    onSelectStl={(stlFileId) =>
+                      project.updateData(
+                        { stlFileId, stlOrientation: undefined, extrusionPlanes: [] },
+                        { label: 'Choose model' }
+                      )
+                    }
+                  />
+                  {project.data.stlFileId && (
+                    <OrientationTools
+                      mesh={stlMesh.result?.mesh ?? null}
+                      orientation={project.data.stlOrientation}
+                      mode={orientMode}
+                      planeCount={project.data.extrusionPlanes.length}
+                      onModeChange={setOrientMode}
+                      onChange={handleOrientationChange}
+                    />
+                  )}
+                </div>
+              )}
+              {activeStep === 2 && (
+                <Step2Panel
+                  hasModel={!!stlMesh.result}
+                  candidateCount={planarRegions.regions.length}
+                  planes={project.data.extrusionPlanes}
+                  notice={planeNotice}
+                  onChange={(extrusionPlanes) => {
+                    setPlaneNotice(null)
+                    project.updateData({ extrusionPlanes }, { label: 'Edit planes' })
+                  }}
+                  onRename={(index, extrusionPlanes) => {
+                    setPlaneNotice(null)
+                    project.updateData(
+                      { extrusionPlanes },
+                      { label: 'Rename plane', coalesceKey: `rename-${index}` }
+                    )
+                  }}
+                />
+              )}
+              {activeStep === 3 && (
+                <Step3Panel
+                  planes={project.data.extrusionPlanes}
+                  selectedPlaneIndex={selectedPlane ? selectedPlaneIndex : null}
+                  svgState={selectedSvg}
+                  settings={selectedPlacement}
+                  clipResult={selectedClip}
+                  isEditing={isPlacementOpen}
+                  onSelectPlane={setSelectedPlaneIndex}
+                  onPlaceSvg={(fileId) => {
+                    updateSelectedPlane((plane) => assignSvg(plane, fileId), { label: 'Place SVG' })
+                    setIsPlacementOpen(true)
+                  }}
+                  onRemoveSvg={() => {
+                    updateSelectedPlane((plane) => assignSvg(plane, undefined), { label: 'Remove SVG' })
+                    setIsPlacementOpen(false)
+                  }}
+                  onSettingsChange={handlePlacementChange}
+                  onEditPlacement={() => setIsPlacementOpen(true)}
+                />
+              )}
+              {activeStep === 4 && (
+                <Step4Panel
+                  planes={project.data.extrusionPlanes}
+                  svgShapes={svgShapes}
+                  clipResults={clippedShapes}
+                  onChange={(extrusionPlanes) => project.updateData({ extrusionPlanes }, { label: 'Change heights' })}
+                />
+              )}
+              {activeStep === 5 && (
+                <Step5Panel
+                  mesh={stlMesh.result?.mesh ?? null}
+                  orientation={project.data.stlOrientation}
+                  planes={project.data.extrusionPlanes}
+                  extrusions={extrusions}
+                  projectName={project.name}
+                />
+              )}
             </div>
           </aside>
 
@@ -460,20 +555,97 @@ function App() {
           <main className="flex-1 flex flex-col overflow-hidden">
             {/* Project toolbar */}
             <div className="h-10 flex items-center gap-4 px-4 border-b bg-white shrink-0">
-              <button className="text-sm text-slate-600 hover:text-slate-900 hover:underline">
+              <button
+                onClick={handleNewProject}
+                className="text-sm text-slate-600 hover:text-slate-900 hover:underline"
+              >
                 New Project
               </button>
-              <span className="text-sm text-slate-400">Project Name</span>
-              <button className="text-sm text-slate-600 hover:text-slate-900 hover:underline">
-                Save
+              <span className={`text-sm ${project.name ? 'text-slate-700' : 'text-slate-400'}`}>
+                {project.name ?? 'Project Name'}
+              </span>
+              <button
+                onClick={project.undo}
+                disabled={!canEdit || !project.undoLabel}
+                title={project.undoLabel ? `Undo ${project.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                className="text-sm text-slate-600 hover:text-slate-900 hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed"
+              >
+                Undo
+              </button>
+              <button
+                onClick={project.redo}
+                disabled={!canEdit || !project.redoLabel}
+                title={project.redoLabel ? `Redo ${project.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                className="text-sm text-slate-600 hover:text-slate-900 hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed"
+              >
+                Redo
+              </button>
+              <button
+                onClick={handleSaveProject}
+                disabled={project.isSaving || (!!auth.appUser && !project.projectId)}
+                className="text-sm text-slate-600 hover:text-slate-900 hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed"
+              >
+                {project.isSaving ? 'Saving...' : 'Save'}
               </button>
+              {auth.appUser && project.projectId && (
+                <button
+                  onClick={() => (isHistoryOpen ? closeHistory() : setIsHistoryOpen(true))}
+                  className="text-sm text-slate-600 hover:text-slate-900 hover:underline"
+                >
+                  History
+                </button>
+              )}
+              {project.error ? (
+                <span className="text-sm text-red-500">{project.error}</span>
+              ) : project.isDirty ? (
+                <span className="text-xs text-slate-400">
+                  {project.projectId ? 'Unsaved changes' : 'Draft kept on this device'}
+                </span>
+              ) : project.lastSavedAt ? (
+                <span className="text-xs text-slate-400">All changes saved</span>
+              ) : null}
             </div>
+            {project.draftOffer && (
+              <DraftRestoreBar
+                draft={project.draftOffer}
+                onRestore={project.restoreDraft}
+                onDiscard={project.discardDraft}
+              />
+            )}
             {/* Scene - never scrolls */}
-            <div className="flex-1 flex items-center justify-center bg-slate-50 overflow-hidden">
-              <div className="text-2xl text-slate-400 font-light">
-                SCENE
-              </div>
-            </div>
+            <SceneViewer
+              mesh={stlMesh.result?.mesh ?? null}
+              orientation={sceneData.stlOrientation}
+              mode={previewVersion ? 'view' : activeStep === 1 ? orientMode : activeStep === 2 ? 'selectPlanes' : 'view'}
+              planeOverlays={planarRegions.overlays}
+              extrusions={extrusions}
+              isLoading={stlMesh.isLoading}
+              error={stlMesh.error}
+              onOrientationChange={handleOrientationChange}
+              onPlaneClick={handlePlaneClick}
+            >
+              {activeStep === 3 && isPlacementOpen && !previewVersion && selectedPlane && selectedSvg?.result && selectedPlacement && (
+                <PlacementEditor
+                  plane={selectedPlane}
+                  svg={selectedSvg.result}
+                  settings={selectedPlacement}
+                  clipped={selectedClip?.shapes}
+                  onChange={handlePlacementChange}
+                  onClose={() => setIsPlacementOpen(false)}
+                />
+              )}
+              {isHistoryOpen && project.projectId && (
+                <VersionHistoryPanel
+                  projectId={project.projectId}
+                  current={project.data}
+                  previewVersionId={previewVersion?._id ?? null}
+                  isRestoring={project.isSaving}
+                  onPreview={setPreviewVersion}
+                  onRestore={handleRestoreVersion}
+                  onClose={closeHistory}
+                />
+              )}
+            </SceneViewer>
           </main>
         </div>
       )}
@@ -483,16 +655,13 @@ function App() {
         isOpen={authModalMode !== null}
         onClose={() => setAuthModalMode(null)}
         mode={authModalMode ?? 'signin'}
-        onAuthSuccess={handleAuthSuccess}
+        onAuthSuccess={auth.handleAuthSuccess}
       />
       <AuthPendingModal
-        isOpen={!!authPendingError}
-        message={authPendingError}
-        details={authPendingDetails}
-        onClose={() => {
-          setAuthPendingError(null)
-          setAuthPendingDetails(null)
-        }}
+        isOpen={!!auth.googleError}
+        message={auth.googleError?.message ?? null}
+        details={auth.googleError?.details ?? null}
+        onClose={auth.dismissGoogleError}
       />
       <OnboardingModal
         isOpen={isOnboardingOpen}
@@ -1,10 +1,20 @@
 import { AdminLayout } from '@/components/admin'
+import type { AdminSection } from '@/lib/routes'
 
 interface AdminPageProps {
+  section: AdminSection
+  onSectionChange: (section: AdminSection) => void
   onBack: () => void
   onSignOut: () => void
 }
 
-export function AdminPage({ onBack, onSignOut }: AdminPageProps) {
-  return <AdminLayout onBack={onBack} onSignOut={onSignOut} />
+export function AdminPage({ section, onSectionChange, onBack, onSignOut }: AdminPageProps) {
+  return (
+    <AdminLayout
+      activeSection={section}
+      onSectionChange={onSectionChange}
+      onBack={onBack}
+      onSignOut={onSignOut}
+    />
+  )
 }
@@ -0,0 +1,34 @@
+import type { ProjectDraft } from '@/lib/project-draft'
+
+interface DraftRestoreBarProps {
+  draft: ProjectDraft
+  onRestore: () => void
+  onDiscard: () => void
+}
+
+/**
+ * Offer to bring back unsaved edits found in local storage
+ * (after a reload, crash or session kick).
+ */
+export function DraftRestoreBar({ draft, onRestore, onDiscard }: DraftRestoreBarProps) {
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 border-b bg-amber-50 text-sm text-amber-800 shrink-0">
+      <span className="flex-1">
+        You have unsaved changes from {new Date(draft.savedAt).toLocaleString()}.
+        {draft.projectId ? ' They are newer than the saved project.' : ''}
+      </span>
+      <button
+        onClick={onRestore}
+        className="px-3 py-1 bg-amber-500 text-white rounded hover:bg-amber-600"
+      >
+        Restore
+      </button>
+      <button
+        onClick={onDiscard}
+        className="px-3 py-1 text-amber-700 border border-amber-300 rounded hover:bg-amber-100"
+      >
+        Discard
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react'
+import { buildFsDownloadUrl, fetchFsFile } from '@/lib/fs-client'
+
+interface StlThumbnailProps {
+  // From listBaseSamples/listUserFiles; null while generating or if it failed
+  thumbnail: { path: string; blobId: string } | null
+  alt: string
+  className?: string
+}
+
+/**
+ * Rendered preview of an STL (see convex/thumbnails.ts), or a generic cube.
+ * Base thumbnails load straight from /fs; user thumbnails need the auth
+ * header, so they are fetched and shown through an object URL.
+ */
+export function StlThumbnail({ thumbnail, alt, className = '' }: StlThumbnailProps) {
+  const blobId = thumbnail?.blobId ?? null
+  const path = thumbnail?.path ?? null
+  const isPublic = !!path && path.startsWith('/base/')
+  const [objectUrl, setObjectUrl] = useState<{ blobId: string; url: string } | null>(null)
+  const [failedBlobId, setFailedBlobId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!blobId || !path || isPublic) return
+    const controller = new AbortController()
+    let url: string | null = null
+    fetchFsFile({ blobId, path }, controller.signal)
+      .then((data) => {
+        url = URL.createObjectURL(new Blob([data], { type: 'image/png' }))
+        setObjectUrl({ blobId, url })
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setFailedBlobId(blobId)
+      })
+    return () => {
+      controller.abort()
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [blobId, path, isPublic])
+
+  const src = !blobId || !path || failedBlobId === blobId
+    ? null
+    : isPublic
+      ? buildFsDownloadUrl(blobId, path)
+      : objectUrl?.blobId === blobId
+        ? objectUrl.url
+        : null
+
+  return (
+    <div className={`bg-slate-100 rounded flex items-center justify-center overflow-hidden ${className}`}>
+      {src ? (
+        <img src={src} alt={alt} className="w-full h-full object-contain" onError={() => setFailedBlobId(blobId)} />
+      ) : (
+        <svg
+          className="w-8 h-8 text-slate-300 group-hover:text-sky-400 transition-colors"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={1.5}
+            d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
+          />
+        </svg>
+      )}
+    </div>
+  )
+}
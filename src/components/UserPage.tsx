@@ -2,6 +2,40 @@ import { useState, useEffect } from 'react'
 import { useMutation, useQuery, useAction } from 'convex/react'
 import { api } from '@convex/_generated/api'
 import { useSubscriptionStatus } from '@/hooks/useSubscriptionStatus'
+import { formatBytes } from '@convex/lib/limits'
+
+const STORAGE_TIER_LABELS = {
+  free: 'Free',
+  personal: 'Personal',
+  commercial: 'Commercial',
+  backer: 'Backer',
+} as const
+
+interface UsageMeterProps {
+  label: string
+  used: number
+  max: number
+  format: (value: number) => string
+}
+
+function UsageMeter({ label, used, max, format }: UsageMeterProps) {
+  const fraction = max > 0 ? Math.min(used / max, 1) : 1
+  const barColor = fraction >= 1 ? 'bg-red-500' : fraction >= 0.8 ? 'bg-amber-500' : 'bg-sky-500'
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-600">{label}</span>
+        <span className="text-gray-500">
+          {format(used)} / {format(max)}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded">
+        <div className={`h-2 rounded ${barColor}`} style={{ width: `${fraction * 100}%` }} />
+      </div>
+    </div>
+  )
+}
 
 interface UserPageProps {
   onBack: () => void
@@ -16,6 +50,7 @@ export function UserPage({ onBack, onSignOut, onGoToPricing }: UserPageProps) {
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
 
   const activeAlerts = useQuery(api.alerts.getActive)
+  const storage = useQuery(api.quotas.getStorageUsage)
   const hasUnread = useQuery(api.alerts.hasUnread)
   const markAsRead = useMutation(api.alerts.markAsRead)
   const cancelSubscription = useAction(api.billing.cancelSubscription)
@@ -260,6 +295,33 @@ export function UserPage({ onBack, onSignOut, onGoToPricing }: UserPageProps) {
             )}
           </section>
 
+          <section className="bg-white border rounded-lg p-4">
+            <h2 className="font-semibold mb-2">Storage</h2>
+
+            {!storage ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  Your {STORAGE_TIER_LABELS[storage.tier]} plan includes {storage.maxFiles} files
+                  and {formatBytes(storage.maxBytes)} of uploads.
+                </p>
+                <UsageMeter
+                  label="Files"
+                  used={storage.files}
+                  max={storage.maxFiles}
+                  format={String}
+                />
+                <UsageMeter
+                  label="Space"
+                  used={storage.bytes}
+                  max={storage.maxBytes}
+                  format={formatBytes}
+                />
+              </div>
+            )}
+          </section>
+
           <section className="bg-white border rounded-lg p-4">
             <h2 className="font-semibold mb-2">Sign Out</h2>
             <p className="text-sm text-gray-600 mb-3">
@@ -1,21 +1,13 @@
-import { useState } from 'react'
+import type { AdminSection } from '@/lib/routes'
 import {
   AlertsSection,
   BaseStlSection,
   BaseSvgSection,
+  LogsSection,
   PlaceholderSection,
   SettingsSection,
 } from './sections'
 
-type AdminSection =
-  | 'alerts'
-  | 'base-stl'
-  | 'base-svg'
-  | 'users'
-  | 'analytics'
-  | 'settings'
-  | 'logs'
-
 interface NavItem {
   id: AdminSection
   label: string
@@ -90,12 +82,13 @@ const navItems: NavItem[] = [
 ]
 
 interface AdminLayoutProps {
+  activeSection: AdminSection // from the URL (/admin/:section)
+  onSectionChange: (section: AdminSection) => void
   onBack: () => void
   onSignOut: () => void
 }
 
-export function AdminLayout({ onBack, onSignOut }: AdminLayoutProps) {
-  const [activeSection, setActiveSection] = useState<AdminSection>('alerts')
+export function AdminLayout({ activeSection, onSectionChange, onBack, onSignOut }: AdminLayoutProps) {
 
   const renderSection = () => {
     switch (activeSection) {
@@ -112,7 +105,7 @@ export function AdminLayout({ onBack, onSignOut }: AdminLayoutProps) {
       case 'settings':
         return <SettingsSection />
       case 'logs':
-        return <PlaceholderSection title="Logs" />
+        return <LogsSection />
       default:
         return null
     }
@@ -138,7 +131,7 @@ export function AdminLayout({ onBack, onSignOut }: AdminLayoutProps) {
             {navItems.map((item) => (
               <button
                 key={item.id}
-                onClick={() => setActiveSection(item.id)}
+                onClick={() => onSectionChange(item.id)}
                 className={`w-full flex items-center gap-3 px-4 py-3 text-left transition-colors
                   ${activeSection === item.id
                     ? 'bg-purple-100 text-purple-900 border-r-2 border-purple-600'
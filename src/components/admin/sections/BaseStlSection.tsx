@@ -2,15 +2,18 @@ import { useState, useRef } from 'react'
 import { useMutation, useQuery } from 'convex/react'
 import { api } from '@convex/_generated/api'
 import type { Id } from '@convex/_generated/dataModel'
+import { StlThumbnail } from '@/components/StlThumbnail'
 import { authClient } from '@/lib/auth-client'
+import { MAX_UPLOAD_BYTES, formatBytes } from '@convex/lib/limits'
+import { parseStl, type StlReport } from '@convex/lib/stl'
 
 const CONVEX_SITE_URL = import.meta.env.VITE_CONVEX_SITE_URL as string
 
-// Max STL file size: 2 MB (as defined in blueprint)
-const MAX_STL_SIZE = 2 * 1024 * 1024
+const MAX_STL_SIZE = MAX_UPLOAD_BYTES.stl
 
 export function BaseStlSection() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [stlReport, setStlReport] = useState<StlReport | null>(null)
   const [displayName, setDisplayName] = useState('')
   const [uploading, setUploading] = useState(false)
   const [uploadError, setUploadError] = useState<string | null>(null)
@@ -22,19 +25,39 @@ export function BaseStlSection() {
   const commitFile = useMutation(api.stlFiles.commitFile)
   const deleteFile = useMutation(api.stlFiles.deleteFile)
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const rejectFile = (message: string) => {
+    setUploadError(message)
+    setSelectedFile(null)
+    setStlReport(null)
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
       // Check file size before accepting
       if (file.size > MAX_STL_SIZE) {
-        setUploadError(`File too large. Max size is ${MAX_STL_SIZE / (1024 * 1024)} MB.`)
-        setSelectedFile(null)
-        if (fileInputRef.current) {
-          fileInputRef.current.value = ''
-        }
+        rejectFile(`File too large. Max size is ${formatBytes(MAX_STL_SIZE)}.`)
+        return
+      }
+
+      // Parse locally so broken files are caught before using an upload
+      let report: StlReport
+      try {
+        report = parseStl(await file.arrayBuffer()).report
+      } catch (err) {
+        rejectFile(err instanceof Error ? err.message : 'Not a valid STL file')
         return
       }
+      if (report.declaredCountMatchesLength === false) {
+        rejectFile('STL appears truncated: triangle count does not match file size.')
+        return
+      }
+
       setSelectedFile(file)
+      setStlReport(report)
       // Auto-fill display name from filename (without extension)
       const nameWithoutExt = file.name.replace(/\.stl$/i, '')
       setDisplayName(nameWithoutExt)
@@ -55,7 +78,7 @@ export function BaseStlSection() {
       // Get auth cookie from Better Auth cross-domain storage
       const authCookie = authClient.getCookie()
 
-      const uploadResponse = await fetch(`${CONVEX_SITE_URL}/upload`, {
+      const uploadResponse = await fetch(`${CONVEX_SITE_URL}/upload?kind=stl&base=true`, {
         method: 'POST',
         body: selectedFile,
         headers: {
@@ -69,19 +92,23 @@ export function BaseStlSection() {
         throw new Error(errorData.error || `Upload failed: ${uploadResponse.status}`)
       }
 
-      const { blobId } = await uploadResponse.json()
+      const { blobId, existingFileId } = await uploadResponse.json()
 
-      // Step 2: Commit the blob (path is generated server-side for security)
-      await commitFile({
-        blobId,
-        fileName: selectedFile.name,
-        name: displayName.trim(),
-        fileSize: selectedFile.size,
-        isBase: true,
-      })
+      // Step 2: Commit the blob (path is generated server-side for security).
+      // Nothing to commit if it's already a base sample.
+      if (!existingFileId) {
+        await commitFile({
+          blobId,
+          fileName: selectedFile.name,
+          name: displayName.trim(),
+          fileSize: selectedFile.size,
+          isBase: true,
+        })
+      }
 
       // Reset form
       setSelectedFile(null)
+      setStlReport(null)
       setDisplayName('')
       if (fileInputRef.current) {
         fileInputRef.current.value = ''
@@ -144,11 +171,19 @@ export function BaseStlSection() {
                 hover:file:bg-blue-200"
             />
             <p className="mt-1 text-xs text-blue-500">
-              Max size: {MAX_STL_SIZE / (1024 * 1024)} MB
+              Max size: {formatBytes(MAX_STL_SIZE)}
             </p>
             {selectedFile && (
               <p className="mt-1 text-xs text-blue-600">
                 {selectedFile.name} ({formatFileSize(selectedFile.size)})
+                {stlReport && (
+                  <>
+                    {' '}&middot; {stlReport.format.toUpperCase()} &middot;{' '}
+                    {stlReport.triangleCount.toLocaleString()} triangles
+                    {stlReport.degenerateTriangles > 0 &&
+                      ` (${stlReport.degenerateTriangles} degenerate)`}
+                  </>
+                )}
               </p>
             )}
           </div>
@@ -199,6 +234,7 @@ export function BaseStlSection() {
                 key={sample._id}
                 className="flex items-center justify-between bg-white border border-gray-200 rounded px-3 py-2"
               >
+                <StlThumbnail thumbnail={sample.thumbnail} alt={sample.name} className="w-10 h-10 mr-3 shrink-0" />
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-gray-800 truncate">
                     {sample.name}
@@ -3,14 +3,19 @@ import { useMutation, useQuery } from 'convex/react'
 import { api } from '@convex/_generated/api'
 import type { Id } from '@convex/_generated/dataModel'
 import { authClient } from '@/lib/auth-client'
+import { MAX_UPLOAD_BYTES, formatBytes } from '@convex/lib/limits'
+import { sanitizeSvg } from '@convex/lib/sanitize'
+import { parseSvg, type SvgParseResult } from '@convex/lib/svg'
+import { SvgDiagnosticsList, SvgFilePreview, SvgShapePreview } from '@/components/svg'
+import { svgDiagnostics } from '@/lib/svg-diagnostics'
 
 const CONVEX_SITE_URL = import.meta.env.VITE_CONVEX_SITE_URL as string
 
-// Max SVG file size: 15 KB (as defined in blueprint)
-const MAX_SVG_SIZE = 15 * 1024
+const MAX_SVG_SIZE = MAX_UPLOAD_BYTES.svg
 
 export function BaseSvgSection() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [parsed, setParsed] = useState<SvgParseResult | null>(null)
   const [displayName, setDisplayName] = useState('')
   const [uploading, setUploading] = useState(false)
   const [uploadError, setUploadError] = useState<string | null>(null)
@@ -22,20 +27,40 @@ export function BaseSvgSection() {
   const commitFile = useMutation(api.svgFiles.commitFile)
   const deleteFile = useMutation(api.svgFiles.deleteFile)
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const rejectFile = (message: string) => {
+    setUploadError(message)
+    setSelectedFile(null)
+    setParsed(null)
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
       // Check file size
       if (file.size > MAX_SVG_SIZE) {
-        setUploadError(`File too large. Max size is ${MAX_SVG_SIZE / 1024} KB.`)
-        setSelectedFile(null)
-        if (fileInputRef.current) {
-          fileInputRef.current.value = ''
-        }
+        rejectFile(`File too large. Max size is ${formatBytes(MAX_SVG_SIZE)}.`)
+        return
+      }
+
+      // Parse locally what the server will store (sanitized) - a sample
+      // with no fillable shapes can't be projected
+      let result: SvgParseResult
+      try {
+        result = parseSvg(sanitizeSvg(await file.text()).svg)
+      } catch (err) {
+        rejectFile(err instanceof Error ? err.message : 'Not a valid SVG file')
+        return
+      }
+      if (result.shapes.length === 0) {
+        rejectFile('SVG has no filled shapes to extrude.')
         return
       }
 
       setSelectedFile(file)
+      setParsed(result)
       // Auto-fill display name from filename (without extension)
       const nameWithoutExt = file.name.replace(/\.svg$/i, '')
       setDisplayName(nameWithoutExt)
@@ -56,7 +81,7 @@ export function BaseSvgSection() {
       // Get auth cookie from Better Auth cross-domain storage
       const authCookie = authClient.getCookie()
 
-      const uploadResponse = await fetch(`${CONVEX_SITE_URL}/upload`, {
+      const uploadResponse = await fetch(`${CONVEX_SITE_URL}/upload?kind=svg&base=true`, {
         method: 'POST',
         body: selectedFile,
         headers: {
@@ -70,19 +95,23 @@ export function BaseSvgSection() {
         throw new Error(errorData.error || `Upload failed: ${uploadResponse.status}`)
       }
 
-      const { blobId } = await uploadResponse.json()
+      const { blobId, existingFileId } = await uploadResponse.json()
 
-      // Step 2: Commit the blob (path is generated server-side for security)
-      await commitFile({
-        blobId,
-        fileName: selectedFile.name,
-        name: displayName.trim(),
-        fileSize: selectedFile.size,
-        isBase: true,
-      })
+      // Step 2: Commit the blob (path is generated server-side for security).
+      // Nothing to commit if it's already a base sample.
+      if (!existingFileId) {
+        await commitFile({
+          blobId,
+          fileName: selectedFile.name,
+          name: displayName.trim(),
+          fileSize: selectedFile.size,
+          isBase: true,
+        })
+      }
 
       // Reset form
       setSelectedFile(null)
+      setParsed(null)
       setDisplayName('')
       if (fileInputRef.current) {
         fileInputRef.current.value = ''
@@ -146,10 +175,22 @@ export function BaseSvgSection() {
             {selectedFile && (
               <p className="mt-1 text-xs text-emerald-600">
                 {selectedFile.name} ({formatFileSize(selectedFile.size)})
+                {parsed && (
+                  <>
+                    {' '}&middot; {parsed.shapes.length} {parsed.shapes.length === 1 ? 'shape' : 'shapes'}
+                  </>
+                )}
               </p>
             )}
+            {selectedFile && parsed && (
+              <div className="mt-2 space-y-2">
+                <p className="text-xs text-emerald-700">Does your SVG look correct? This is what will be extruded:</p>
+                <SvgShapePreview result={parsed} className="w-32 h-32 bg-white border border-emerald-200 rounded p-1" />
+                <SvgDiagnosticsList diagnostics={svgDiagnostics(parsed)} />
+              </div>
+            )}
             <p className="mt-1 text-xs text-emerald-500">
-              Max size: {MAX_SVG_SIZE / 1024} KB
+              Max size: {formatBytes(MAX_SVG_SIZE)}
             </p>
           </div>
 
@@ -199,6 +240,7 @@ export function BaseSvgSection() {
                 key={sample._id}
                 className="flex items-center justify-between bg-white border border-gray-200 rounded px-3 py-2"
               >
+                <SvgFilePreview fileId={sample._id} className="w-10 h-10 mr-3 shrink-0" />
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-gray-800 truncate">
                     {sample.name}
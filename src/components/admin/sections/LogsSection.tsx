@@ -0,0 +1,69 @@
+import { useQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+
+// Expired uploads only release our records - the blobs are still in storage
+// until convex-fs's upload GC deletes them
+const JOBS = {
+  expired_uploads: { label: 'Expired pending uploads', action: 'Released' },
+  orphaned_files: { label: 'Orphaned files', action: 'Removed' },
+} as const
+
+export function LogsSection() {
+  const logs = useQuery(api.maintenance.listLogs, {})
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold mb-1">Maintenance Logs</h2>
+        <p className="text-sm text-gray-500">
+          What the scheduled cleanup jobs did. Expired pending uploads are checked
+          every 15 minutes (only runs that released something are logged): their
+          records are released and the blobs (listed by id) are left for convex-fs to
+          delete. Orphaned files - stored files with no library record - are
+          reconciled and removed daily.
+        </p>
+      </div>
+
+      {logs === undefined ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : logs === null ? (
+        <p className="text-sm text-red-600">Admin access required.</p>
+      ) : logs.length === 0 ? (
+        <p className="text-sm text-gray-500">No cleanup runs logged yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {logs.map((log) => (
+            <div key={log._id} className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-700">{JOBS[log.job].label}</h3>
+                <span className="text-xs text-gray-400">
+                  {new Date(log.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <p className="text-sm text-gray-600 mt-1">
+                {JOBS[log.job].action} {log.removedCount}
+                {log.scanned !== undefined && ` of ${log.scanned} checked`}
+              </p>
+              {log.removed.length > 0 && (
+                <details className="mt-2">
+                  <summary className="text-xs text-gray-500 cursor-pointer">
+                    {log.removed.length < log.removedCount
+                      ? `First ${log.removed.length} items`
+                      : 'Items'}
+                  </summary>
+                  <ul className="mt-1 space-y-0.5">
+                    {log.removed.map((item) => (
+                      <li key={item} className="text-xs font-mono text-gray-500 break-all">
+                        {item}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
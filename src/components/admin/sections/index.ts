@@ -1,5 +1,6 @@
 export { AlertsSection } from './AlertsSection'
 export { BaseStlSection } from './BaseStlSection'
 export { BaseSvgSection } from './BaseSvgSection'
+export { LogsSection } from './LogsSection'
 export { PlaceholderSection } from './PlaceholderSection'
 export { SettingsSection } from './SettingsSection'
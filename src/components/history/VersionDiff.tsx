@@ -0,0 +1,34 @@
+import type { ProjectDiff } from '@/lib/project-diff'
+import { isEmptyDiff } from '@/lib/project-diff'
+
+interface VersionDiffProps {
+  diff: ProjectDiff
+}
+
+const KIND_STYLES = {
+  added: 'text-emerald-700',
+  removed: 'text-red-600',
+  changed: 'text-amber-700',
+} as const
+
+/**
+ * Changes between a version and the current project, one line per plane.
+ */
+export function VersionDiff({ diff }: VersionDiffProps) {
+  if (isEmptyDiff(diff)) {
+    return <div className="text-xs text-slate-400">Same as the current project.</div>
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {diff.modelChanged && <li className="text-amber-700">Different model</li>}
+      {diff.orientationChanged && <li className="text-amber-700">Orientation changed</li>}
+      {diff.planes.map((plane, index) => (
+        <li key={index} className={KIND_STYLES[plane.kind]}>
+          <span className="font-medium">{plane.name}</span>: {plane.kind}
+          {plane.details.length > 0 && ` (${plane.details.join('; ')})`}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import type { Doc, Id } from '@convex/_generated/dataModel'
+import { diffProjectData } from '@/lib/project-diff'
+import type { ProjectData } from '@/lib/project-draft'
+import { VersionDiff } from './VersionDiff'
+
+interface VersionHistoryPanelProps {
+  projectId: Id<'projects'>
+  current: ProjectData
+  previewVersionId: Id<'project_versions'> | null
+  isRestoring: boolean
+  onPreview: (version: Doc<'project_versions'> | null) => void
+  onRestore: (versionId: Id<'project_versions'>) => void
+  onClose: () => void
+}
+
+const REASON_LABELS: Record<Doc<'project_versions'>['reason'], string> = {
+  manual: 'Saved',
+  autosave: 'Autosave',
+  restore: 'Before restore',
+}
+
+/**
+ * Project version history: pick a version to see what changed since, show
+ * it in the scene, or restore it.
+ */
+export function VersionHistoryPanel({
+  projectId,
+  current,
+  previewVersionId,
+  isRestoring,
+  onPreview,
+  onRestore,
+  onClose,
+}: VersionHistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<Id<'project_versions'> | null>(null)
+  const versions = useQuery(api.projects.listVersions, { projectId })
+  const selected = useQuery(api.projects.getVersion, selectedId ? { versionId: selectedId } : 'skip')
+
+  const isPreviewing = !!selectedId && previewVersionId === selectedId
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 w-72 flex flex-col bg-white/95 border border-slate-200 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between px-3 h-9 border-b border-slate-200 shrink-0">
+        <span className="text-sm font-medium text-slate-700">Version History</span>
+        <button onClick={onClose} className="text-xs text-slate-600 hover:text-slate-900 hover:underline">
+          Close
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {versions === undefined ? (
+          <div className="text-sm text-slate-400 p-1">Loading...</div>
+        ) : versions.length === 0 ? (
+          <div className="text-sm text-slate-400 p-1">
+            No versions yet. Saving adds one; autosave adds one every few minutes.
+          </div>
+        ) : (
+          versions.map((version) => {
+            const isSelected = version._id === selectedId
+            return (
+              <div
+                key={version._id}
+                className={`rounded border px-2 py-1.5 ${isSelected ? 'border-sky-400 bg-sky-50' : 'border-slate-200'}`}
+              >
+                <button
+                  onClick={() => {
+                    setSelectedId(isSelected ? null : version._id)
+                    onPreview(null)
+                  }}
+                  className="w-full text-left"
+                >
+                  <div className="text-sm text-slate-700">{new Date(version.createdAt).toLocaleString()}</div>
+                  <div className="text-xs text-slate-400">
+                    {REASON_LABELS[version.reason]} - {version.planeCount} plane{version.planeCount === 1 ? '' : 's'}
+                  </div>
+                </button>
+
+                {isSelected && (
+                  <div className="mt-2 space-y-2">
+                    {selected === undefined ? (
+                      <div className="text-xs text-slate-400">Loading...</div>
+                    ) : selected === null ? (
+                      <div className="text-xs text-red-500">Version not found.</div>
+                    ) : (
+                      <>
+                        <div className="text-xs text-slate-500">Current project compared to this version:</div>
+                        <VersionDiff diff={diffProjectData(selected, current)} />
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => onPreview(isPreviewing ? null : selected)}
+                            className="flex-1 px-2 py-1 text-xs border border-slate-300 rounded hover:bg-slate-100"
+                          >
+                            {isPreviewing ? 'Stop preview' : 'Preview'}
+                          </button>
+                          <button
+                            onClick={() => onRestore(selected._id)}
+                            disabled={isRestoring}
+                            className="flex-1 px-2 py-1 text-xs bg-sky-500 text-white rounded hover:bg-sky-600 disabled:opacity-50"
+                          >
+                            {isRestoring ? 'Restoring...' : 'Restore'}
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
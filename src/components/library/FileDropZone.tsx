@@ -0,0 +1,61 @@
+import { useRef, useState } from 'react'
+
+interface FileDropZoneProps {
+  accept: string // e.g. ".stl"
+  label: string
+  // 0-1 while uploading, null when idle
+  progress: number | null
+  disabled?: boolean
+  onFile: (file: File) => void
+}
+
+/**
+ * Click-or-drop target for a single file, with an upload progress bar.
+ */
+export function FileDropZone({ accept, label, progress, disabled = false, onFile }: FileDropZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isOver, setIsOver] = useState(false)
+  const busy = disabled || progress !== null
+
+  return (
+    <div
+      onClick={() => !busy && inputRef.current?.click()}
+      onDragOver={(e) => {
+        e.preventDefault()
+        if (!busy) setIsOver(true)
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        e.preventDefault()
+        setIsOver(false)
+        const file = e.dataTransfer.files[0]
+        if (file && !busy) onFile(file)
+      }}
+      className={`border-2 border-dashed rounded-lg px-3 py-4 text-center text-xs transition-colors
+        ${busy ? 'cursor-default opacity-70' : 'cursor-pointer'}
+        ${isOver ? 'border-sky-400 bg-sky-50 text-sky-700' : 'border-slate-300 text-slate-500 hover:border-slate-400'}`}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = '' // allow picking the same file again
+          if (file) onFile(file)
+        }}
+      />
+      {progress === null ? (
+        label
+      ) : (
+        <div className="space-y-1">
+          <div>Uploading... {Math.round(progress * 100)}%</div>
+          <div className="h-1.5 bg-slate-200 rounded overflow-hidden">
+            <div className="h-full bg-sky-500 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+export type LibraryTab = 'samples' | 'mine'
+
+interface LibraryTabsProps {
+  tab: LibraryTab
+  onChange: (tab: LibraryTab) => void
+}
+
+/**
+ * Samples / My files switch above a step's file grid.
+ */
+export function LibraryTabs({ tab, onChange }: LibraryTabsProps) {
+  return (
+    <div className="flex border-b border-slate-200 text-xs">
+      {(['samples', 'mine'] as const).map((key) => (
+        <button
+          key={key}
+          onClick={() => onChange(key)}
+          className={`px-3 py-1.5 -mb-px border-b-2 transition-colors
+            ${tab === key ? 'border-sky-500 text-slate-800 font-medium' : 'border-transparent text-slate-500 hover:text-slate-800'}`}
+        >
+          {key === 'samples' ? 'Samples' : 'My files'}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+import { useState, type ReactNode } from 'react'
+import { formatBytes } from '@convex/lib/limits'
+
+export interface LibraryFile {
+  _id: string
+  name: string
+  fileName: string
+  fileSize: number
+  createdAt: number
+  projectCount: number
+}
+
+type SortKey = 'date' | 'size' | 'name'
+
+const SORTS: Record<SortKey, (a: LibraryFile, b: LibraryFile) => number> = {
+  date: (a, b) => b.createdAt - a.createdAt,
+  size: (a, b) => b.fileSize - a.fileSize,
+  name: (a, b) => a.name.localeCompare(b.name),
+}
+
+interface MyFilesListProps<TFile extends LibraryFile> {
+  files: TFile[]
+  selectedId?: TFile['_id']
+  selectDisabled?: boolean
+  emptyText: string
+  renderPreview: (file: TFile) => ReactNode
+  onSelect: (fileId: TFile['_id']) => void
+  onRename: (fileId: TFile['_id'], name: string) => Promise<unknown>
+  onDelete: (fileId: TFile['_id']) => Promise<unknown>
+}
+
+/**
+ * The signed-in user's uploads: sortable grid with rename and delete.
+ * Delete asks for confirmation and says how many projects use the file.
+ */
+export function MyFilesList<TFile extends LibraryFile>({
+  files,
+  selectedId,
+  selectDisabled = false,
+  emptyText,
+  renderPreview,
+  onSelect,
+  onRename,
+  onDelete,
+}: MyFilesListProps<TFile>) {
+  type TId = TFile['_id']
+  const [sort, setSort] = useState<SortKey>('date')
+  const [renamingId, setRenamingId] = useState<TId | null>(null)
+  const [confirmingId, setConfirmingId] = useState<TId | null>(null)
+  const [busyId, setBusyId] = useState<TId | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (fileId: TId, action: () => Promise<unknown>) => {
+    setBusyId(fileId)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const commitRename = (file: TFile, value: string) => {
+    setRenamingId(null)
+    const name = value.trim()
+    if (name && name !== file.name) {
+      void run(file._id, () => onRename(file._id, name))
+    }
+  }
+
+  if (files.length === 0) {
+    return <div className="text-sm text-slate-400">{emptyText}</div>
+  }
+
+  const sorted = [...files].sort(SORTS[sort])
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1 text-xs text-slate-500">
+        Sort by
+        {(['date', 'size', 'name'] as const).map((key) => (
+          <button
+            key={key}
+            onClick={() => setSort(key)}
+            className={`px-1.5 py-0.5 rounded ${sort === key ? 'bg-slate-200 text-slate-800' : 'hover:text-slate-800'}`}
+          >
+            {key === 'date' ? 'Date' : key === 'size' ? 'Size' : 'Name'}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+
+      <div className="grid grid-cols-2 gap-2">
+        {sorted.map((file) => (
+          <div
+            key={file._id}
+            className={`flex flex-col bg-white border rounded-lg p-2 ${busyId === file._id ? 'opacity-50' : ''}
+              ${selectedId === file._id ? 'border-sky-500 ring-1 ring-sky-500' : 'border-slate-200'}`}
+          >
+            <button
+              onClick={() => onSelect(file._id)}
+              disabled={selectDisabled}
+              className="group mb-2 disabled:cursor-not-allowed"
+            >
+              {renderPreview(file)}
+            </button>
+
+            {renamingId === file._id ? (
+              <input
+                autoFocus
+                defaultValue={file.name}
+                maxLength={100}
+                onBlur={(e) => commitRename(file, e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur()
+                  if (e.key === 'Escape') setRenamingId(null)
+                }}
+                className="w-full px-1 py-0.5 text-xs border border-slate-300 rounded focus:outline-none focus:ring-1 focus:ring-sky-400"
+              />
+            ) : (
+              <span className="text-xs font-medium text-slate-700 truncate" title={file.fileName}>
+                {file.name}
+              </span>
+            )}
+            <span className="text-[10px] text-slate-400">
+              {formatBytes(file.fileSize)} &middot; {new Date(file.createdAt).toLocaleDateString()}
+            </span>
+
+            {confirmingId === file._id ? (
+              <div className="mt-1 space-y-1">
+                <p className="text-[10px] text-amber-700">
+                  {file.projectCount > 0
+                    ? `Used by ${file.projectCount} ${file.projectCount === 1 ? 'project' : 'projects'}. Delete anyway?`
+                    : 'Delete this file?'}
+                </p>
+                <div className="flex gap-2 text-[10px]">
+                  <button
+                    onClick={() => {
+                      setConfirmingId(null)
+                      void run(file._id, () => onDelete(file._id))
+                    }}
+                    className="text-red-600 hover:underline"
+                  >
+                    Delete
+                  </button>
+                  <button onClick={() => setConfirmingId(null)} className="text-slate-500 hover:underline">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="mt-1 flex gap-2 text-[10px]">
+                <button
+                  onClick={() => setRenamingId(file._id)}
+                  disabled={busyId === file._id}
+                  className="text-slate-500 hover:text-slate-800 hover:underline"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => setConfirmingId(file._id)}
+                  disabled={busyId === file._id}
+                  className="text-red-500 hover:text-red-700 hover:underline ml-auto"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
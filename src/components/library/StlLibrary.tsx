@@ -0,0 +1,70 @@
+import { useConvexAuth, useMutation, useQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import type { Id } from '@convex/_generated/dataModel'
+import { MAX_UPLOAD_BYTES, formatBytes } from '@convex/lib/limits'
+import { StlThumbnail } from '@/components/StlThumbnail'
+import { useLibraryUpload } from '@/hooks/useLibraryUpload'
+import { FileDropZone } from './FileDropZone'
+import { MyFilesList } from './MyFilesList'
+
+interface StlLibraryProps {
+  selectedStlId?: Id<'stl_files'>
+  onSelectStl: (fileId: Id<'stl_files'>) => void
+}
+
+/**
+ * "My files" for models: upload, pick, rename, delete.
+ * A fresh upload is selected right away.
+ */
+export function StlLibrary({ selectedStlId, onSelectStl }: StlLibraryProps) {
+  const { isAuthenticated } = useConvexAuth()
+  const files = useQuery(api.stlFiles.listUserFiles, isAuthenticated ? {} : 'skip')
+  const commitFile = useMutation(api.stlFiles.commitFile)
+  const renameFile = useMutation(api.stlFiles.renameFile)
+  const deleteFile = useMutation(api.stlFiles.deleteFile)
+  const { upload, progress, error, hasStuckUploads, cancelStuckUploads } = useLibraryUpload('stl', commitFile)
+
+  if (!isAuthenticated) {
+    return <div className="text-sm text-slate-400">Sign in to upload your own models.</div>
+  }
+
+  return (
+    <div className="space-y-3">
+      <FileDropZone
+        accept=".stl"
+        label={`Drop an STL here or click to upload (max ${formatBytes(MAX_UPLOAD_BYTES.stl)})`}
+        progress={progress}
+        onFile={async (file) => {
+          const fileId = await upload(file)
+          if (fileId) onSelectStl(fileId)
+        }}
+      />
+      {error && (
+        <div className="text-xs text-red-500">
+          {error}
+          {hasStuckUploads && (
+            <button onClick={cancelStuckUploads} className="block mt-1 text-sky-600 hover:underline">
+              Cancel unfinished uploads
+            </button>
+          )}
+        </div>
+      )}
+
+      {files === undefined ? (
+        <div className="text-sm text-slate-400">Loading...</div>
+      ) : (
+        <MyFilesList
+          files={files}
+          selectedId={selectedStlId}
+          emptyText="No models uploaded yet."
+          renderPreview={(file) => (
+            <StlThumbnail thumbnail={file.thumbnail} alt={file.name} className="aspect-square w-full" />
+          )}
+          onSelect={onSelectStl}
+          onRename={(fileId, name) => renameFile({ fileId, name })}
+          onDelete={(fileId) => deleteFile({ fileId })}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import { useConvexAuth, useMutation, useQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import type { Id } from '@convex/_generated/dataModel'
+import { MAX_UPLOAD_BYTES, formatBytes } from '@convex/lib/limits'
+import { SvgFilePreview } from '@/components/svg'
+import { useLibraryUpload } from '@/hooks/useLibraryUpload'
+import { FileDropZone } from './FileDropZone'
+import { MyFilesList } from './MyFilesList'
+
+interface SvgLibraryProps {
+  selectedSvgId?: Id<'svg_files'>
+  // False when there's no plane to place on; uploads still work
+  canPlace: boolean
+  onPlaceSvg: (fileId: Id<'svg_files'>) => void
+}
+
+/**
+ * "My files" for SVGs: upload, place on the selected plane, rename, delete.
+ */
+export function SvgLibrary({ selectedSvgId, canPlace, onPlaceSvg }: SvgLibraryProps) {
+  const { isAuthenticated } = useConvexAuth()
+  const files = useQuery(api.svgFiles.listUserFiles, isAuthenticated ? {} : 'skip')
+  const commitFile = useMutation(api.svgFiles.commitFile)
+  const renameFile = useMutation(api.svgFiles.renameFile)
+  const deleteFile = useMutation(api.svgFiles.deleteFile)
+  const { upload, progress, error, hasStuckUploads, cancelStuckUploads } = useLibraryUpload('svg', commitFile)
+
+  if (!isAuthenticated) {
+    return <div className="text-sm text-slate-400">Sign in to upload your own SVGs.</div>
+  }
+
+  return (
+    <div className="space-y-3">
+      <FileDropZone
+        accept=".svg"
+        label={`Drop an SVG here or click to upload (max ${formatBytes(MAX_UPLOAD_BYTES.svg)})`}
+        progress={progress}
+        onFile={async (file) => {
+          const fileId = await upload(file)
+          if (fileId && canPlace) onPlaceSvg(fileId)
+        }}
+      />
+      {error && (
+        <div className="text-xs text-red-500">
+          {error}
+          {hasStuckUploads && (
+            <button onClick={cancelStuckUploads} className="block mt-1 text-sky-600 hover:underline">
+              Cancel unfinished uploads
+            </button>
+          )}
+        </div>
+      )}
+
+      {files === undefined ? (
+        <div className="text-sm text-slate-400">Loading...</div>
+      ) : (
+        <MyFilesList
+          files={files}
+          selectedId={selectedSvgId}
+          selectDisabled={!canPlace}
+          emptyText="No SVGs uploaded yet."
+          renderPreview={(file) => <SvgFilePreview fileId={file._id} className="aspect-square w-full" />}
+          onSelect={onPlaceSvg}
+          onRename={(fileId, name) => renameFile({ fileId, name })}
+          onDelete={(fileId) => deleteFile({ fileId })}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,3 @@
+export { LibraryTabs, type LibraryTab } from './LibraryTabs'
+export { StlLibrary } from './StlLibrary'
+export { SvgLibrary } from './SvgLibrary'
@@ -379,7 +379,8 @@ export function AuthModal({ isOpen, onClose, mode, onAuthSuccess }: AuthModalPro
         safeSessionSet(BACKER_ID_KEY, verifiedBackerId)
         safeSessionSet(BACKER_TOKEN_KEY, verifiedBackerToken)
       }
-      await authClient.signIn.social({ provider: 'google' })
+      // Come back to the page the user was on (e.g. a project link)
+      await authClient.signIn.social({ provider: 'google', callbackURL: window.location.href })
     } catch (err) {
       safeSessionRemove(AUTH_PENDING_KEY)
       safeSessionRemove(BACKER_ID_KEY)
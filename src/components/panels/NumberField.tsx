@@ -0,0 +1,45 @@
+interface NumberFieldProps {
+  label: string
+  // null shows an empty field with the placeholder (e.g. mixed values)
+  value: number | null
+  step?: number
+  min?: number
+  max?: number
+  placeholder?: string
+  onCommit: (value: number) => void
+}
+
+/**
+ * Numeric input for step panels.
+ * Commits on blur/Enter so partial input ("1.", "-") isn't applied mid-typing.
+ */
+export function NumberField({ label, value, step = 1, min, max, placeholder, onCommit }: NumberFieldProps) {
+  const display = value === null ? '' : String(Number(value.toFixed(3)))
+
+  return (
+    <label className="block">
+      <span className="block text-xs text-slate-500 mb-0.5">{label}</span>
+      <input
+        key={display}
+        type="number"
+        step={step}
+        min={min}
+        max={max}
+        placeholder={placeholder}
+        defaultValue={display}
+        onBlur={(e) => {
+          const next = parseFloat(e.target.value)
+          if (Number.isFinite(next) && String(next) !== display) {
+            onCommit(next)
+          }
+          // Show the stored value; a changed value remounts via key
+          e.target.value = display
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur()
+        }}
+        className="w-full px-2 py-1 text-sm border border-slate-200 rounded focus:outline-none focus:ring-1 focus:ring-sky-400"
+      />
+    </label>
+  )
+}
@@ -0,0 +1,125 @@
+import type { StlMesh } from '@convex/lib/stl'
+import type { SceneMode } from '@/components/scene'
+import {
+  resolveOrientation,
+  rotateAboutWorldAxis,
+  withRestingOffset,
+  type Axis,
+  type StlOrientation,
+} from '@/lib/orientation'
+
+interface OrientationToolsProps {
+  mesh: StlMesh | null
+  orientation?: StlOrientation
+  mode: SceneMode
+  planeCount?: number
+  onModeChange: (mode: SceneMode) => void
+  onChange: (orientation: StlOrientation | undefined) => void
+}
+
+const SNAP_AXES: Axis[] = ['x', 'y', 'z']
+
+/**
+ * Orientation controls for Step 1.
+ * Every change re-rests the model on the build plate (automatic zOffset).
+ */
+export function OrientationTools({
+  mesh,
+  orientation,
+  mode,
+  planeCount = 0,
+  onModeChange,
+  onChange,
+}: OrientationToolsProps) {
+  const disabled = !mesh
+
+  const handleSnap = (axis: Axis, degrees: number) => {
+    if (!mesh) return
+    const current = resolveOrientation(mesh, orientation)
+    onChange(withRestingOffset(mesh, rotateAboutWorldAxis(current.rotation, axis, degrees)))
+  }
+
+  const toggleMode = (target: SceneMode) => {
+    onModeChange(mode === target ? 'view' : target)
+  }
+
+  const zOffset = mesh ? resolveOrientation(mesh, orientation).zOffset : null
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-medium text-sm text-slate-700">Orient the STL</h3>
+        <p className="text-xs text-slate-500 mt-0.5">
+          Rotate the model, or click a face to lay it flat on the build plate.
+        </p>
+      </div>
+
+      {planeCount > 0 && (
+        <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1.5">
+          Changing the orientation clears your {planeCount} extrusion {planeCount === 1 ? 'plane' : 'planes'}.
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => toggleMode('rotate')}
+          disabled={disabled}
+          className={`flex-1 px-2 py-1.5 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+            ${mode === 'rotate'
+              ? 'bg-sky-500 border-sky-500 text-white'
+              : 'bg-white border-slate-200 text-slate-700 hover:border-sky-400'
+            }`}
+        >
+          Rotate gizmo
+        </button>
+        <button
+          onClick={() => toggleMode('layFlat')}
+          disabled={disabled}
+          className={`flex-1 px-2 py-1.5 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+            ${mode === 'layFlat'
+              ? 'bg-sky-500 border-sky-500 text-white'
+              : 'bg-white border-slate-200 text-slate-700 hover:border-sky-400'
+            }`}
+        >
+          Lay flat on face
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {SNAP_AXES.map((axis) => (
+          <div key={axis} className="flex rounded border border-slate-200 overflow-hidden">
+            <button
+              onClick={() => handleSnap(axis, -90)}
+              disabled={disabled}
+              title={`Rotate -90° about ${axis.toUpperCase()}`}
+              className="flex-1 py-1 text-xs text-slate-600 bg-white hover:bg-slate-100 disabled:opacity-50"
+            >
+              -{axis.toUpperCase()}
+            </button>
+            <button
+              onClick={() => handleSnap(axis, 90)}
+              disabled={disabled}
+              title={`Rotate +90° about ${axis.toUpperCase()}`}
+              className="flex-1 py-1 text-xs text-slate-600 bg-white hover:bg-slate-100 border-l border-slate-200 disabled:opacity-50"
+            >
+              +{axis.toUpperCase()}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-500">
+          {zOffset !== null ? `Lifted ${zOffset.toFixed(2)} mm to rest on plate` : 'No model loaded'}
+        </span>
+        <button
+          onClick={() => onChange(undefined)}
+          disabled={disabled || !orientation}
+          className="text-xs text-slate-600 hover:text-slate-900 hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  )
+}
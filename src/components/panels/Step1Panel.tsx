@@ -1,12 +1,23 @@
+import { useState } from 'react'
 import { useQuery } from 'convex/react'
 import { api } from '@convex/_generated/api'
+import type { Id } from '@convex/_generated/dataModel'
+import { MAX_UPLOAD_BYTES, formatBytes } from '@convex/lib/limits'
+import { LibraryTabs, StlLibrary, type LibraryTab } from '@/components/library'
+import { StlThumbnail } from '@/components/StlThumbnail'
+
+interface Step1PanelProps {
+  selectedStlId?: Id<'stl_files'>
+  onSelectStl: (fileId: Id<'stl_files'>) => void
+}
 
 /**
  * Step 1: Select STL
- * Shows available base STL samples for discovery mode.
+ * Base STL samples (discovery mode) or the user's own uploads.
  * Users can browse and select a model to work with.
  */
-export function Step1Panel() {
+export function Step1Panel({ selectedStlId, onSelectStl }: Step1PanelProps) {
+  const [tab, setTab] = useState<LibraryTab>('samples')
   const baseSamples = useQuery(api.stlFiles.listBaseSamples)
 
   return (
@@ -14,11 +25,15 @@ export function Step1Panel() {
       <div>
         <h3 className="font-medium text-sm text-slate-700">Import or Select an STL</h3>
         <p className="text-xs text-slate-500 mt-0.5">
-          Max file size = 2MB. Drag into 3D scene window. Orient the STL.
+          Max file size = {formatBytes(MAX_UPLOAD_BYTES.stl)}. Drag into 3D scene window. Orient the STL.
         </p>
       </div>
 
-      {baseSamples === undefined ? (
+      <LibraryTabs tab={tab} onChange={setTab} />
+
+      {tab === 'mine' ? (
+        <StlLibrary selectedStlId={selectedStlId} onSelectStl={onSelectStl} />
+      ) : baseSamples === undefined ? (
         <div className="text-sm text-slate-400">Loading...</div>
       ) : baseSamples.length === 0 ? (
         <div className="text-sm text-slate-400">No models available yet.</div>
@@ -27,24 +42,11 @@ export function Step1Panel() {
           {baseSamples.map((sample) => (
             <button
               key={sample._id}
-              className="group flex flex-col bg-white border border-slate-200 rounded-lg p-2 hover:border-sky-400 hover:shadow-sm transition-all text-left"
+              onClick={() => onSelectStl(sample._id)}
+              className={`group flex flex-col bg-white border rounded-lg p-2 hover:border-sky-400 hover:shadow-sm transition-all text-left
+                ${selectedStlId === sample._id ? 'border-sky-500 ring-1 ring-sky-500' : 'border-slate-200'}`}
             >
-              {/* Thumbnail placeholder - will be replaced with actual thumbnail */}
-              <div className="aspect-square w-full bg-slate-100 rounded flex items-center justify-center mb-2">
-                <svg
-                  className="w-8 h-8 text-slate-300 group-hover:text-sky-400 transition-colors"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={1.5}
-                    d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
-                  />
-                </svg>
-              </div>
+              <StlThumbnail thumbnail={sample.thumbnail} alt={sample.name} className="aspect-square w-full mb-2" />
               <span className="text-xs font-medium text-slate-700 truncate w-full">
                 {sample.name}
               </span>
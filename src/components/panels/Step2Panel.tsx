@@ -0,0 +1,140 @@
+import { useState } from 'react'
+import {
+  MAX_EXTRUSION_PLANES,
+  MAX_PLANE_NAME_LENGTH,
+  nextPlaneName,
+  type ExtrusionPlane,
+} from '@/lib/planes'
+
+// The name field being typed in, and the plane's name before that
+interface NameEdit {
+  index: number
+  value: string
+  previous: string
+}
+
+interface Step2PanelProps {
+  hasModel: boolean
+  candidateCount: number
+  planes: ExtrusionPlane[]
+  notice?: string | null
+  onChange: (planes: ExtrusionPlane[]) => void
+  // Renaming plane `index` (called per keystroke, so undo can merge them)
+  onRename: (index: number, planes: ExtrusionPlane[]) => void
+}
+
+/**
+ * Step 2: Select Extrusion Planes
+ * Flat, upward-facing regions of the oriented model are highlighted in the
+ * scene. Clicking one adds or removes it; selected planes can be renamed here.
+ */
+export function Step2Panel({
+  hasModel,
+  candidateCount,
+  planes,
+  notice,
+  onChange,
+  onRename,
+}: Step2PanelProps) {
+  const [nameEdit, setNameEdit] = useState<NameEdit | null>(null)
+
+  const handleRename = (index: number, name: string) => {
+    onRename(index, planes.map((plane, i) => (i === index ? { ...plane, name } : plane)))
+  }
+
+  // Only trimmed, non-empty names reach the project (others can't be
+  // saved); the field shows what's typed
+  const handleNameChange = (index: number, value: string) => {
+    const previous = nameEdit?.index === index ? nameEdit.previous : planes[index].name
+    setNameEdit({ index, value, previous })
+    const name = value.trim()
+    if (name && name !== planes[index].name) {
+      handleRename(index, name)
+    }
+  }
+
+  // Left blank: back to the name before editing (or a default)
+  const handleNameBlur = (index: number) => {
+    if (nameEdit?.index !== index) return
+    if (!nameEdit.value.trim()) {
+      const others = planes.filter((_, i) => i !== index)
+      const fallback = nameEdit.previous.trim() || nextPlaneName(others)
+      if (fallback !== planes[index].name) handleRename(index, fallback)
+    }
+    setNameEdit(null)
+  }
+
+  const handleRemove = (index: number) => {
+    onChange(planes.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-medium text-sm text-slate-700">Select Extrusion Planes</h3>
+        <p className="text-xs text-slate-500 mt-0.5">
+          Click a highlighted flat face in the 3D scene to add it. Click it again to remove it.
+          You can select up to {MAX_EXTRUSION_PLANES} extrusion planes.
+        </p>
+      </div>
+
+      {!hasModel ? (
+        <div className="text-sm text-slate-400">Select and orient a model in step 1 first.</div>
+      ) : candidateCount === 0 ? (
+        <div className="text-sm text-slate-400">
+          No flat upward-facing areas found. Try a different orientation in step 1.
+        </div>
+      ) : (
+        <div className="text-xs text-slate-500">
+          {candidateCount} flat {candidateCount === 1 ? 'area' : 'areas'} found
+        </div>
+      )}
+
+      {notice && (
+        <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1.5">
+          {notice}
+        </div>
+      )}
+
+      {planes.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-slate-600">
+              Selected planes ({planes.length}/{MAX_EXTRUSION_PLANES})
+            </span>
+            <button
+              onClick={() => onChange([])}
+              className="text-xs text-slate-600 hover:text-slate-900 hover:underline"
+            >
+              Clear all
+            </button>
+          </div>
+          {planes.map((plane, index) => (
+            <div
+              key={index}
+              className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg px-2 py-1.5"
+            >
+              <input
+                value={nameEdit?.index === index ? nameEdit.value : plane.name}
+                maxLength={MAX_PLANE_NAME_LENGTH}
+                onChange={(e) => handleNameChange(index, e.target.value)}
+                onBlur={() => handleNameBlur(index)}
+                className="flex-1 min-w-0 text-sm text-slate-700 bg-transparent focus:outline-none focus:ring-1 focus:ring-sky-400 rounded px-1"
+              />
+              <span className="text-xs text-slate-400 shrink-0">
+                z {plane.planeData.planeZ.toFixed(1)}
+              </span>
+              <button
+                onClick={() => handleRemove(index)}
+                title="Remove plane"
+                className="text-slate-400 hover:text-red-500 text-sm leading-none px-1"
+              >
+                &times;
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
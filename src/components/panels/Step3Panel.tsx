@@ -1,25 +1,178 @@
+import { useState } from 'react'
 import { useQuery } from 'convex/react'
 import { api } from '@convex/_generated/api'
+import type { Id } from '@convex/_generated/dataModel'
+import { MAX_UPLOAD_BYTES, formatBytes } from '@convex/lib/limits'
+import { LibraryTabs, SvgLibrary, type LibraryTab } from '@/components/library'
+import { SvgDiagnosticsList, SvgFilePreview } from '@/components/svg'
+import type { SvgShapesState } from '@/hooks/useSvgShapes'
+import type { PlaneClipResult } from '@/lib/clipping'
+import type { ExtrusionPlane } from '@/lib/planes'
+import { centerPlacement, clampScale, fitPlacement, type SvgSettings } from '@/lib/placement'
+import { svgDiagnostics } from '@/lib/svg-diagnostics'
+import { NumberField } from './NumberField'
+
+interface Step3PanelProps {
+  planes: ExtrusionPlane[]
+  selectedPlaneIndex: number | null
+  // Parsed SVG on the selected plane, if any
+  svgState?: SvgShapesState
+  // Stored or default placement for the selected plane
+  settings?: SvgSettings
+  // Selected plane's shapes clipped to the plane
+  clipResult?: PlaneClipResult | null
+  isEditing: boolean
+  onSelectPlane: (index: number) => void
+  onPlaceSvg: (fileId: Id<'svg_files'>) => void
+  onRemoveSvg: () => void
+  onSettingsChange: (settings: SvgSettings) => void
+  onEditPlacement: () => void
+}
 
 /**
  * Step 3: Choose or Import SVGs
- * Shows available base SVG samples for projection.
- * Users can browse and select an SVG to project onto their model.
+ * Pick an extrusion plane, then an SVG to project onto it. Placement is
+ * adjusted in the 2D editor over the scene or with the numeric fields here.
  */
-export function Step3Panel() {
+export function Step3Panel({
+  planes,
+  selectedPlaneIndex,
+  svgState,
+  settings,
+  clipResult,
+  isEditing,
+  onSelectPlane,
+  onPlaceSvg,
+  onRemoveSvg,
+  onSettingsChange,
+  onEditPlacement,
+}: Step3PanelProps) {
+  const [tab, setTab] = useState<LibraryTab>('samples')
   const baseSamples = useQuery(api.svgFiles.listBaseSamples)
+  const selectedPlane = selectedPlaneIndex !== null ? planes[selectedPlaneIndex] : undefined
+  const svgBounds = svgState?.result?.bounds ?? null
+  // At the placed scale; shapes the clip already reports as slivers aren't repeated
+  const slivers = new Set(clipResult?.warnings.filter((w) => w.kind === 'sliver').map((w) => w.shapeIndex))
+  const diagnostics = svgState?.result && settings
+    ? svgDiagnostics(svgState.result, settings.scale).filter(
+        (d) => d.kind !== 'too-small' || !slivers.has(d.shapeIndex)
+      )
+    : []
 
   return (
     <div className="space-y-3">
       <div>
         <h3 className="font-medium text-sm text-slate-700">Choose or Import SVGs</h3>
         <p className="text-xs text-slate-500 mt-0.5">
-          Max file size = 15KB. Select an extrusion plane in the 3D scene. Drag an SVG onto the extrusion plane.
+          Max file size = {formatBytes(MAX_UPLOAD_BYTES.svg)}. Select an extrusion plane, then click an SVG to place it on the plane.
           Adjust the position, rotation, and scale. Repeat for any of your extrusion planes.
         </p>
       </div>
 
-      {baseSamples === undefined ? (
+      {planes.length === 0 ? (
+        <div className="text-sm text-slate-400">Select extrusion planes in step 2 first.</div>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {planes.map((plane, index) => (
+            <button
+              key={index}
+              onClick={() => onSelectPlane(index)}
+              className={`px-2 py-1 text-xs rounded border transition-colors
+                ${index === selectedPlaneIndex
+                  ? 'bg-sky-500 border-sky-500 text-white'
+                  : 'bg-white border-slate-200 text-slate-700 hover:border-sky-400'
+                }`}
+            >
+              {plane.name}
+              {plane.svgFileId && <span className="ml-1 opacity-70">&bull;</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedPlane?.svgFileId && (
+        <div className="space-y-2 bg-white border border-slate-200 rounded-lg p-2">
+          {svgState?.isLoading ? (
+            <div className="text-xs text-slate-400">Loading SVG...</div>
+          ) : svgState?.error ? (
+            <div className="text-xs text-red-500">{svgState.error}</div>
+          ) : !svgBounds ? (
+            <div className="text-xs text-amber-700">This SVG has no filled shapes to extrude.</div>
+          ) : settings && (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField
+                  label="X (mm)"
+                  value={settings.position.x}
+                  onCommit={(x) => onSettingsChange({ ...settings, position: { ...settings.position, x } })}
+                />
+                <NumberField
+                  label="Y (mm)"
+                  value={settings.position.y}
+                  onCommit={(y) => onSettingsChange({ ...settings, position: { ...settings.position, y } })}
+                />
+                <NumberField
+                  label="Rotation (°)"
+                  value={settings.rotation}
+                  onCommit={(rotation) => onSettingsChange({ ...settings, rotation })}
+                />
+                <NumberField
+                  label="Scale"
+                  value={settings.scale}
+                  step={0.01}
+                  onCommit={(scale) => onSettingsChange({ ...settings, scale: clampScale(scale) })}
+                />
+              </div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1">
+                <button
+                  onClick={() => onSettingsChange(fitPlacement(svgBounds, selectedPlane.planeData, settings.rotation))}
+                  className="text-xs text-slate-600 hover:text-slate-900 hover:underline"
+                >
+                  Fit to plane
+                </button>
+                <button
+                  onClick={() => onSettingsChange(centerPlacement(settings, selectedPlane.planeData))}
+                  className="text-xs text-slate-600 hover:text-slate-900 hover:underline"
+                >
+                  Center
+                </button>
+                {!isEditing && (
+                  <button
+                    onClick={onEditPlacement}
+                    className="text-xs text-sky-600 hover:text-sky-800 hover:underline"
+                  >
+                    Open editor
+                  </button>
+                )}
+                <button
+                  onClick={onRemoveSvg}
+                  className="text-xs text-red-500 hover:text-red-700 hover:underline ml-auto"
+                >
+                  Remove SVG
+                </button>
+              </div>
+              <SvgDiagnosticsList diagnostics={diagnostics} />
+              {clipResult && clipResult.warnings.length > 0 && (
+                <ul className="space-y-1 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1.5">
+                  {clipResult.warnings.map((warning) => (
+                    <li key={`${warning.kind}-${warning.shapeIndex}`}>{warning.message}</li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <LibraryTabs tab={tab} onChange={setTab} />
+
+      {tab === 'mine' ? (
+        <SvgLibrary
+          selectedSvgId={selectedPlane?.svgFileId}
+          canPlace={!!selectedPlane}
+          onPlaceSvg={onPlaceSvg}
+        />
+      ) : baseSamples === undefined ? (
         <div className="text-sm text-slate-400">Loading...</div>
       ) : baseSamples.length === 0 ? (
         <div className="text-sm text-slate-400">No patterns available yet.</div>
@@ -28,24 +181,12 @@ export function Step3Panel() {
           {baseSamples.map((sample) => (
             <button
               key={sample._id}
-              className="group flex flex-col bg-white border border-slate-200 rounded-lg p-2 hover:border-emerald-400 hover:shadow-sm transition-all text-left"
+              onClick={() => onPlaceSvg(sample._id)}
+              disabled={!selectedPlane}
+              className={`group flex flex-col bg-white border rounded-lg p-2 hover:border-emerald-400 hover:shadow-sm transition-all text-left disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-200 disabled:hover:shadow-none
+                ${selectedPlane?.svgFileId === sample._id ? 'border-emerald-500' : 'border-slate-200'}`}
             >
-              {/* Thumbnail placeholder - will be replaced with actual SVG preview */}
-              <div className="aspect-square w-full bg-slate-100 rounded flex items-center justify-center mb-2">
-                <svg
-                  className="w-8 h-8 text-slate-300 group-hover:text-emerald-400 transition-colors"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={1.5}
-                    d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-                  />
-                </svg>
-              </div>
+              <SvgFilePreview fileId={sample._id} className="aspect-square w-full mb-2" />
               <span className="text-xs font-medium text-slate-700 truncate w-full">
                 {sample.name}
               </span>
@@ -0,0 +1,116 @@
+import type { Id } from '@convex/_generated/dataModel'
+import type { SvgShapesState } from '@/hooks/useSvgShapes'
+import type { PlaneClipResult } from '@/lib/clipping'
+import {
+  MAX_EXTRUSION_HEIGHT,
+  MIN_EXTRUSION_HEIGHT,
+  shapeHeight,
+  withShapeHeight,
+} from '@/lib/extrusion'
+import type { ExtrusionPlane } from '@/lib/planes'
+import { NumberField } from './NumberField'
+
+interface Step4PanelProps {
+  planes: ExtrusionPlane[]
+  svgShapes: Map<Id<'svg_files'>, SvgShapesState>
+  clipResults: (PlaneClipResult | null)[]
+  onChange: (planes: ExtrusionPlane[]) => void
+}
+
+// Common value, or null when they differ (shown as "Mixed")
+function uniformValue(values: number[]): number | null {
+  return values.length > 0 && values.every((v) => v === values[0]) ? values[0] : null
+}
+
+/**
+ * Step 4: Extrusion Settings
+ * Heights for the extruded SVG shapes - for everything at once, per plane,
+ * or per shape. Stored in plane.svgShapes[].extrusionSettings.
+ */
+export function Step4Panel({ planes, svgShapes, clipResults, onChange }: Step4PanelProps) {
+  const shapeCount = (plane: ExtrusionPlane) =>
+    plane.svgFileId ? svgShapes.get(plane.svgFileId)?.result?.shapes.length ?? 0 : 0
+
+  const editable = planes
+    .map((plane, index) => ({ plane, index, count: shapeCount(plane) }))
+    .filter(({ count }) => count > 0)
+
+  const heightsOf = (plane: ExtrusionPlane, count: number) =>
+    Array.from({ length: count }, (_, i) => shapeHeight(plane, i))
+
+  const updatePlane = (index: number, plane: ExtrusionPlane) => {
+    onChange(planes.map((p, i) => (i === index ? plane : p)))
+  }
+
+  const applyToAll = (height: number) => {
+    onChange(planes.map((plane) => {
+      const count = shapeCount(plane)
+      return count > 0 ? withShapeHeight(plane, count, height) : plane
+    }))
+  }
+
+  const heightProps = {
+    step: 0.1,
+    min: MIN_EXTRUSION_HEIGHT,
+    max: MAX_EXTRUSION_HEIGHT,
+    placeholder: 'Mixed',
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-medium text-sm text-slate-700">Extrusion Settings</h3>
+        <p className="text-xs text-slate-500 mt-0.5">
+          Set how far each shape rises from its plane ({MIN_EXTRUSION_HEIGHT}-{MAX_EXTRUSION_HEIGHT} mm).
+          Change all shapes at once, a whole plane, or a single shape.
+        </p>
+      </div>
+
+      {editable.length === 0 ? (
+        <div className="text-sm text-slate-400">Place SVGs on your extrusion planes in step 3 first.</div>
+      ) : (
+        <>
+          <NumberField
+            label="All shapes (mm)"
+            value={uniformValue(editable.flatMap(({ plane, count }) => heightsOf(plane, count)))}
+            onCommit={applyToAll}
+            {...heightProps}
+          />
+
+          {editable.map(({ plane, index, count }) => {
+            const clipped = new Set(clipResults[index]?.shapes.map((s) => s.shapeIndex))
+            return (
+              <div key={index} className="space-y-2 bg-white border border-slate-200 rounded-lg p-2">
+                <NumberField
+                  label={`${plane.name} (mm)`}
+                  value={uniformValue(heightsOf(plane, count))}
+                  onCommit={(height) => updatePlane(index, withShapeHeight(plane, count, height))}
+                  {...heightProps}
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  {Array.from({ length: count }, (_, shapeIndex) => {
+                    const name = plane.svgShapes?.find((s) => s.shapeIndex === shapeIndex)?.name
+                      ?? `Shape ${shapeIndex + 1}`
+                    const offPlane = !!clipResults[index] && !clipped.has(shapeIndex)
+                    return (
+                      <div key={shapeIndex} className={offPlane ? 'opacity-50' : undefined}>
+                        <NumberField
+                          label={offPlane ? `${name} (off plane)` : name}
+                          value={shapeHeight(plane, shapeIndex)}
+                          onCommit={(height) =>
+                            updatePlane(index, withShapeHeight(plane, count, height, shapeIndex))
+                          }
+                          {...heightProps}
+                        />
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import type { StlMesh } from '@convex/lib/stl'
+import { downloadFile } from '@/lib/download'
+import { buildExportModel, exportFileName, type ExportModel } from '@/lib/export-model'
+import type { ExtrusionMesh } from '@/lib/extrusion'
+import type { StlOrientation } from '@/lib/orientation'
+import type { ExtrusionPlane } from '@/lib/planes'
+import { writeMergedStl, writeStlPerPlaneZip, type StlFormat } from '@/lib/stl-export'
+import { write3mf } from '@/lib/threemf'
+import { BUILD_PLATE_SIZE } from '@/components/scene'
+
+interface Step5PanelProps {
+  mesh: StlMesh | null
+  orientation: StlOrientation | undefined
+  planes: ExtrusionPlane[]
+  extrusions: ExtrusionMesh[]
+  projectName: string | null
+}
+
+// Scene origin is the plate center; slicers put it at the corner
+const PLATE_OFFSET = { x: BUILD_PLATE_SIZE / 2, y: BUILD_PLATE_SIZE / 2 }
+
+/**
+ * Step 5: Export
+ * 3MF: the oriented base model and every extruded shape as separate,
+ * colored objects in one build.
+ * STL: everything merged into one file, or one file per plane in a zip.
+ */
+export function Step5Panel({ mesh, orientation, planes, extrusions, projectName }: Step5PanelProps) {
+  const [error, setError] = useState<string | null>(null)
+  const [stlFormat, setStlFormat] = useState<StlFormat>('binary')
+  const [stlPerPlane, setStlPerPlane] = useState(false)
+
+  const runExport = (write: (model: ExportModel) => void) => {
+    if (!mesh) return
+    setError(null)
+    try {
+      write(buildExportModel({ mesh, orientation, baseName: 'Base', planes, extrusions }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed')
+    }
+  }
+
+  const handleExport3mf = () => runExport((model) => {
+    downloadFile(write3mf(model, { offset: PLATE_OFFSET }), exportFileName(projectName, '3mf'), 'model/3mf')
+  })
+
+  const handleExportStl = () => runExport((model) => {
+    if (stlPerPlane) {
+      const data = writeStlPerPlaneZip(model, stlFormat, { offset: PLATE_OFFSET })
+      downloadFile(data, exportFileName(projectName, 'zip'), 'application/zip')
+    } else {
+      const data = writeMergedStl(model, stlFormat, { offset: PLATE_OFFSET })
+      downloadFile(data, exportFileName(projectName, 'stl'), 'model/stl')
+    }
+  })
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-medium text-sm text-slate-700">Export</h3>
+        <p className="text-xs text-slate-500 mt-0.5">
+          Check the result in the 3D view, then download it for your slicer.
+          Each shape is a separate object, colored by plane.
+        </p>
+      </div>
+
+      {!mesh ? (
+        <div className="text-sm text-slate-400">Select a base model in step 1 first.</div>
+      ) : (
+        <>
+          <div className="text-xs text-slate-500">
+            1 base model, {extrusions.length} extruded shape{extrusions.length === 1 ? '' : 's'}
+          </div>
+          <button
+            onClick={handleExport3mf}
+            className="w-full px-3 py-2 text-sm bg-sky-600 text-white rounded hover:bg-sky-700"
+          >
+            Export 3MF
+          </button>
+
+          <div className="space-y-2 pt-2 border-t border-slate-200">
+            <div className="text-xs text-slate-500">
+              STL has no colors or separate objects. Use it for tools that don't read 3MF.
+            </div>
+            <div className="flex items-center gap-3 text-xs text-slate-600">
+              {(['binary', 'ascii'] as const).map((format) => (
+                <label key={format} className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    name="stl-format"
+                    checked={stlFormat === format}
+                    onChange={() => setStlFormat(format)}
+                  />
+                  {format === 'binary' ? 'Binary' : 'ASCII'}
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-1 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={stlPerPlane}
+                onChange={(e) => setStlPerPlane(e.target.checked)}
+              />
+              One file per plane (zip)
+            </label>
+            <button
+              onClick={handleExportStl}
+              className="w-full px-3 py-2 text-sm border border-slate-300 text-slate-700 rounded hover:bg-slate-50"
+            >
+              Export STL
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+    </div>
+  )
+}
@@ -1,3 +1,7 @@
+export { OrientationTools } from './OrientationTools'
 export { Step1Panel } from './Step1Panel'
+export { Step2Panel } from './Step2Panel'
 export { Step3Panel } from './Step3Panel'
+export { Step4Panel } from './Step4Panel'
+export { Step5Panel } from './Step5Panel'
 export { StepPlaceholder } from './StepPlaceholder'
@@ -0,0 +1,235 @@
+import { useRef } from 'react'
+import type { Point, SvgParseResult } from '@convex/lib/svg'
+import type { ClippedShape } from '@/lib/clipping'
+import { bounds2d, type ExtrusionPlane } from '@/lib/planes'
+import {
+  clampScale,
+  placeShape,
+  placedCorners,
+  type SvgSettings,
+} from '@/lib/placement'
+
+interface PlacementEditorProps {
+  plane: ExtrusionPlane
+  svg: SvgParseResult
+  settings: SvgSettings
+  // Shapes after clipping to the plane; overhang is drawn faded
+  clipped?: ClippedShape[]
+  onChange: (settings: SvgSettings) => void
+  onClose: () => void
+}
+
+type DragKind = 'move' | 'scale' | 'rotate'
+
+interface DragState {
+  kind: DragKind
+  pointerId: number
+  start: Point
+  settings: SvgSettings
+}
+
+// Shift-drag on the rotate handle snaps to this step (degrees)
+const ROTATION_SNAP = 15
+
+// Padding around the plane, as a fraction of its larger side
+const VIEW_PADDING = 0.15
+
+function toPath(contours: Point[][]): string {
+  return contours
+    .map((c) => `M${c.map((p) => `${p.x},${p.y}`).join('L')}Z`)
+    .join('')
+}
+
+/**
+ * Top-down 2D editor for placing an SVG on one extrusion plane.
+ * Drag the artwork to move it, a corner to scale, the top handle to rotate.
+ * Works in plane coordinates (mm, Y up) - see lib/placement.
+ */
+export function PlacementEditor({ plane, svg, settings, clipped, onChange, onClose }: PlacementEditorProps) {
+  const layerRef = useRef<SVGGElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const svgBounds = svg.bounds
+
+  const { outer, holes } = plane.planeData
+  const { minX, minY, maxX, maxY } = bounds2d(outer)
+  const size = Math.max(maxX - minX, maxY - minY, 1)
+  const pad = size * VIEW_PADDING
+  // Flipped group below, so the view box spans -maxY..-minY
+  const viewBox = `${minX - pad} ${-maxY - pad} ${maxX - minX + 2 * pad} ${maxY - minY + 2 * pad}`
+  const handleSize = size * 0.02
+
+  const toPlane = (event: React.PointerEvent): Point | null => {
+    const matrix = layerRef.current?.getScreenCTM()
+    if (!matrix) return null
+    const p = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse())
+    return { x: p.x, y: p.y }
+  }
+
+  const startDrag = (kind: DragKind) => (event: React.PointerEvent<SVGElement>) => {
+    const start = toPlane(event)
+    if (!start || event.button !== 0) return
+    event.stopPropagation()
+    ;(event.currentTarget.ownerSVGElement ?? event.currentTarget).setPointerCapture(event.pointerId)
+    dragRef.current = { kind, pointerId: event.pointerId, start, settings }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag || drag.pointerId !== event.pointerId) return
+    const p = toPlane(event)
+    if (!p) return
+    const origin = drag.settings.position
+
+    if (drag.kind === 'move') {
+      onChange({
+        ...drag.settings,
+        position: {
+          x: origin.x + p.x - drag.start.x,
+          y: origin.y + p.y - drag.start.y,
+        },
+      })
+    } else if (drag.kind === 'scale') {
+      const startDistance = Math.hypot(drag.start.x - origin.x, drag.start.y - origin.y)
+      const distance = Math.hypot(p.x - origin.x, p.y - origin.y)
+      if (startDistance === 0) return
+      onChange({ ...drag.settings, scale: clampScale((drag.settings.scale * distance) / startDistance) })
+    } else {
+      const startAngle = Math.atan2(drag.start.y - origin.y, drag.start.x - origin.x)
+      const angle = Math.atan2(p.y - origin.y, p.x - origin.x)
+      let rotation = drag.settings.rotation + ((angle - startAngle) * 180) / Math.PI
+      if (event.shiftKey) {
+        rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP
+      }
+      onChange({ ...drag.settings, rotation: normalizeDegrees(rotation) })
+    }
+  }
+
+  const endDrag = (event: React.PointerEvent) => {
+    if (dragRef.current?.pointerId === event.pointerId) {
+      dragRef.current = null
+    }
+  }
+
+  if (!svgBounds) {
+    return null
+  }
+
+  const placed = svg.shapes.map((shape) => placeShape(shape, settings, svgBounds))
+  const artworkPath = toPath(placed.flatMap((s) => [s.outer, ...s.holes]))
+  const clippedPath = clipped
+    ? toPath(clipped.flatMap((s) => s.pieces.flatMap((piece) => [piece.outer, ...piece.holes])))
+    : null
+  const corners = placedCorners(settings, svgBounds)
+
+  // Rotate handle sits beyond the middle of the artwork's top edge
+  const topMid = { x: (corners[0].x + corners[1].x) / 2, y: (corners[0].y + corners[1].y) / 2 }
+  const center = settings.position
+  const up = { x: topMid.x - center.x, y: topMid.y - center.y }
+  const upLength = Math.hypot(up.x, up.y) || 1
+  const rotateHandle = {
+    x: topMid.x + (up.x / upLength) * handleSize * 3,
+    y: topMid.y + (up.y / upLength) * handleSize * 3,
+  }
+
+  return (
+    <div className="absolute inset-4 flex flex-col bg-white/95 border border-slate-200 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between px-3 h-9 border-b border-slate-200 shrink-0">
+        <span className="text-sm font-medium text-slate-700 truncate">{plane.name}</span>
+        <span className="text-xs text-slate-400">
+          Drag to move &middot; corners scale &middot; top handle rotates (Shift snaps {ROTATION_SNAP}&deg;)
+        </span>
+        <button onClick={onClose} className="text-xs text-slate-600 hover:text-slate-900 hover:underline">
+          Done
+        </button>
+      </div>
+      <svg
+        className="flex-1 w-full touch-none select-none"
+        viewBox={viewBox}
+        preserveAspectRatio="xMidYMid meet"
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        <g ref={layerRef} transform="scale(1,-1)">
+          <path
+            d={toPath([outer, ...holes])}
+            fillRule="evenodd"
+            fill="#f1f5f9"
+            stroke="#94a3b8"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+          <path
+            d={artworkPath}
+            fillRule="evenodd"
+            fill="#0ea5e9"
+            fillOpacity={clippedPath !== null ? 0.2 : 0.6}
+            stroke="#0369a1"
+            strokeWidth={1}
+            strokeOpacity={clippedPath !== null ? 0.4 : 1}
+            vectorEffect="non-scaling-stroke"
+            className="cursor-move"
+            onPointerDown={startDrag('move')}
+          />
+          {clippedPath !== null && (
+            <path d={clippedPath} fillRule="evenodd" fill="#0ea5e9" fillOpacity={0.7} pointerEvents="none" />
+          )}
+          <polygon
+            points={corners.map((p) => `${p.x},${p.y}`).join(' ')}
+            fill="transparent"
+            stroke="#0ea5e9"
+            strokeWidth={1}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+            className="cursor-move"
+            onPointerDown={startDrag('move')}
+          />
+          <line
+            x1={topMid.x}
+            y1={topMid.y}
+            x2={rotateHandle.x}
+            y2={rotateHandle.y}
+            stroke="#0ea5e9"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+          <circle
+            cx={rotateHandle.x}
+            cy={rotateHandle.y}
+            r={handleSize}
+            fill="white"
+            stroke="#0ea5e9"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            className="cursor-grab"
+            onPointerDown={startDrag('rotate')}
+          />
+          {corners.map((corner, i) => (
+            <rect
+              key={i}
+              x={corner.x - handleSize / 2}
+              y={corner.y - handleSize / 2}
+              width={handleSize}
+              height={handleSize}
+              fill="white"
+              stroke="#0ea5e9"
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+              className="cursor-nwse-resize"
+              onPointerDown={startDrag('scale')}
+            />
+          ))}
+          <circle cx={center.x} cy={center.y} r={handleSize / 3} fill="#0369a1" pointerEvents="none" />
+        </g>
+      </svg>
+      <div className="px-3 py-1.5 text-xs text-slate-500 border-t border-slate-200 shrink-0">
+        Center {settings.position.x.toFixed(1)}, {settings.position.y.toFixed(1)} mm &middot; {settings.rotation.toFixed(1)}&deg; &middot; scale {settings.scale.toFixed(3)}
+      </div>
+    </div>
+  )
+}
+
+function normalizeDegrees(degrees: number): number {
+  const wrapped = ((degrees % 360) + 360) % 360
+  return wrapped > 180 ? wrapped - 360 : wrapped
+}
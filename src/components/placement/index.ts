@@ -0,0 +1 @@
+export { PlacementEditor } from './PlacementEditor'
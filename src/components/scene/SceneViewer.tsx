@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react'
+import type { StlMesh } from '@convex/lib/stl'
+import type { StlOrientation } from '@/lib/orientation'
+import type { PlaneOverlay } from '@/lib/planes'
+import type { ExtrusionMesh } from '@/lib/extrusion'
+import { SceneRenderer, type SceneMode } from './sceneRenderer'
+
+function isWebGLAvailable() {
+  try {
+    const canvas = document.createElement('canvas')
+    return !!(canvas.getContext('webgl2') || canvas.getContext('webgl'))
+  } catch {
+    return false
+  }
+}
+
+interface SceneViewerProps {
+  mesh: StlMesh | null
+  orientation?: StlOrientation
+  mode?: SceneMode
+  planeOverlays?: PlaneOverlay[]
+  extrusions?: ExtrusionMesh[]
+  isLoading?: boolean
+  error?: string | null
+  onOrientationChange?: (orientation: StlOrientation) => void
+  onPlaneClick?: (regionId: string) => void
+  // Overlays drawn on top of the viewport (e.g. the 2D placement editor)
+  children?: ReactNode
+}
+
+const NO_OVERLAYS: PlaneOverlay[] = []
+const NO_EXTRUSIONS: ExtrusionMesh[] = []
+
+/**
+ * 3D viewport: orbit (left drag), pan (right drag), zoom (wheel),
+ * build-plate grid and a clickable axis gizmo.
+ */
+export function SceneViewer({
+  mesh,
+  orientation,
+  mode = 'view',
+  planeOverlays = NO_OVERLAYS,
+  extrusions = NO_EXTRUSIONS,
+  isLoading,
+  error,
+  onOrientationChange,
+  onPlaneClick,
+  children,
+}: SceneViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const rendererRef = useRef<SceneRenderer | null>(null)
+  const [webglAvailable] = useState(isWebGLAvailable)
+  const webglError = webglAvailable
+    ? null
+    : 'Your browser could not start the 3D viewer (WebGL unavailable).'
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || !webglAvailable) return
+
+    let sceneRenderer: SceneRenderer
+    try {
+      sceneRenderer = new SceneRenderer(container)
+    } catch (err) {
+      console.error('Failed to initialize 3D scene:', err)
+      return
+    }
+    rendererRef.current = sceneRenderer
+
+    return () => {
+      sceneRenderer.dispose()
+      rendererRef.current = null
+    }
+  }, [webglAvailable])
+
+  useEffect(() => {
+    rendererRef.current?.setHandlers({ onOrientationChange, onPlaneClick })
+  }, [onOrientationChange, onPlaneClick])
+
+  useEffect(() => {
+    rendererRef.current?.setModel(mesh)
+  }, [mesh])
+
+  useEffect(() => {
+    rendererRef.current?.setOrientation(orientation)
+  }, [mesh, orientation])
+
+  useEffect(() => {
+    rendererRef.current?.setPlaneOverlays(planeOverlays)
+  }, [planeOverlays])
+
+  useEffect(() => {
+    rendererRef.current?.setExtrusions(extrusions)
+  }, [extrusions])
+
+  useEffect(() => {
+    rendererRef.current?.setMode(mode)
+  }, [mode])
+
+  return (
+    <div className="relative flex-1 overflow-hidden bg-slate-50">
+      <div ref={containerRef} className="absolute inset-0" />
+
+      {webglError && (
+        <div className="absolute inset-0 flex items-center justify-center p-8 text-center text-sm text-slate-500">
+          {webglError}
+        </div>
+      )}
+
+      {!webglError && (isLoading || error || !mesh) && (
+        <div className="absolute top-3 left-3 pointer-events-none">
+          {isLoading ? (
+            <span className="text-sm text-slate-500 bg-white/80 rounded px-2 py-1">Loading model...</span>
+          ) : error ? (
+            <span className="text-sm text-red-600 bg-white/80 rounded px-2 py-1">{error}</span>
+          ) : (
+            <span className="text-sm text-slate-400 bg-white/80 rounded px-2 py-1">
+              Select a model in step 1 to get started.
+            </span>
+          )}
+        </div>
+      )}
+
+      {mesh && (
+        <button
+          onClick={() => rendererRef.current?.frameModel()}
+          className="absolute bottom-3 left-3 px-2 py-1 text-xs bg-white/90 border border-slate-200 rounded text-slate-600 hover:text-slate-900"
+        >
+          Reset view
+        </button>
+      )}
+
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,3 @@
+export { SceneViewer } from './SceneViewer'
+export { BUILD_PLATE_SIZE } from './sceneRenderer'
+export type { SceneMode } from './sceneRenderer'
@@ -0,0 +1,449 @@
+import * as THREE from 'three'
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js'
+import { TransformControls } from 'three/addons/controls/TransformControls.js'
+import { ViewHelper } from 'three/addons/helpers/ViewHelper.js'
+import type { StlMesh } from '@convex/lib/stl'
+import {
+  layFlatRotation,
+  resolveOrientation,
+  restingZOffset,
+  withRestingOffset,
+  type StlOrientation,
+} from '@/lib/orientation'
+import type { PlaneOverlay } from '@/lib/planes'
+import type { ExtrusionMesh } from '@/lib/extrusion'
+
+// Build plate size in mm (square). Matches common 256mm printers.
+export const BUILD_PLATE_SIZE = 256
+const GRID_DIVISIONS = BUILD_PLATE_SIZE / 10
+
+const MODEL_COLOR = 0x94a3b8 // slate-400
+const PLATE_COLOR = 0xf1f5f9 // slate-100
+const PLANE_CANDIDATE_COLOR = 0xfbbf24 // amber-400
+const PLANE_SELECTED_COLOR = 0x0ea5e9 // sky-500
+const EXTRUSION_COLOR = 0x0284c7 // sky-600
+
+// Overlays float just above their face to avoid z-fighting
+const OVERLAY_LIFT = 0.05
+
+// Rotate gizmo snaps to 15° steps; buttons cover exact 90° turns
+const ROTATION_SNAP = THREE.MathUtils.degToRad(15)
+
+// Pointer travel (px) below which a press counts as a click, not an orbit
+const CLICK_TOLERANCE = 4
+
+/**
+ * Interaction mode:
+ * - view: orbit/pan/zoom only
+ * - rotate: rotate gizmo on the model
+ * - layFlat: click a face to rest it on the build plate
+ * - selectPlanes: click a highlighted region to toggle it as an extrusion plane
+ */
+export type SceneMode = 'view' | 'rotate' | 'layFlat' | 'selectPlanes'
+
+export interface SceneHandlers {
+  onOrientationChange?: (orientation: StlOrientation) => void
+  onPlaneClick?: (regionId: string) => void
+}
+
+/**
+ * Imperative three.js scene behind SceneViewer.
+ *
+ * Z is up (build plate is the XY plane at z=0) to match slicers and the
+ * stlOrientation zOffset convention. Renders on demand rather than every frame.
+ */
+export class SceneRenderer {
+  private renderer: THREE.WebGLRenderer
+  private scene = new THREE.Scene()
+  private camera: THREE.PerspectiveCamera
+  private controls: OrbitControls
+  private transformControls: TransformControls
+  private viewHelper: ViewHelper
+  private clock = new THREE.Clock()
+  private resizeObserver: ResizeObserver
+  // modelGroup carries the orientation; the mesh inside is centered on the pivot
+  private modelGroup = new THREE.Group()
+  private model: THREE.Mesh | null = null
+  // Plane overlays are already in world space (oriented mesh coordinates)
+  private overlayGroup = new THREE.Group()
+  // Extruded SVG shapes, also in world space
+  private extrusionGroup = new THREE.Group()
+  private extrusionMaterial = new THREE.MeshStandardMaterial({
+    color: EXTRUSION_COLOR,
+    flatShading: true,
+    metalness: 0.05,
+    roughness: 0.6,
+  })
+  private mesh: StlMesh | null = null
+  private mode: SceneMode = 'view'
+  private handlers: SceneHandlers = {}
+  private raycaster = new THREE.Raycaster()
+  private pointerDown: { x: number; y: number } | null = null
+  private frameRequested = false
+  private container: HTMLElement
+
+  constructor(container: HTMLElement) {
+    this.container = container
+
+    this.renderer = new THREE.WebGLRenderer({ antialias: true })
+    this.renderer.setPixelRatio(window.devicePixelRatio)
+    this.renderer.setClearColor(0xf8fafc) // slate-50
+    this.renderer.autoClear = false
+    container.appendChild(this.renderer.domElement)
+
+    this.camera = new THREE.PerspectiveCamera(45, 1, 0.1, 5000)
+    this.camera.up.set(0, 0, 1)
+    this.camera.position.set(250, -300, 250)
+
+    this.controls = new OrbitControls(this.camera, this.renderer.domElement)
+    this.controls.enableDamping = false
+    this.controls.screenSpacePanning = true
+    this.controls.addEventListener('change', () => this.requestRender())
+
+    this.transformControls = new TransformControls(this.camera, this.renderer.domElement)
+    this.transformControls.setMode('rotate')
+    this.transformControls.setSpace('world')
+    this.transformControls.setRotationSnap(ROTATION_SNAP)
+    this.transformControls.addEventListener('change', () => this.requestRender())
+    this.transformControls.addEventListener('objectChange', this.handleGizmoRotate)
+    this.transformControls.addEventListener('dragging-changed', this.handleGizmoDragging)
+    this.scene.add(this.transformControls.getHelper())
+
+    this.viewHelper = new ViewHelper(this.camera, this.renderer.domElement)
+    this.viewHelper.center = this.controls.target
+    this.renderer.domElement.addEventListener('pointerdown', this.handlePointerDown)
+    this.renderer.domElement.addEventListener('pointerup', this.handlePointerUp)
+
+    this.buildEnvironment()
+    this.scene.add(this.modelGroup)
+    this.scene.add(this.overlayGroup)
+    this.scene.add(this.extrusionGroup)
+
+    this.resizeObserver = new ResizeObserver(() => this.resize())
+    this.resizeObserver.observe(container)
+    this.resize()
+  }
+
+  private buildEnvironment() {
+    this.scene.add(new THREE.HemisphereLight(0xffffff, 0x64748b, 1.6))
+    const sun = new THREE.DirectionalLight(0xffffff, 1.4)
+    sun.position.set(150, -200, 300)
+    this.scene.add(sun)
+
+    // Build plate surface slightly below z=0 so the grid stays visible
+    const plate = new THREE.Mesh(
+      new THREE.PlaneGeometry(BUILD_PLATE_SIZE, BUILD_PLATE_SIZE),
+      new THREE.MeshBasicMaterial({ color: PLATE_COLOR })
+    )
+    plate.position.z = -0.05
+    this.scene.add(plate)
+
+    // GridHelper lies in XZ - rotate into the XY build plate
+    const grid = new THREE.GridHelper(BUILD_PLATE_SIZE, GRID_DIVISIONS, 0x94a3b8, 0xcbd5e1)
+    grid.rotation.x = Math.PI / 2
+    this.scene.add(grid)
+  }
+
+  setHandlers(handlers: SceneHandlers) {
+    this.handlers = handlers
+  }
+
+  /**
+   * Show a parsed STL (raw coordinates) in its default orientation;
+   * follow with setOrientation() for a stored one. Pass null to clear.
+   */
+  setModel(mesh: StlMesh | null) {
+    this.transformControls.detach()
+    this.mesh = mesh
+
+    if (this.model) {
+      this.modelGroup.remove(this.model)
+      this.model.geometry.dispose()
+      ;(this.model.material as THREE.Material).dispose()
+      this.model = null
+    }
+
+    if (mesh) {
+      const geometry = new THREE.BufferGeometry()
+      // Copy positions - translate() below must not touch the shared mesh
+      geometry.setAttribute('position', new THREE.BufferAttribute(mesh.positions.slice(), 3))
+      geometry.setAttribute('normal', new THREE.BufferAttribute(mesh.normals, 3))
+      geometry.setIndex(new THREE.BufferAttribute(mesh.indices, 1))
+      geometry.computeBoundingBox()
+
+      // Center on the pivot - see the convention in lib/orientation
+      const center = geometry.boundingBox!.getCenter(new THREE.Vector3())
+      geometry.translate(-center.x, -center.y, -center.z)
+
+      this.model = new THREE.Mesh(
+        geometry,
+        new THREE.MeshStandardMaterial({
+          color: MODEL_COLOR,
+          flatShading: true,
+          metalness: 0.05,
+          roughness: 0.7,
+        })
+      )
+      this.modelGroup.add(this.model)
+      this.applyOrientation(resolveOrientation(mesh, undefined))
+      this.frameModel()
+      this.updateModeAttachments()
+    }
+
+    this.requestRender()
+  }
+
+  /**
+   * Update orientation without reloading the model.
+   */
+  setOrientation(orientation: StlOrientation | undefined) {
+    if (!this.mesh || this.transformControls.dragging) return
+    this.applyOrientation(resolveOrientation(this.mesh, orientation))
+    this.requestRender()
+  }
+
+  /**
+   * Replace the extrusion plane highlights. Candidates are only drawn
+   * while selecting planes; selected planes are always drawn.
+   */
+  setPlaneOverlays(overlays: PlaneOverlay[]) {
+    this.clearPlaneOverlays()
+
+    for (const overlay of overlays) {
+      const geometry = new THREE.BufferGeometry()
+      geometry.setAttribute('position', new THREE.BufferAttribute(overlay.positions, 3))
+      const material = new THREE.MeshBasicMaterial({
+        color: overlay.selected ? PLANE_SELECTED_COLOR : PLANE_CANDIDATE_COLOR,
+        transparent: true,
+        opacity: overlay.selected ? 0.85 : 0.45,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      })
+      const highlight = new THREE.Mesh(geometry, material)
+      highlight.position.z = OVERLAY_LIFT
+      highlight.userData = { regionId: overlay.id, selected: overlay.selected }
+      this.overlayGroup.add(highlight)
+    }
+
+    this.updateOverlayVisibility()
+    this.requestRender()
+  }
+
+  /**
+   * Replace the extruded shapes shown on top of the model.
+   */
+  setExtrusions(meshes: ExtrusionMesh[]) {
+    for (const child of [...this.extrusionGroup.children]) {
+      this.extrusionGroup.remove(child)
+      ;(child as THREE.Mesh).geometry.dispose()
+    }
+
+    for (const mesh of meshes) {
+      const geometry = new THREE.BufferGeometry()
+      geometry.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3))
+      geometry.setIndex(new THREE.BufferAttribute(mesh.indices, 1))
+      geometry.computeVertexNormals()
+      this.extrusionGroup.add(new THREE.Mesh(geometry, this.extrusionMaterial))
+    }
+
+    this.requestRender()
+  }
+
+  private clearPlaneOverlays() {
+    for (const child of [...this.overlayGroup.children]) {
+      const highlight = child as THREE.Mesh
+      this.overlayGroup.remove(highlight)
+      highlight.geometry.dispose()
+      ;(highlight.material as THREE.Material).dispose()
+    }
+  }
+
+  private updateOverlayVisibility() {
+    for (const child of this.overlayGroup.children) {
+      child.visible = this.mode === 'selectPlanes' || child.userData.selected === true
+    }
+  }
+
+  private applyOrientation(orientation: StlOrientation) {
+    const { x, y, z, w } = orientation.rotation
+    this.modelGroup.quaternion.set(x, y, z, w).normalize()
+    this.modelGroup.position.set(0, 0, orientation.zOffset)
+  }
+
+  private currentOrientation(): StlOrientation {
+    const q = this.modelGroup.quaternion
+    return {
+      rotation: { x: q.x, y: q.y, z: q.z, w: q.w },
+      zOffset: this.modelGroup.position.z,
+    }
+  }
+
+  setMode(mode: SceneMode) {
+    this.mode = mode
+    this.updateModeAttachments()
+    this.updateOverlayVisibility()
+    this.requestRender()
+  }
+
+  private updateModeAttachments() {
+    if (this.mode === 'rotate' && this.model) {
+      this.transformControls.attach(this.modelGroup)
+    } else {
+      this.transformControls.detach()
+    }
+    this.renderer.domElement.style.cursor =
+      this.mode === 'layFlat' || this.mode === 'selectPlanes' ? 'crosshair' : ''
+  }
+
+  // Keep the model resting on the plate while the gizmo turns it
+  private handleGizmoRotate = () => {
+    if (!this.mesh) return
+    const q = this.modelGroup.quaternion
+    this.modelGroup.position.set(0, 0, restingZOffset(this.mesh, { x: q.x, y: q.y, z: q.z, w: q.w }))
+  }
+
+  private handleGizmoDragging = (event: { value: unknown }) => {
+    const dragging = event.value === true
+    this.controls.enabled = !dragging
+    if (!dragging) {
+      this.handlers.onOrientationChange?.(this.currentOrientation())
+    }
+  }
+
+  private setRayFromPointer(event: PointerEvent) {
+    const rect = this.renderer.domElement.getBoundingClientRect()
+    const pointer = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    )
+    this.raycaster.setFromCamera(pointer, this.camera)
+  }
+
+  private pickModelFace(event: PointerEvent): THREE.Intersection | null {
+    if (!this.model) return null
+    this.setRayFromPointer(event)
+    return this.raycaster.intersectObject(this.model, false)[0] ?? null
+  }
+
+  private handlePlaneClick(event: PointerEvent) {
+    this.setRayFromPointer(event)
+    const targets = this.model ? [this.model, ...this.overlayGroup.children] : this.overlayGroup.children
+    const hit = this.raycaster.intersectObjects(targets, false)[0]
+    // Only a visible (unoccluded) region counts - clicks on bare model do nothing
+    const regionId = hit?.object.userData.regionId
+    if (typeof regionId === 'string') {
+      this.handlers.onPlaneClick?.(regionId)
+    }
+  }
+
+  private handleLayFlatClick(event: PointerEvent) {
+    if (!this.mesh) return
+    const hit = this.pickModelFace(event)
+    if (!hit?.face) return
+
+    // Face normal is in mesh space; the group holds the only rotation
+    const worldNormal = hit.face.normal.clone().applyQuaternion(this.modelGroup.quaternion)
+    const rotation = layFlatRotation(this.currentOrientation().rotation, worldNormal)
+    const orientation = withRestingOffset(this.mesh, rotation)
+
+    this.applyOrientation(orientation)
+    this.requestRender()
+    this.handlers.onOrientationChange?.(orientation)
+  }
+
+  /**
+   * Point the camera at the model (or the whole plate when empty).
+   */
+  frameModel() {
+    const box = new THREE.Box3()
+    if (this.model) {
+      box.setFromObject(this.modelGroup)
+    } else {
+      const half = BUILD_PLATE_SIZE / 2
+      box.set(new THREE.Vector3(-half, -half, 0), new THREE.Vector3(half, half, 0))
+    }
+
+    const center = box.getCenter(new THREE.Vector3())
+    const radius = Math.max(box.getSize(new THREE.Vector3()).length() / 2, 10)
+    const distance = radius / Math.sin(THREE.MathUtils.degToRad(this.camera.fov / 2))
+    const direction = new THREE.Vector3(0.55, -0.65, 0.5).normalize()
+
+    this.controls.target.copy(center)
+    this.camera.position.copy(center).addScaledVector(direction, distance)
+    this.camera.near = distance / 100
+    this.camera.far = distance * 100
+    this.camera.updateProjectionMatrix()
+    this.controls.update()
+    this.requestRender()
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    this.pointerDown = { x: event.clientX, y: event.clientY }
+  }
+
+  private handlePointerUp = (event: PointerEvent) => {
+    if (this.viewHelper.handleClick(event)) {
+      this.clock.getDelta()
+      this.requestRender()
+      return
+    }
+
+    const down = this.pointerDown
+    this.pointerDown = null
+    const isClick =
+      down !== null &&
+      Math.hypot(event.clientX - down.x, event.clientY - down.y) <= CLICK_TOLERANCE
+    if (!isClick || event.button !== 0) return
+
+    if (this.mode === 'layFlat') {
+      this.handleLayFlatClick(event)
+    } else if (this.mode === 'selectPlanes') {
+      this.handlePlaneClick(event)
+    }
+  }
+
+  private resize() {
+    const width = this.container.clientWidth
+    const height = this.container.clientHeight
+    if (width === 0 || height === 0) return
+    this.renderer.setSize(width, height)
+    this.camera.aspect = width / height
+    this.camera.updateProjectionMatrix()
+    this.requestRender()
+  }
+
+  requestRender() {
+    if (this.frameRequested) return
+    this.frameRequested = true
+    requestAnimationFrame(this.render)
+  }
+
+  private render = () => {
+    this.frameRequested = false
+
+    // Axis gizmo click animates the camera over several frames
+    if (this.viewHelper.animating) {
+      this.viewHelper.update(this.clock.getDelta())
+      this.requestRender()
+    }
+
+    this.renderer.clear()
+    this.renderer.render(this.scene, this.camera)
+    this.viewHelper.render(this.renderer)
+  }
+
+  dispose() {
+    this.resizeObserver.disconnect()
+    this.renderer.domElement.removeEventListener('pointerdown', this.handlePointerDown)
+    this.renderer.domElement.removeEventListener('pointerup', this.handlePointerUp)
+    this.setModel(null)
+    this.clearPlaneOverlays()
+    this.setExtrusions([])
+    this.extrusionMaterial.dispose()
+    this.transformControls.dispose()
+    this.controls.dispose()
+    this.viewHelper.dispose()
+    this.renderer.dispose()
+    this.renderer.domElement.remove()
+  }
+}
@@ -0,0 +1,30 @@
+import type { ShapeDiagnostic } from '@/lib/svg-diagnostics'
+
+interface SvgDiagnosticsListProps {
+  diagnostics: ShapeDiagnostic[]
+}
+
+const LABELS: Record<ShapeDiagnostic['kind'], string> = {
+  'open-path': 'Open path',
+  'stroke-only': 'Stroke only',
+  text: 'Text',
+  raster: 'Image',
+  'too-small': 'Too small',
+}
+
+/**
+ * "Does your SVG look correct?" list, or nothing when there's nothing to flag.
+ */
+export function SvgDiagnosticsList({ diagnostics }: SvgDiagnosticsListProps) {
+  if (diagnostics.length === 0) return null
+
+  return (
+    <ul className="space-y-1 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1.5">
+      {diagnostics.map((diagnostic, index) => (
+        <li key={index}>
+          <span className="font-medium">{LABELS[diagnostic.kind]}:</span> {diagnostic.message}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,40 @@
+import type { Id } from '@convex/_generated/dataModel'
+import { useSvgShapes } from '@/hooks/useSvgShapes'
+import { svgDiagnostics } from '@/lib/svg-diagnostics'
+import { SvgShapePreview } from './SvgShapePreview'
+
+interface SvgFilePreviewProps {
+  fileId: Id<'svg_files'>
+  className?: string
+}
+
+/**
+ * Library card preview: the stored (sanitized) SVG's extrudable shapes, with
+ * a badge when there's something to check. Diagnostics use scale 1 here;
+ * step 3 re-checks sizes at the actual placement.
+ */
+export function SvgFilePreview({ fileId, className = '' }: SvgFilePreviewProps) {
+  const state = useSvgShapes([fileId]).get(fileId)
+  const result = state?.result ?? null
+  const diagnostics = result ? svgDiagnostics(result) : []
+
+  return (
+    <div className={`relative bg-slate-100 rounded flex items-center justify-center ${className}`}>
+      {result?.bounds ? (
+        <SvgShapePreview result={result} className="w-full h-full p-1" />
+      ) : (
+        <span className="text-xs text-slate-400">
+          {state?.isLoading ? 'Loading...' : state?.error ? 'Failed to load' : 'No shapes'}
+        </span>
+      )}
+      {diagnostics.length > 0 && (
+        <span
+          title={diagnostics.map((d) => d.message).join('\n')}
+          className="absolute top-1 right-1 px-1 rounded text-[10px] font-medium bg-amber-100 text-amber-800 border border-amber-300"
+        >
+          &#9888; {diagnostics.length}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import type { Contour, SvgParseResult } from '@convex/lib/svg'
+
+interface SvgShapePreviewProps {
+  result: SvgParseResult
+  className?: string
+}
+
+function contourPath(contour: Contour): string {
+  return `M${contour.map((p) => `${p.x} ${p.y}`).join('L')}Z`
+}
+
+/**
+ * The parsed shapes exactly as they will be extruded (not the browser's
+ * rendering of the raw file): filled outlines with holes, nothing else.
+ */
+export function SvgShapePreview({ result, className = '' }: SvgShapePreviewProps) {
+  const { bounds } = result
+  if (!bounds) return null
+
+  // Pad so edge strokes aren't cut off, and keep tiny drawings visible
+  const width = bounds.maxX - bounds.minX
+  const height = bounds.maxY - bounds.minY
+  const pad = Math.max(width, height, 1e-6) * 0.05
+  const viewBox = [bounds.minX - pad, bounds.minY - pad, width + 2 * pad, height + 2 * pad].join(' ')
+
+  return (
+    <svg viewBox={viewBox} className={className} preserveAspectRatio="xMidYMid meet">
+      {result.shapes.map((shape) => (
+        <path
+          key={shape.index}
+          d={[shape.outer, ...shape.holes].map(contourPath).join('')}
+          fillRule="evenodd"
+          className="fill-emerald-600/80 stroke-emerald-800"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  )
+}
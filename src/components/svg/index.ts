@@ -0,0 +1,3 @@
+export { SvgDiagnosticsList } from './SvgDiagnosticsList'
+export { SvgFilePreview } from './SvgFilePreview'
+export { SvgShapePreview } from './SvgShapePreview'
@@ -0,0 +1,225 @@
+import { useEffect, useReducer } from 'react'
+import { useConvexAuth, useMutation, useQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import type { Id } from '@convex/_generated/dataModel'
+import { useSession } from './useSession'
+import { authClient } from '@/lib/auth-client'
+import {
+  GOOGLE_SIGN_IN_TIMEOUT_MS,
+  INITIAL_AUTH_FLOW_STATE,
+  authFlowReducer,
+  authPhase,
+  hasGoogleSignInStalled,
+  isGoogleSignInSettled,
+  type AppUser,
+  type AuthFlowError,
+  type AuthInputs,
+  type AuthPhase,
+} from '@/lib/auth-flow'
+import { safeSessionGet, safeSessionRemove } from '@/lib/storage'
+
+// Set by AuthModal before redirecting to Google / for backer sign up
+const AUTH_PENDING_KEY = 'vp_auth_pending'
+const BACKER_ID_KEY = 'vp_backer_id'
+const BACKER_TOKEN_KEY = 'vp_backer_token'
+
+interface AuthSuccessResult extends AppUser {
+  sessionId: string
+}
+
+interface UseAuthFlowResult {
+  phase: AuthPhase
+  isLoading: boolean
+  isAuthenticated: boolean
+  // Null unless signed in, and not kicked
+  appUser: AppUser | null
+  sessionId: string | null
+  // Signed in with a validated session - safe to load user data
+  isSessionReady: boolean
+  isSigningOut: boolean
+  ensureError: string | null
+  googleError: AuthFlowError | null
+  retryEnsure: () => void
+  // afterSignOut runs in the same update as the reset (e.g. to navigate away)
+  signOut: (afterSignOut?: () => void) => Promise<void>
+  handleAuthSuccess: (result: AuthSuccessResult) => void
+  dismissGoogleError: () => void
+  clearKicked: () => void
+}
+
+/**
+ * Runs sign-in and the single-session rules on top of lib/auth-flow: creates
+ * the app user and session after sign-in (e.g. after the Google redirect),
+ * times out a Google sign-in that never came back, and cleans up the
+ * sessionStorage hand-offs.
+ */
+export function useAuthFlow(): UseAuthFlowResult {
+  const { isLoading, isAuthenticated } = useConvexAuth()
+  const [state, dispatch] = useReducer(authFlowReducer, INITIAL_AUTH_FLOW_STATE)
+
+  const {
+    sessionId,
+    isSessionValid,
+    isDuplicateTab,
+    wasKicked,
+    clearKicked,
+    setSessionId,
+    clearSession,
+  } = useSession(isAuthenticated)
+
+  const ensureAppUser = useMutation(api.users.ensureAppUser)
+  const appUserQuery = useQuery(
+    api.users.getCurrentAppUser,
+    isAuthenticated && sessionId ? {} : "skip"
+  )
+
+  const inputs: AuthInputs = {
+    isLoading,
+    isAuthenticated,
+    sessionId,
+    isSessionValid,
+    isDuplicateTab,
+    wasKicked,
+    isAppUserLoading: isAuthenticated && !!sessionId && appUserQuery === undefined,
+  }
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    if (safeSessionGet(AUTH_PENDING_KEY) === 'true') {
+      dispatch({ type: 'GOOGLE_PENDING' })
+    }
+  }, [])
+
+  // Carry out the sessionStorage cleanup the reducer asked for
+  useEffect(() => {
+    if (!state.clearAuthPending && !state.clearBackerTokens) return
+    if (state.clearAuthPending) {
+      safeSessionRemove(AUTH_PENDING_KEY)
+    }
+    if (state.clearBackerTokens) {
+      safeSessionRemove(BACKER_ID_KEY)
+      safeSessionRemove(BACKER_TOKEN_KEY)
+    }
+    dispatch({ type: 'STORAGE_CLEARED' })
+  }, [state.clearAuthPending, state.clearBackerTokens])
+
+  // Create app user and session if authenticated but no session exists
+  useEffect(() => {
+    if (!isAuthenticated || sessionId || wasKicked) return
+    let isActive = true
+
+    // Check for backer ID from crowdfunding sign up flow (stored before OAuth redirect)
+    const storedBackerId = safeSessionGet(BACKER_ID_KEY)
+    const storedBackerToken = safeSessionGet(BACKER_TOKEN_KEY)
+    const crowdfundingBackerId = storedBackerId
+      ? (storedBackerId as Id<"crowdfunding_backers">)
+      : undefined
+    const crowdfundingBackerToken = storedBackerToken ? String(storedBackerToken) : undefined
+
+    // No session - need to create one (e.g., after Google OAuth redirect)
+    dispatch({ type: 'ENSURE_STARTED', withBackerClaim: !!crowdfundingBackerId })
+
+    ensureAppUser({ crowdfundingBackerId, crowdfundingBackerToken })
+      .then((result) => {
+        if (!isActive) return
+        setSessionId(result.sessionId)
+        dispatch({
+          type: 'ENSURE_SUCCEEDED',
+          user: {
+            userId: result.userId,
+            email: result.email,
+            name: result.name,
+            isAdmin: result.isAdmin,
+          },
+        })
+      })
+      .catch((err) => {
+        console.error('Failed to establish session:', err)
+        dispatch({
+          type: 'ENSURE_FAILED',
+          message: err instanceof Error ? err.message : 'Unable to finish sign-in. Please try again.',
+        })
+      })
+    return () => {
+      isActive = false
+    }
+  }, [isAuthenticated, sessionId, wasKicked, ensureAppUser, setSessionId, state.ensureAttempt])
+
+  useEffect(() => {
+    if (!isAuthenticated || wasKicked) {
+      dispatch({ type: 'APP_USER_LOADED', user: null })
+      return
+    }
+    if (appUserQuery === undefined) return
+    dispatch({
+      type: 'APP_USER_LOADED',
+      user: appUserQuery && {
+        userId: appUserQuery.userId,
+        email: appUserQuery.email,
+        name: appUserQuery.name,
+        isAdmin: appUserQuery.isAdmin,
+      },
+    })
+  }, [appUserQuery, isAuthenticated, wasKicked])
+
+  const isGoogleSettled = isGoogleSignInSettled(inputs)
+  useEffect(() => {
+    if (!state.googlePending || !isGoogleSettled) return
+    dispatch({ type: 'GOOGLE_COMPLETED' })
+  }, [state.googlePending, isGoogleSettled])
+
+  // Restarts whenever stalled changes, so the reducer sees the current value
+  const hasGoogleStalled = hasGoogleSignInStalled(inputs)
+  useEffect(() => {
+    if (!state.googlePending) return
+    const timeout = window.setTimeout(() => {
+      dispatch({ type: 'GOOGLE_TIMER_FIRED', stalled: hasGoogleStalled })
+    }, GOOGLE_SIGN_IN_TIMEOUT_MS)
+    return () => window.clearTimeout(timeout)
+  }, [state.googlePending, hasGoogleStalled])
+
+  const signOut = async (afterSignOut?: () => void) => {
+    if (state.isSigningOut) return
+    dispatch({ type: 'SIGN_OUT_STARTED' })
+    try {
+      await authClient.signOut()
+    } catch (err) {
+      console.error('Sign out failed:', err)
+    } finally {
+      clearSession()
+      dispatch({ type: 'SIGN_OUT_FINISHED' })
+      afterSignOut?.()
+    }
+  }
+
+  // Sign-in from the modal already has its session
+  const handleAuthSuccess = (result: AuthSuccessResult) => {
+    setSessionId(result.sessionId)
+    dispatch({
+      type: 'SIGNED_IN',
+      user: {
+        userId: result.userId,
+        email: result.email,
+        name: result.name,
+        isAdmin: result.isAdmin,
+      },
+    })
+  }
+
+  return {
+    phase: authPhase(state, inputs),
+    isLoading,
+    isAuthenticated,
+    appUser: wasKicked || !isAuthenticated ? null : state.appUser,
+    sessionId,
+    isSessionReady: isAuthenticated && !wasKicked && isSessionValid === true && !!state.appUser,
+    isSigningOut: state.isSigningOut,
+    ensureError: state.ensureError,
+    googleError: state.googleError,
+    retryEnsure: () => dispatch({ type: 'ENSURE_RETRIED' }),
+    signOut,
+    handleAuthSuccess,
+    dismissGoogleError: () => dispatch({ type: 'GOOGLE_ERROR_DISMISSED' }),
+    clearKicked,
+  }
+}
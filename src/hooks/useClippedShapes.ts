@@ -0,0 +1,22 @@
+import { useMemo } from 'react'
+import type { Id } from '@convex/_generated/dataModel'
+import type { SvgShapesState } from '@/hooks/useSvgShapes'
+import { clipPlaneShapes, type PlaneClipResult } from '@/lib/clipping'
+import type { ExtrusionPlane } from '@/lib/planes'
+
+/**
+ * Clipped SVG shapes for every plane (same order as planes).
+ * Entries are null for planes without a loaded SVG.
+ */
+export function useClippedShapes(
+  planes: ExtrusionPlane[],
+  svgShapes: Map<Id<'svg_files'>, SvgShapesState>
+): (PlaneClipResult | null)[] {
+  return useMemo(
+    () =>
+      planes.map((plane) =>
+        clipPlaneShapes(plane, plane.svgFileId ? svgShapes.get(plane.svgFileId)?.result : null)
+      ),
+    [planes, svgShapes]
+  )
+}
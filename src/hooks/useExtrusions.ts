@@ -0,0 +1,19 @@
+import { useMemo } from 'react'
+import type { PlaneClipResult } from '@/lib/clipping'
+import { buildExtrusions, type ExtrusionMesh } from '@/lib/extrusion'
+import type { ExtrusionPlane } from '@/lib/planes'
+
+/**
+ * Extruded meshes for all clipped shapes (see lib/extrusion).
+ * Pass enabled=false to skip the work while nothing shows them.
+ */
+export function useExtrusions(
+  planes: ExtrusionPlane[],
+  clipResults: (PlaneClipResult | null)[],
+  enabled: boolean
+): ExtrusionMesh[] {
+  return useMemo(
+    () => (enabled ? buildExtrusions(planes, clipResults) : []),
+    [planes, clipResults, enabled]
+  )
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import { useMutation } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import { ABANDONED_UPLOAD_HOLD_MS, type UploadKind } from '@convex/lib/limits'
+import { UploadError, uploadFile, validateUpload } from '@/lib/upload'
+
+interface CommitArgs {
+  blobId: string
+  fileName: string
+  name: string
+  fileSize: number
+  isBase: false
+}
+
+/**
+ * Validate -> /upload -> commit for a user's own file.
+ * progress is 0-1 while a file is in flight, null otherwise.
+ *
+ * Re-uploading a file the user already has returns the existing file's id.
+ * A failed commit abandons its upload (its slot frees up after
+ * ABANDONED_UPLOAD_HOLD_MS; the blob is GC'd later). If /upload refuses
+ * because too many earlier uploads are unfinished (e.g. a crashed tab),
+ * hasStuckUploads is set and cancelStuckUploads abandons them.
+ */
+export function useLibraryUpload<TId>(kind: UploadKind, commit: (args: CommitArgs) => Promise<TId>) {
+  const [progress, setProgress] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [hasStuckUploads, setHasStuckUploads] = useState(false)
+  const abandonPendingUploads = useMutation(api.uploads.abandonPendingUploads)
+
+  const upload = async (file: File): Promise<TId | null> => {
+    setError(null)
+    setHasStuckUploads(false)
+    let blobId: string | null = null
+    try {
+      await validateUpload(file, kind)
+      setProgress(0)
+      const uploaded = await uploadFile(file, kind, setProgress)
+      // Already in the library (or a base sample): /upload returned its id
+      if ('existingFileId' in uploaded) return uploaded.existingFileId as TId
+      blobId = uploaded.blobId
+      return await commit({
+        blobId,
+        fileName: file.name,
+        name: file.name.replace(new RegExp(`\\.${kind}$`, 'i'), ''),
+        fileSize: file.size,
+        isBase: false,
+      })
+    } catch (err) {
+      if (blobId) {
+        // Uploaded but not committed - don't leave it holding a slot for an hour
+        abandonPendingUploads({ blobId }).catch(() => {})
+      }
+      setHasStuckUploads(err instanceof UploadError && err.code === 'pending_upload_limit')
+      setError(err instanceof Error ? err.message : 'Upload failed')
+      return null
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const cancelStuckUploads = async () => {
+    try {
+      const { released } = await abandonPendingUploads({})
+      setError(
+        released > 0
+          ? `Uploads cancelled. You can upload again in ${ABANDONED_UPLOAD_HOLD_MS / 60000} minutes.`
+          : null
+      )
+      setHasStuckUploads(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel uploads')
+    }
+  }
+
+  return { upload, progress, error, hasStuckUploads, cancelStuckUploads }
+}
@@ -0,0 +1,52 @@
+import { useMemo } from 'react'
+import type { StlMesh } from '@convex/lib/stl'
+import { orientMesh, resolveOrientation, type StlOrientation } from '@/lib/orientation'
+import {
+  detectPlanarRegions,
+  findPlaneForRegion,
+  regionPositions,
+  type ExtrusionPlane,
+  type PlanarRegion,
+  type PlaneOverlay,
+} from '@/lib/planes'
+
+interface UsePlanarRegionsResult {
+  regions: PlanarRegion[]
+  overlays: PlaneOverlay[]
+}
+
+const EMPTY: UsePlanarRegionsResult = { regions: [], overlays: [] }
+
+/**
+ * Detect candidate extrusion planes on the oriented model and build the
+ * scene overlays that show which ones are selected.
+ * Pass enabled=false to skip detection while the planes aren't shown.
+ */
+export function usePlanarRegions(
+  mesh: StlMesh | null,
+  orientation: StlOrientation | undefined,
+  planes: ExtrusionPlane[],
+  enabled: boolean
+): UsePlanarRegionsResult {
+  const detected = useMemo(() => {
+    if (!mesh || !enabled) return null
+    const oriented = orientMesh(mesh, resolveOrientation(mesh, orientation))
+    const regions = detectPlanarRegions(oriented)
+    return {
+      regions,
+      positions: regions.map((region) => regionPositions(oriented, region)),
+    }
+  }, [mesh, orientation, enabled])
+
+  return useMemo(() => {
+    if (!detected) return EMPTY
+    return {
+      regions: detected.regions,
+      overlays: detected.regions.map((region, i) => ({
+        id: region.id,
+        positions: detected.positions[i],
+        selected: findPlaneForRegion(planes, region) >= 0,
+      })),
+    }
+  }, [detected, planes])
+}
@@ -0,0 +1,383 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import type { Id } from '@convex/_generated/dataModel'
+import {
+  clearDraft,
+  hasProjectContent,
+  projectDataKey,
+  readDraft,
+  writeCurrentProjectId,
+  writeDraft,
+  type ProjectData,
+  type ProjectDraft,
+} from '@/lib/project-draft'
+import {
+  EMPTY_UNDO_STATE,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+  type EditInfo,
+  type UndoState,
+} from '@/lib/undo-stack'
+
+export type { ProjectData }
+
+const EMPTY_PROJECT: ProjectData = {
+  stlFileId: undefined,
+  stlOrientation: undefined,
+  extrusionPlanes: [],
+}
+
+// The data and its undo stack change together, so edits record against the
+// latest data even when several land before a re-render (e.g. a drag)
+interface EditState {
+  data: ProjectData
+  undo: UndoState
+}
+
+const EMPTY_EDIT_STATE: EditState = { data: EMPTY_PROJECT, undo: EMPTY_UNDO_STATE }
+
+function projectlessDraftOffer(draft: ProjectDraft | null): ProjectDraft | null {
+  return draft && !draft.projectId && hasProjectContent(draft.data) ? draft : null
+}
+
+// Quiet period after the last edit before autosaving
+const AUTOSAVE_DELAY_MS = 1500
+
+interface UseProjectResult {
+  projectId: Id<'projects'> | null // once loaded
+  name: string | null
+  data: ProjectData
+  isSaving: boolean
+  isDirty: boolean
+  lastSavedAt: number | null
+  error: string | null
+  // A local draft newer than the stored project, waiting for restore/discard
+  draftOffer: ProjectDraft | null
+  createProject: (name: string) => Promise<void>
+  saveProject: () => Promise<void>
+  // Every edit is undoable; edit names it (and coalesces drags)
+  updateData: (patch: Partial<ProjectData>, edit: EditInfo) => void
+  undoLabel: string | null // null: nothing to undo
+  redoLabel: string | null
+  undo: () => void
+  redo: () => void
+  restoreVersion: (versionId: Id<'project_versions'>) => Promise<void>
+  restoreDraft: () => void
+  discardDraft: () => void
+  // Save edits still waiting for autosave (e.g. before signing out)
+  flush: () => Promise<void>
+  // Signing out: forget the project and its undo history
+  reset: () => void
+}
+
+/**
+ * Holds the project being edited.
+ *
+ * Edits autosave to the projects backend after AUTOSAVE_DELAY_MS; until then
+ * (and while signed out) they're kept as a local draft. On load, a draft that
+ * is newer than the stored project is offered via draftOffer.
+ * Manual saves always add a version to the history, autosaves periodically
+ * (the backend decides - see projects.update).
+ *
+ * Edits go through an undo stack (lib/undo-stack) that patches this same
+ * data, so an undo is just another change for autosave and the draft.
+ * Opening or restoring a project starts a fresh stack.
+ *
+ * Edits stay put when enabled drops (e.g. kicked by another session) so they
+ * can still be saved; sign-out flushes, then resets so the next account
+ * starts empty.
+ *
+ * Drafts are kept per user (lib/project-draft): the last signed-in user owns
+ * them until sign-out, so a kicked session's draft stays theirs. Signing in
+ * from signed out carries the edits so far into the account.
+ *
+ * enabled: signed in with a valid session - no loading or saving otherwise.
+ * userId: the signed-in app user, null when signed out or kicked.
+ * projectId: the project to edit (from the URL). openProject is called with
+ * a newly created project, or null when the requested one doesn't exist.
+ */
+export function useProject(
+  enabled: boolean,
+  userId: string | null,
+  projectId: Id<'projects'> | null,
+  openProject: (projectId: Id<'projects'> | null) => void
+): UseProjectResult {
+  const [loadedId, setLoadedId] = useState<Id<'projects'> | null>(null)
+  const [edits, setEdits] = useState<EditState>(EMPTY_EDIT_STATE)
+  const { data, undo: undoState } = edits
+  // Key of the data as last stored on the server (null: nothing stored yet)
+  const [savedKey, setSavedKey] = useState<string | null>(null)
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [draftOwner, setDraftOwner] = useState(userId)
+  // The draft found at startup (or sign-in); a project-less one is offered
+  // right away
+  const [initialDraft, setInitialDraft] = useState(() => readDraft(userId))
+  const [draftOffer, setDraftOffer] = useState(() => projectlessDraftOffer(initialDraft))
+
+  // Signed in: switch to this user's draft
+  if (userId && userId !== draftOwner) {
+    if (draftOwner) {
+      // Another account's work (its session was kicked) - it stays in
+      // that account's draft
+      setLoadedId(null)
+      setEdits(EMPTY_EDIT_STATE)
+      setSavedKey(null)
+      setLastSavedAt(null)
+      setError(null)
+    }
+    const draft = readDraft(userId)
+    setDraftOwner(userId)
+    setInitialDraft(draft)
+    setDraftOffer(projectlessDraftOffer(draft))
+  }
+
+  const createMutation = useMutation(api.projects.create)
+  const updateMutation = useMutation(api.projects.update)
+  const restoreVersionMutation = useMutation(api.projects.restoreVersion)
+  const serverProject = useQuery(
+    api.projects.get,
+    enabled && projectId ? { projectId } : 'skip'
+  )
+
+  const isLoaded = !!projectId && loadedId === projectId
+  const isDirty = savedKey === null ? hasProjectContent(data) : projectDataKey(data) !== savedKey
+
+  // Adopt the stored project once, when a different project is opened
+  useEffect(() => {
+    if (!serverProject || serverProject._id === loadedId) return
+    // Left the previous project (link, back/forward) with unsaved edits.
+    // If this fails they're still in the local draft.
+    if (loadedId && isDirty) {
+      updateMutation({
+        projectId: loadedId,
+        stlFileId: data.stlFileId ?? null,
+        stlOrientation: data.stlOrientation ?? null,
+        extrusionPlanes: data.extrusionPlanes,
+      }).catch((err) => console.error('Failed to save previous project:', err))
+    }
+    const stored: ProjectData = {
+      stlFileId: serverProject.stlFileId,
+      stlOrientation: serverProject.stlOrientation,
+      extrusionPlanes: serverProject.extrusionPlanes,
+    }
+    setLoadedId(serverProject._id)
+    setEdits({ data: stored, undo: EMPTY_UNDO_STATE })
+    setSavedKey(projectDataKey(stored))
+    setLastSavedAt(serverProject.updatedAt)
+
+    if (
+      initialDraft?.projectId === serverProject._id &&
+      initialDraft.savedAt > serverProject.updatedAt &&
+      projectDataKey(initialDraft.data) !== projectDataKey(stored)
+    ) {
+      setDraftOffer(initialDraft)
+    }
+  }, [serverProject, loadedId, initialDraft, isDirty, data, updateMutation])
+
+  // Signed-out edits now belong to the account (the draft effect writes
+  // them under it) - don't leave a copy for the next signed-out visitor
+  useEffect(() => {
+    if (draftOwner) clearDraft(null)
+  }, [draftOwner])
+
+  // Reopened after a reload
+  useEffect(() => {
+    writeCurrentProjectId(projectId)
+  }, [projectId])
+
+  // The requested project is gone (deleted, another user's, or a bad link)
+  useEffect(() => {
+    if (serverProject !== null || !projectId) return
+    openProject(null)
+  }, [serverProject, projectId, openProject])
+
+  // Keep unsaved edits locally. Not while a draft is on offer - it would
+  // overwrite the one being asked about.
+  useEffect(() => {
+    if (draftOffer || !isDirty) return
+    if (projectId && !isLoaded) return
+    writeDraft(draftOwner, projectId, data)
+  }, [data, draftOwner, projectId, isLoaded, isDirty, draftOffer])
+
+  const save = useCallback(async (
+    id: Id<'projects'>,
+    toSave: ProjectData,
+    snapshot: 'manual' | 'autosave'
+  ) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await updateMutation({
+        projectId: id,
+        stlFileId: toSave.stlFileId ?? null,
+        stlOrientation: toSave.stlOrientation ?? null,
+        extrusionPlanes: toSave.extrusionPlanes,
+        snapshot,
+      })
+      const key = projectDataKey(toSave)
+      setSavedKey(key)
+      setLastSavedAt(Date.now())
+      // Drop the draft unless it has newer edits than what was just saved
+      const draft = readDraft(draftOwner)
+      if (draft?.projectId === id && projectDataKey(draft.data) === key) {
+        clearDraft(draftOwner)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save project')
+    } finally {
+      setIsSaving(false)
+    }
+  }, [updateMutation, draftOwner])
+
+  // Autosave once edits settle. Paused after a failure until the next edit
+  // or a manual save, so a persistent error doesn't retry in a loop.
+  useEffect(() => {
+    if (!enabled || !projectId || !isLoaded || !isDirty || isSaving || draftOffer || error) return
+    const timer = window.setTimeout(() => {
+      void save(projectId, data, 'autosave')
+    }, AUTOSAVE_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [enabled, projectId, isLoaded, isDirty, isSaving, draftOffer, error, data, save])
+
+  const createProject = async (name: string) => {
+    setError(null)
+    try {
+      // Edits to an open project are stored there first, and the new project
+      // starts empty. Without one, the edits so far become the new project.
+      const isProjectOpen = !!projectId && isLoaded
+      if (isProjectOpen && isDirty) {
+        await updateMutation({
+          projectId,
+          stlFileId: data.stlFileId ?? null,
+          stlOrientation: data.stlOrientation ?? null,
+          extrusionPlanes: data.extrusionPlanes,
+        })
+        if (readDraft(draftOwner)?.projectId === projectId) {
+          clearDraft(draftOwner)
+        }
+      }
+      const initial = isProjectOpen ? EMPTY_PROJECT : data
+      const id = await createMutation({ name, stlFileId: initial.stlFileId })
+      // The new project stores only the model so far; autosave writes the rest
+      setLoadedId(id)
+      setSavedKey(projectDataKey({ ...EMPTY_PROJECT, stlFileId: initial.stlFileId }))
+      if (isProjectOpen) {
+        setEdits(EMPTY_EDIT_STATE)
+        setLastSavedAt(null)
+      }
+      openProject(id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create project')
+    }
+  }
+
+  const saveProject = async () => {
+    if (!projectId || !isLoaded || isSaving) return
+    await save(projectId, data, 'manual')
+  }
+
+  const restoreVersion = async (versionId: Id<'project_versions'>) => {
+    if (!projectId || !isLoaded || isSaving) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      // Store unsaved edits first so the pre-restore snapshot includes them
+      if (isDirty) {
+        await updateMutation({
+          projectId,
+          stlFileId: data.stlFileId ?? null,
+          stlOrientation: data.stlOrientation ?? null,
+          extrusionPlanes: data.extrusionPlanes,
+        })
+      }
+      await restoreVersionMutation({ versionId })
+      // Re-adopt the (now restored) stored project
+      setLoadedId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateData = (patch: Partial<ProjectData>, edit: EditInfo) => {
+    setError(null)
+    const now = Date.now()
+    setEdits((prev) => ({
+      data: { ...prev.data, ...patch },
+      undo: recordEdit(prev.undo, prev.data, patch, edit, now),
+    }))
+  }
+
+  // Stable, so the keyboard shortcut listener isn't re-added every render
+  const undo = useCallback(() => {
+    setEdits((prev) => {
+      const step = undoEdit(prev.undo)
+      return step ? { data: { ...prev.data, ...step.patch }, undo: step.state } : prev
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    setEdits((prev) => {
+      const step = redoEdit(prev.undo)
+      return step ? { data: { ...prev.data, ...step.patch }, undo: step.state } : prev
+    })
+  }, [])
+
+  const restoreDraft = () => {
+    if (!draftOffer) return
+    updateData(draftOffer.data, { label: 'Restore draft' })
+    setDraftOffer(null)
+  }
+
+  const discardDraft = () => {
+    clearDraft(draftOwner)
+    setDraftOffer(null)
+  }
+
+  const flush = async () => {
+    if (!enabled || !projectId || !isLoaded || !isDirty) return
+    await save(projectId, data, 'autosave')
+  }
+
+  // The user's draft stays under their key (it's only left if flush didn't
+  // store everything), for their next sign-in on this browser
+  const reset = () => {
+    writeCurrentProjectId(null)
+    setDraftOwner(null)
+    setLoadedId(null)
+    setEdits(EMPTY_EDIT_STATE)
+    setSavedKey(null)
+    setLastSavedAt(null)
+    setError(null)
+    setInitialDraft(null)
+    setDraftOffer(null)
+  }
+
+  return {
+    projectId: isLoaded ? projectId : null,
+    name: serverProject?.name ?? null,
+    data,
+    isSaving,
+    isDirty,
+    lastSavedAt,
+    error,
+    draftOffer,
+    createProject,
+    saveProject,
+    updateData,
+    undoLabel: undoState.past[undoState.past.length - 1]?.label ?? null,
+    redoLabel: undoState.future[undoState.future.length - 1]?.label ?? null,
+    undo,
+    redo,
+    restoreVersion,
+    restoreDraft,
+    discardDraft,
+    flush,
+    reset,
+  }
+}
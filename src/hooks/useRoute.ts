@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react'
+import { parseRoute, routePath, type Route } from '@/lib/routes'
+
+interface NavigateOptions {
+  replace?: boolean // redirects - don't leave an entry to go back to
+}
+
+interface UseRouteResult {
+  route: Route
+  navigate: (route: Route, options?: NavigateOptions) => void
+}
+
+/**
+ * The current route, kept in the browser URL (history API), so refresh,
+ * back/forward and shared links land on the same page, project and step.
+ */
+export function useRoute(): UseRouteResult {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname))
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname))
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  const navigate = useCallback((next: Route, options?: NavigateOptions) => {
+    const path = routePath(next)
+    if (path !== window.location.pathname) {
+      if (options?.replace) {
+        window.history.replaceState(null, '', path)
+      } else {
+        window.history.pushState(null, '', path)
+      }
+    }
+    setRoute(next)
+  }, [])
+
+  return { route, navigate }
+}
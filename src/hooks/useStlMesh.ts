@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import type { Id } from '@convex/_generated/dataModel'
+import { parseStl, type StlParseResult } from '@convex/lib/stl'
+import { fetchFsFile } from '@/lib/fs-client'
+
+interface UseStlMeshResult {
+  result: StlParseResult | null
+  isLoading: boolean
+  error: string | null
+}
+
+/**
+ * Download and parse an STL from the library (base sample or user file).
+ */
+export function useStlMesh(fileId: Id<'stl_files'> | undefined): UseStlMeshResult {
+  const file = useQuery(api.stlFiles.getFile, fileId ? { fileId } : 'skip')
+  const [loaded, setLoaded] = useState<{ blobId: string; result: StlParseResult } | null>(null)
+  const [failed, setFailed] = useState<{ blobId: string; error: string } | null>(null)
+
+  const blobId = file?.blobId
+  const path = file?.path
+
+  useEffect(() => {
+    if (!blobId || !path) return
+    const controller = new AbortController()
+
+    fetchFsFile({ blobId, path }, controller.signal)
+      .then((data) => {
+        setLoaded({ blobId, result: parseStl(data) })
+        setFailed(null)
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        console.error('Failed to load STL:', err)
+        setFailed({
+          blobId,
+          error: err instanceof Error ? err.message : 'Failed to load model',
+        })
+      })
+
+    return () => controller.abort()
+  }, [blobId, path])
+
+  if (!fileId) {
+    return { result: null, isLoading: false, error: null }
+  }
+  if (file === null) {
+    return { result: null, isLoading: false, error: 'Model not found' }
+  }
+  if (failed && failed.blobId === blobId) {
+    return { result: null, isLoading: false, error: failed.error }
+  }
+  if (loaded && loaded.blobId === blobId) {
+    return { result: loaded.result, isLoading: false, error: null }
+  }
+  return { result: null, isLoading: true, error: null }
+}
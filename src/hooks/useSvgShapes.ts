@@ -0,0 +1,83 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import type { Id } from '@convex/_generated/dataModel'
+import { parseSvg, type SvgParseResult } from '@convex/lib/svg'
+import { fetchFsFile } from '@/lib/fs-client'
+
+export interface SvgShapesState {
+  result: SvgParseResult | null
+  isLoading: boolean
+  error: string | null
+}
+
+type Parsed = { result: SvgParseResult } | { error: string }
+
+const NOT_FOUND: SvgShapesState = { result: null, isLoading: false, error: 'SVG not found' }
+const LOADING: SvgShapesState = { result: null, isLoading: true, error: null }
+
+/**
+ * Download and parse the SVGs placed on a project's planes.
+ * Returns state per file id; parsed results are cached by blobId.
+ */
+export function useSvgShapes(fileIds: Id<'svg_files'>[]): Map<Id<'svg_files'>, SvgShapesState> {
+  const uniqueIds = [...new Set(fileIds)].sort()
+  const idsKey = uniqueIds.join(',')
+  const files = useQuery(api.svgFiles.getFiles, uniqueIds.length > 0 ? { fileIds: uniqueIds } : 'skip')
+  const [parsed, setParsed] = useState<Record<string, Parsed>>({})
+  const requested = useRef(new Set<string>())
+  const controllerRef = useRef(new AbortController())
+
+  // Downloads outlive changes to the file list; only unmounting cancels them
+  useEffect(() => {
+    const requestedBlobs = requested.current
+    return () => {
+      controllerRef.current.abort()
+      controllerRef.current = new AbortController()
+      requestedBlobs.clear()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!files) return
+    const controller = controllerRef.current
+
+    for (const { blobId, path } of files) {
+      if (requested.current.has(blobId)) continue
+      requested.current.add(blobId)
+
+      fetchFsFile({ blobId, path }, controller.signal)
+        .then((data) => {
+          const result = parseSvg(new TextDecoder().decode(data))
+          setParsed((prev) => ({ ...prev, [blobId]: { result } }))
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return
+          console.error('Failed to load SVG:', err)
+          setParsed((prev) => ({
+            ...prev,
+            [blobId]: { error: err instanceof Error ? err.message : 'Failed to load SVG' },
+          }))
+        })
+    }
+  }, [files])
+
+  // Stable between renders so geometry derived from it can be memoized
+  return useMemo(() => {
+    const states = new Map<Id<'svg_files'>, SvgShapesState>()
+    for (const fileId of idsKey ? (idsKey.split(',') as Id<'svg_files'>[]) : []) {
+      const file = files?.find((f) => f._id === fileId)
+      const entry = file ? parsed[file.blobId] : undefined
+      if (files === undefined || (file && !entry)) {
+        states.set(fileId, LOADING)
+      } else if (!file) {
+        states.set(fileId, NOT_FOUND)
+      } else if (entry && 'error' in entry) {
+        states.set(fileId, { result: null, isLoading: false, error: entry.error })
+      } else if (entry) {
+        states.set(fileId, { result: entry.result, isLoading: false, error: null })
+      }
+    }
+    return states
+  }, [idsKey, files, parsed])
+}
@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest'
+import {
+  INITIAL_AUTH_FLOW_STATE,
+  authFlowReducer,
+  authPhase,
+  hasGoogleSignInStalled,
+  isGoogleSignInSettled,
+  type AppUser,
+  type AuthFlowEvent,
+  type AuthFlowState,
+  type AuthInputs,
+} from '@/lib/auth-flow'
+
+const USER: AppUser = { userId: 'u1', email: 'maker@example.com', name: 'Maker', isAdmin: false }
+
+const SIGNED_OUT: AuthInputs = {
+  isLoading: false,
+  isAuthenticated: false,
+  sessionId: null,
+  isSessionValid: undefined,
+  isDuplicateTab: false,
+  wasKicked: false,
+  isAppUserLoading: false,
+}
+
+const SIGNED_IN: AuthInputs = {
+  ...SIGNED_OUT,
+  isAuthenticated: true,
+  sessionId: 's1',
+  isSessionValid: true,
+}
+
+function run(events: AuthFlowEvent[], state: AuthFlowState = INITIAL_AUTH_FLOW_STATE) {
+  return events.reduce(authFlowReducer, state)
+}
+
+describe('authFlowReducer', () => {
+  describe('sign-in', () => {
+    it('signs in from the modal', () => {
+      const state = run([{ type: 'SIGNED_IN', user: USER }])
+      expect(state.appUser).toEqual(USER)
+      expect(authPhase(state, SIGNED_IN)).toBe('signed-in')
+    })
+
+    it('resolves while the app user and session are created', () => {
+      const state = run([{ type: 'ENSURE_STARTED', withBackerClaim: false }])
+      expect(state.isEnsuringUser).toBe(true)
+      expect(authPhase(state, { ...SIGNED_IN, sessionId: null, isSessionValid: undefined })).toBe(
+        'resolving'
+      )
+
+      const done = run([{ type: 'ENSURE_SUCCEEDED', user: USER }], state)
+      expect(done.isEnsuringUser).toBe(false)
+      expect(done.appUser).toEqual(USER)
+      expect(authPhase(done, SIGNED_IN)).toBe('signed-in')
+    })
+
+    it('shows ensure-failed until retried', () => {
+      const failed = run([
+        { type: 'ENSURE_STARTED', withBackerClaim: false },
+        { type: 'ENSURE_FAILED', message: 'No seats left' },
+      ])
+      const inputs = { ...SIGNED_IN, sessionId: null, isSessionValid: undefined }
+      expect(failed.ensureError).toBe('No seats left')
+      expect(authPhase(failed, inputs)).toBe('ensure-failed')
+
+      const retried = run([{ type: 'ENSURE_RETRIED' }], failed)
+      expect(retried.ensureError).toBeNull()
+      expect(retried.ensureAttempt).toBe(failed.ensureAttempt + 1)
+      expect(authPhase(retried, inputs)).toBe('resolving')
+    })
+
+    it('completes a Google sign-in once it has settled', () => {
+      const pending = run([{ type: 'GOOGLE_PENDING' }])
+      expect(isGoogleSignInSettled({ ...SIGNED_IN, isAppUserLoading: true })).toBe(false)
+      expect(isGoogleSignInSettled(SIGNED_IN)).toBe(true)
+
+      const state = run([{ type: 'GOOGLE_COMPLETED' }], pending)
+      expect(state.googlePending).toBe(false)
+      expect(state.clearAuthPending).toBe(true)
+    })
+
+    it('ignores GOOGLE_COMPLETED with no Google sign-in pending', () => {
+      expect(run([{ type: 'GOOGLE_COMPLETED' }])).toBe(INITIAL_AUTH_FLOW_STATE)
+    })
+  })
+
+  describe('Google timeout', () => {
+    it('times out a stalled sign-in and clears the pending flag', () => {
+      expect(hasGoogleSignInStalled(SIGNED_OUT)).toBe(true)
+      const state = run([
+        { type: 'GOOGLE_PENDING' },
+        { type: 'GOOGLE_TIMER_FIRED', stalled: hasGoogleSignInStalled(SIGNED_OUT) },
+      ])
+      expect(state.googlePending).toBe(false)
+      expect(state.googleError?.message).toBe('We could not complete Google sign-in.')
+      expect(state.clearAuthPending).toBe(true)
+
+      expect(run([{ type: 'GOOGLE_ERROR_DISMISSED' }], state).googleError).toBeNull()
+    })
+
+    it('keeps waiting when sign-in is making progress', () => {
+      const inputs = { ...SIGNED_IN, isAppUserLoading: true }
+      expect(hasGoogleSignInStalled(inputs)).toBe(false)
+      const pending = run([{ type: 'GOOGLE_PENDING' }])
+      const state = run([{ type: 'GOOGLE_TIMER_FIRED', stalled: hasGoogleSignInStalled(inputs) }], pending)
+      expect(state).toBe(pending)
+    })
+
+    it('ignores a timer that fires after sign-in completed', () => {
+      const completed = run([{ type: 'GOOGLE_PENDING' }, { type: 'GOOGLE_COMPLETED' }])
+      const state = run([{ type: 'GOOGLE_TIMER_FIRED', stalled: true }], completed)
+      expect(state).toBe(completed)
+      expect(state.googleError).toBeNull()
+    })
+  })
+
+  describe('backer tokens', () => {
+    it('clears them once the account is created', () => {
+      const state = run([
+        { type: 'ENSURE_STARTED', withBackerClaim: true },
+        { type: 'ENSURE_SUCCEEDED', user: USER },
+      ])
+      expect(state.clearBackerTokens).toBe(true)
+    })
+
+    it('clears them when the backer claim is rejected', () => {
+      const state = run([
+        { type: 'ENSURE_STARTED', withBackerClaim: true },
+        { type: 'ENSURE_FAILED', message: 'Invalid backer token' },
+      ])
+      expect(state.clearBackerTokens).toBe(true)
+      expect(state.isClaimingBacker).toBe(false)
+    })
+
+    it('keeps them when a sign-in without a claim fails', () => {
+      const state = run([
+        { type: 'ENSURE_STARTED', withBackerClaim: false },
+        { type: 'ENSURE_FAILED', message: 'Network error' },
+      ])
+      expect(state.clearBackerTokens).toBe(false)
+    })
+
+    it('resets the flags once storage is cleared', () => {
+      const state = run([
+        { type: 'GOOGLE_PENDING' },
+        { type: 'GOOGLE_COMPLETED' },
+        { type: 'ENSURE_STARTED', withBackerClaim: true },
+        { type: 'ENSURE_SUCCEEDED', user: USER },
+        { type: 'STORAGE_CLEARED' },
+      ])
+      expect(state.clearAuthPending).toBe(false)
+      expect(state.clearBackerTokens).toBe(false)
+      expect(state.appUser).toEqual(USER)
+      expect(run([{ type: 'STORAGE_CLEARED' }], state)).toBe(state)
+    })
+  })
+
+  describe('sign-out', () => {
+    it('resolves while signing out, then resets and clears storage', () => {
+      const signedIn = run([{ type: 'SIGNED_IN', user: USER }])
+      const signingOut = run([{ type: 'SIGN_OUT_STARTED' }], signedIn)
+      expect(signingOut.isSigningOut).toBe(true)
+      expect(authPhase(signingOut, SIGNED_IN)).toBe('resolving')
+
+      const state = run([{ type: 'SIGN_OUT_FINISHED' }], signingOut)
+      expect(state).toEqual({
+        ...INITIAL_AUTH_FLOW_STATE,
+        clearAuthPending: true,
+        clearBackerTokens: true,
+      })
+      expect(authPhase(state, SIGNED_OUT)).toBe('signed-out')
+    })
+
+    it('drops a pending Google sign-in and its error', () => {
+      const state = run([
+        { type: 'GOOGLE_PENDING' },
+        { type: 'GOOGLE_TIMER_FIRED', stalled: true },
+        { type: 'SIGN_OUT_STARTED' },
+        { type: 'SIGN_OUT_FINISHED' },
+      ])
+      expect(state.googlePending).toBe(false)
+      expect(state.googleError).toBeNull()
+    })
+  })
+})
+
+describe('authPhase', () => {
+  it('puts duplicate tabs and kicked sessions ahead of everything else', () => {
+    const state = run([{ type: 'SIGNED_IN', user: USER }])
+    expect(authPhase(state, { ...SIGNED_IN, isDuplicateTab: true, wasKicked: true })).toBe(
+      'duplicate-tab'
+    )
+    expect(authPhase(state, { ...SIGNED_IN, wasKicked: true })).toBe('kicked')
+  })
+
+  it('resolves until the session is validated', () => {
+    const state = run([{ type: 'SIGNED_IN', user: USER }])
+    expect(authPhase(state, { ...SIGNED_IN, isSessionValid: undefined })).toBe('resolving')
+    expect(authPhase(state, { ...SIGNED_IN, isLoading: true })).toBe('resolving')
+  })
+})
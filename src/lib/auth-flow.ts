@@ -0,0 +1,194 @@
+/**
+ * Sign-in/session state machine.
+ *
+ *   signed-out -> (sign in) -> resolving: ensure app user + session
+ *     -> signed-in
+ *     -> ensure-failed (retry or sign out)
+ *   signed-in -> kicked (signed in elsewhere) | duplicate-tab
+ *
+ * Inputs we don't own (Convex auth, session validation, tab detection) are
+ * passed to authPhase; the rest is this reducer's state. Side effects
+ * (mutations, storage, timers) live in hooks/useAuthFlow, but the decisions
+ * are made here: e.g. when the Google timer fires, the reducer decides
+ * whether sign-in stalled, and sessionStorage hand-offs are cleared by
+ * setting clearAuthPending / clearBackerTokens for the hook to act on.
+ */
+
+export interface AppUser {
+  userId: string
+  email: string
+  name?: string
+  isAdmin: boolean
+}
+
+export interface AuthFlowError {
+  message: string
+  details: string | null
+}
+
+export interface AuthFlowState {
+  appUser: AppUser | null
+  // Google sign-in redirect in progress (flagged in sessionStorage before leaving)
+  googlePending: boolean
+  googleError: AuthFlowError | null
+  isEnsuringUser: boolean
+  // The running ensureAppUser call claims a crowdfunding backer
+  isClaimingBacker: boolean
+  ensureError: string | null
+  ensureAttempt: number // bumped to retry ensureAppUser
+  isSigningOut: boolean
+  // sessionStorage hand-offs to remove (cleared again by STORAGE_CLEARED)
+  clearAuthPending: boolean
+  clearBackerTokens: boolean
+}
+
+export type AuthFlowEvent =
+  | { type: 'GOOGLE_PENDING' }
+  | { type: 'GOOGLE_COMPLETED' }
+  // The sign-in timeout elapsed; stalled = nothing has happened since the redirect
+  | { type: 'GOOGLE_TIMER_FIRED'; stalled: boolean }
+  | { type: 'GOOGLE_ERROR_DISMISSED' }
+  | { type: 'ENSURE_STARTED'; withBackerClaim: boolean }
+  | { type: 'ENSURE_SUCCEEDED'; user: AppUser }
+  | { type: 'ENSURE_FAILED'; message: string }
+  | { type: 'ENSURE_RETRIED' }
+  | { type: 'APP_USER_LOADED'; user: AppUser | null }
+  | { type: 'SIGNED_IN'; user: AppUser }
+  | { type: 'SIGN_OUT_STARTED' }
+  | { type: 'SIGN_OUT_FINISHED' }
+  | { type: 'STORAGE_CLEARED' }
+
+// How long to wait for Google to redirect back signed in
+export const GOOGLE_SIGN_IN_TIMEOUT_MS = 45000
+
+const GOOGLE_TIMEOUT_ERROR: AuthFlowError = {
+  message: 'We could not complete Google sign-in.',
+  details: 'This can happen if Google is slow, blocked, or the pop-up was closed. Please try again.',
+}
+
+export const INITIAL_AUTH_FLOW_STATE: AuthFlowState = {
+  appUser: null,
+  googlePending: false,
+  googleError: null,
+  isEnsuringUser: false,
+  isClaimingBacker: false,
+  ensureError: null,
+  ensureAttempt: 0,
+  isSigningOut: false,
+  clearAuthPending: false,
+  clearBackerTokens: false,
+}
+
+export function authFlowReducer(state: AuthFlowState, event: AuthFlowEvent): AuthFlowState {
+  switch (event.type) {
+    case 'GOOGLE_PENDING':
+      return { ...state, googlePending: true }
+    case 'GOOGLE_COMPLETED':
+      if (!state.googlePending) return state
+      return { ...state, googlePending: false, googleError: null, clearAuthPending: true }
+    case 'GOOGLE_TIMER_FIRED':
+      if (!state.googlePending || !event.stalled) return state
+      return {
+        ...state,
+        googlePending: false,
+        googleError: GOOGLE_TIMEOUT_ERROR,
+        clearAuthPending: true,
+      }
+    case 'GOOGLE_ERROR_DISMISSED':
+      return { ...state, googleError: null }
+    case 'ENSURE_STARTED':
+      return {
+        ...state,
+        isEnsuringUser: true,
+        isClaimingBacker: event.withBackerClaim,
+        ensureError: null,
+      }
+    case 'ENSURE_SUCCEEDED':
+      // The backer claim (if any) is used up
+      return {
+        ...state,
+        isEnsuringUser: false,
+        isClaimingBacker: false,
+        appUser: event.user,
+        clearBackerTokens: true,
+      }
+    case 'ENSURE_FAILED':
+      // A rejected backer claim shouldn't be retried with the same token
+      return {
+        ...state,
+        isEnsuringUser: false,
+        isClaimingBacker: false,
+        ensureError: event.message,
+        clearBackerTokens: state.clearBackerTokens || state.isClaimingBacker,
+      }
+    case 'ENSURE_RETRIED':
+      return { ...state, ensureError: null, ensureAttempt: state.ensureAttempt + 1 }
+    case 'APP_USER_LOADED':
+    case 'SIGNED_IN':
+      return { ...state, appUser: event.user }
+    case 'SIGN_OUT_STARTED':
+      return { ...state, isSigningOut: true }
+    case 'SIGN_OUT_FINISHED':
+      return { ...INITIAL_AUTH_FLOW_STATE, clearAuthPending: true, clearBackerTokens: true }
+    case 'STORAGE_CLEARED':
+      if (!state.clearAuthPending && !state.clearBackerTokens) return state
+      return { ...state, clearAuthPending: false, clearBackerTokens: false }
+  }
+}
+
+export interface AuthInputs {
+  isLoading: boolean
+  isAuthenticated: boolean
+  sessionId: string | null
+  isSessionValid: boolean | undefined
+  isDuplicateTab: boolean
+  wasKicked: boolean
+  isAppUserLoading: boolean // getCurrentAppUser hasn't answered yet
+}
+
+export type AuthPhase =
+  | 'duplicate-tab'
+  | 'kicked'
+  | 'ensure-failed' // signed in, but no app user/session could be created
+  | 'signed-out'
+  | 'resolving'
+  | 'signed-in'
+
+/**
+ * Where sign-in stands. The first four each get their own screen (or, for
+ * signed-out, the sign-in buttons); resolving shows a disabled user button.
+ */
+export function authPhase(state: AuthFlowState, inputs: AuthInputs): AuthPhase {
+  if (inputs.isDuplicateTab) return 'duplicate-tab'
+  if (inputs.wasKicked) return 'kicked'
+  if (state.ensureError && inputs.isAuthenticated && !inputs.sessionId) return 'ensure-failed'
+  if (!inputs.isAuthenticated) return 'signed-out'
+
+  const isSessionValidationPending = !!inputs.sessionId && inputs.isSessionValid === undefined
+  if (
+    inputs.isLoading ||
+    state.isEnsuringUser ||
+    state.isSigningOut ||
+    isSessionValidationPending ||
+    inputs.isAppUserLoading
+  ) {
+    return 'resolving'
+  }
+  return inputs.isSessionValid === true && state.appUser ? 'signed-in' : 'resolving'
+}
+
+/**
+ * Google sign-in has come back: signed in, with a session and the app user
+ * query answered.
+ */
+export function isGoogleSignInSettled(inputs: AuthInputs): boolean {
+  return inputs.isAuthenticated && !!inputs.sessionId && !inputs.isAppUserLoading
+}
+
+/**
+ * Nothing has happened since the Google redirect - passed with
+ * GOOGLE_TIMER_FIRED so the reducer can time it out.
+ */
+export function hasGoogleSignInStalled(inputs: AuthInputs): boolean {
+  return !inputs.isAuthenticated && !inputs.sessionId
+}
@@ -0,0 +1,151 @@
+import polygonClipping, { type MultiPolygon, type Polygon, type Ring } from 'polygon-clipping'
+import type { Contour, SvgParseResult } from '@convex/lib/svg'
+import type { ExtrusionPlane } from '@/lib/planes'
+import { placeShape, resolvePlacement } from '@/lib/placement'
+
+/**
+ * Clipping of placed SVG shapes to their extrusion plane.
+ *
+ * Each shape is intersected with the plane's outer polygon minus its holes,
+ * so nothing overhangs the face or covers an opening. A shape may come back
+ * as several pieces, or none at all.
+ */
+
+// Typical 0.4 mm nozzle - thinner features won't print reliably
+export const MIN_PRINTABLE_WIDTH = 0.4
+
+export interface ClippedPiece {
+  outer: Contour // counter-clockwise
+  holes: Contour[] // clockwise
+}
+
+export interface ClippedShape {
+  shapeIndex: number
+  pieces: ClippedPiece[]
+}
+
+export interface ClipWarning {
+  shapeIndex: number
+  kind: 'removed' | 'sliver' | 'failed'
+  message: string
+}
+
+export interface PlaneClipResult {
+  shapes: ClippedShape[] // only shapes with at least one piece
+  warnings: ClipWarning[]
+}
+
+function toRing(contour: Contour): Ring {
+  return contour.map((p) => [p.x, p.y])
+}
+
+// polygon-clipping closes rings by repeating the first point
+function fromRing(ring: Ring): Contour {
+  const points = ring.map(([x, y]) => ({ x, y }))
+  const first = points[0]
+  const last = points[points.length - 1]
+  if (points.length > 1 && first.x === last.x && first.y === last.y) {
+    points.pop()
+  }
+  return points
+}
+
+function ringArea(contour: Contour): number {
+  let sum = 0
+  for (let i = 0; i < contour.length; i++) {
+    const a = contour[i]
+    const b = contour[(i + 1) % contour.length]
+    sum += a.x * b.y - b.x * a.y
+  }
+  return Math.abs(sum / 2)
+}
+
+function ringPerimeter(contour: Contour): number {
+  let sum = 0
+  for (let i = 0; i < contour.length; i++) {
+    const a = contour[i]
+    const b = contour[(i + 1) % contour.length]
+    sum += Math.hypot(b.x - a.x, b.y - a.y)
+  }
+  return sum
+}
+
+/**
+ * Approximate feature width as 2 * area / perimeter.
+ * Exact for long strips; underestimates compact shapes (a disc reads as its
+ * radius), which errs on the side of warning.
+ */
+export function approximateWidth(piece: ClippedPiece): number {
+  const area = ringArea(piece.outer) - piece.holes.reduce((sum, h) => sum + ringArea(h), 0)
+  const perimeter = ringPerimeter(piece.outer) + piece.holes.reduce((sum, h) => sum + ringPerimeter(h), 0)
+  return perimeter > 0 ? (2 * area) / perimeter : 0
+}
+
+/**
+ * Clip the plane's SVG shapes to the plane. Returns null if the plane has
+ * no SVG or it isn't loaded.
+ */
+export function clipPlaneShapes(
+  plane: ExtrusionPlane,
+  svg: SvgParseResult | null | undefined,
+  minWidth = MIN_PRINTABLE_WIDTH
+): PlaneClipResult | null {
+  if (!plane.svgFileId || !svg?.bounds) return null
+
+  const settings = resolvePlacement(plane.svgSettings, svg.bounds, plane.planeData)
+  const planeGeom: Polygon = [
+    toRing(plane.planeData.outer),
+    ...plane.planeData.holes.map(toRing),
+  ]
+
+  const shapes: ClippedShape[] = []
+  const warnings: ClipWarning[] = []
+
+  for (const shape of svg.shapes) {
+    const placed = placeShape(shape, settings, svg.bounds)
+    let result: MultiPolygon
+    try {
+      result = polygonClipping.intersection(
+        [toRing(placed.outer), ...placed.holes.map(toRing)],
+        planeGeom
+      )
+    } catch (err) {
+      console.error('Failed to clip shape:', err)
+      warnings.push({
+        shapeIndex: shape.index,
+        kind: 'failed',
+        message: `Shape ${shape.index + 1} could not be clipped and was skipped.`,
+      })
+      continue
+    }
+
+    const pieces = result
+      .map(([outer, ...holes]) => ({ outer: fromRing(outer), holes: holes.map(fromRing) }))
+      .filter((piece) => piece.outer.length >= 3)
+
+    if (pieces.length === 0) {
+      warnings.push({
+        shapeIndex: shape.index,
+        kind: 'removed',
+        message: `Shape ${shape.index + 1} is entirely off the plane and will not be extruded.`,
+      })
+      continue
+    }
+
+    const slivers = pieces.filter((piece) => approximateWidth(piece) < minWidth).length
+    if (slivers > 0) {
+      warnings.push({
+        shapeIndex: shape.index,
+        kind: 'sliver',
+        message:
+          pieces.length > 1
+            ? `Shape ${shape.index + 1} is split into ${pieces.length} pieces; ${slivers} ${slivers === 1 ? 'is' : 'are'} thinner than ${minWidth} mm and may not print.`
+            : `Shape ${shape.index + 1} is thinner than ${minWidth} mm and may not print.`,
+      })
+    }
+
+    shapes.push({ shapeIndex: shape.index, pieces })
+  }
+
+  return { shapes, warnings }
+}
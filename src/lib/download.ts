@@ -0,0 +1,15 @@
+/**
+ * Save generated bytes as a file via a temporary object URL.
+ */
+export function downloadFile(data: Uint8Array | string, fileName: string, type: string) {
+  const blob = new Blob([data as BlobPart], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,119 @@
+import type { StlMesh } from '@convex/lib/stl'
+import type { ExtrusionMesh } from '@/lib/extrusion'
+import { orientMesh, resolveOrientation, type StlOrientation } from '@/lib/orientation'
+import type { ExtrusionPlane } from '@/lib/planes'
+
+/**
+ * Everything an exporter needs, in world coordinates (build plate at z = 0,
+ * centered on the origin): the oriented base model plus each extruded shape
+ * as its own named object.
+ */
+
+export interface ExportMaterial {
+  name: string
+  color: string // #RRGGBB
+}
+
+export interface ExportObject {
+  name: string
+  positions: Float32Array
+  indices: Uint32Array
+  materialIndex: number
+  planeIndex: number | null // null for the base model
+}
+
+export interface ExportModel {
+  materials: ExportMaterial[]
+  objects: ExportObject[]
+}
+
+const BASE_COLOR = '#94A3B8' // slate-400, as in the scene
+
+// One color per plane so multi-material printers can tell planes apart
+const PLANE_COLORS = [
+  '#0284C7', '#DC2626', '#16A34A', '#CA8A04', '#9333EA',
+  '#EA580C', '#0D9488', '#DB2777', '#4F46E5', '#65A30D',
+]
+
+export interface BuildExportModelInput {
+  mesh: StlMesh
+  orientation: StlOrientation | undefined
+  baseName: string
+  planes: ExtrusionPlane[]
+  extrusions: ExtrusionMesh[]
+}
+
+export function buildExportModel({
+  mesh,
+  orientation,
+  baseName,
+  planes,
+  extrusions,
+}: BuildExportModelInput): ExportModel {
+  const materials: ExportMaterial[] = [{ name: baseName, color: BASE_COLOR }]
+  const planeMaterial = new Map<number, number>()
+
+  const oriented = orientMesh(mesh, resolveOrientation(mesh, orientation))
+  const objects: ExportObject[] = [
+    {
+      name: baseName,
+      positions: oriented.positions,
+      indices: oriented.indices,
+      materialIndex: 0,
+      planeIndex: null,
+    },
+  ]
+
+  for (const extrusion of extrusions) {
+    const plane = planes[extrusion.planeIndex]
+    if (!plane) continue
+
+    let materialIndex = planeMaterial.get(extrusion.planeIndex)
+    if (materialIndex === undefined) {
+      materialIndex = materials.length
+      materials.push({
+        name: plane.name,
+        color: PLANE_COLORS[extrusion.planeIndex % PLANE_COLORS.length],
+      })
+      planeMaterial.set(extrusion.planeIndex, materialIndex)
+    }
+
+    const shapeName =
+      plane.svgShapes?.find((s) => s.shapeIndex === extrusion.shapeIndex)?.name ??
+      `Shape ${extrusion.shapeIndex + 1}`
+
+    objects.push({
+      name: `${plane.name} - ${shapeName}`,
+      positions: extrusion.positions,
+      indices: extrusion.indices,
+      materialIndex,
+      planeIndex: extrusion.planeIndex,
+    })
+  }
+
+  return { materials, objects }
+}
+
+/**
+ * File-name-safe version of a name (project, plane, object).
+ */
+export function safeFileName(name: string | null, fallback: string): string {
+  const base = (name ?? '')
+    .trim()
+    .replace(/[^A-Za-z0-9 _-]+/g, '')
+    .replace(/\s+/g, '-')
+  return base || fallback
+}
+
+export function exportFileName(projectName: string | null, extension: string): string {
+  return `${safeFileName(projectName, 'vector-projector')}.${extension}`
+}
+
+/**
+ * Coordinate text for XML/ASCII output: up to 6 decimals (well under printer
+ * resolution), no trailing zeros, no "-0".
+ */
+export function formatCoordinate(value: number): string {
+  const rounded = Math.round(value * 1e6) / 1e6
+  return Object.is(rounded, -0) ? '0' : String(rounded)
+}
@@ -0,0 +1,170 @@
+import earcut from 'earcut'
+import type { Contour } from '@convex/lib/svg'
+import type { ClippedPiece, PlaneClipResult } from '@/lib/clipping'
+import type { ExtrusionPlane } from '@/lib/planes'
+
+/**
+ * Extrusion of clipped SVG shapes into closed triangle meshes.
+ *
+ * Each shape rises from its plane's planeZ by the height stored in
+ * plane.svgShapes[].extrusionSettings (default DEFAULT_EXTRUSION_HEIGHT).
+ * Meshes are indexed and watertight: caps and walls share vertices, and
+ * triangles wind counter-clockwise seen from outside (outward normals).
+ */
+
+export type SvgShapeSettings = NonNullable<ExtrusionPlane['svgShapes']>[number]
+
+// Mirrors the limits enforced in convex/projects.ts
+export const DEFAULT_EXTRUSION_HEIGHT = 1
+export const MIN_EXTRUSION_HEIGHT = 0.1
+export const MAX_EXTRUSION_HEIGHT = 50
+
+export interface ExtrusionMesh {
+  planeIndex: number
+  shapeIndex: number
+  positions: Float32Array // xyz per vertex, world coordinates
+  indices: Uint32Array // 3 per triangle
+}
+
+export function clampHeight(height: number): number {
+  return Math.min(Math.max(height, MIN_EXTRUSION_HEIGHT), MAX_EXTRUSION_HEIGHT)
+}
+
+/**
+ * Stored height for a shape, or the default.
+ */
+export function shapeHeight(plane: ExtrusionPlane, shapeIndex: number): number {
+  const entry = plane.svgShapes?.find((s) => s.shapeIndex === shapeIndex)
+  return entry?.extrusionSettings.height ?? DEFAULT_EXTRUSION_HEIGHT
+}
+
+/**
+ * Set the height of one shape, or of every shape when shapeIndex is omitted.
+ * shapeCount is the number of shapes in the plane's SVG.
+ */
+export function withShapeHeight(
+  plane: ExtrusionPlane,
+  shapeCount: number,
+  height: number,
+  shapeIndex?: number
+): ExtrusionPlane {
+  const svgShapes: SvgShapeSettings[] = []
+  for (let i = 0; i < shapeCount; i++) {
+    const existing = plane.svgShapes?.find((s) => s.shapeIndex === i)
+    const apply = shapeIndex === undefined || shapeIndex === i
+    svgShapes.push({
+      shapeIndex: i,
+      name: existing?.name ?? `Shape ${i + 1}`,
+      extrusionSettings: {
+        height: apply ? clampHeight(height) : (existing?.extrusionSettings.height ?? DEFAULT_EXTRUSION_HEIGHT),
+      },
+    })
+  }
+  return { ...plane, svgShapes }
+}
+
+/**
+ * Extrude every clipped shape on every plane.
+ * clipResults is parallel to planes (see useClippedShapes).
+ */
+export function buildExtrusions(
+  planes: ExtrusionPlane[],
+  clipResults: (PlaneClipResult | null)[]
+): ExtrusionMesh[] {
+  const meshes: ExtrusionMesh[] = []
+  planes.forEach((plane, planeIndex) => {
+    const clip = clipResults[planeIndex]
+    if (!clip) return
+    for (const shape of clip.shapes) {
+      const mesh = extrudePieces(shape.pieces, plane.planeData.planeZ, shapeHeight(plane, shape.shapeIndex))
+      if (mesh.indices.length > 0) {
+        meshes.push({ planeIndex, shapeIndex: shape.shapeIndex, ...mesh })
+      }
+    }
+  })
+  return meshes
+}
+
+/**
+ * Prism over the pieces (outer CCW, holes CW), from baseZ up by height.
+ */
+export function extrudePieces(
+  pieces: ClippedPiece[],
+  baseZ: number,
+  height: number
+): { positions: Float32Array; indices: Uint32Array } {
+  const positions: number[] = []
+  const indices: number[] = []
+  const topZ = baseZ + height
+
+  for (const piece of pieces) {
+    const outer = cleanRing(piece.outer)
+    if (outer.length < 3) continue
+    const rings: Contour[] = [outer, ...piece.holes.map(cleanRing).filter((ring) => ring.length >= 3)]
+
+    const flat: number[] = []
+    const holeIndices: number[] = []
+    for (const ring of rings) {
+      if (ring !== outer) holeIndices.push(flat.length / 2)
+      for (const p of ring) flat.push(p.x, p.y)
+    }
+    const count = flat.length / 2
+    const bottom = positions.length / 3
+    const top = bottom + count
+
+    for (let i = 0; i < count; i++) positions.push(flat[i * 2], flat[i * 2 + 1], baseZ)
+    for (let i = 0; i < count; i++) positions.push(flat[i * 2], flat[i * 2 + 1], topZ)
+
+    // Caps: top faces up (CCW from above), bottom faces down
+    const triangles = earcut(flat, holeIndices)
+    for (let t = 0; t < triangles.length; t += 3) {
+      const a = triangles[t]
+      let [b, c] = [triangles[t + 1], triangles[t + 2]]
+      const cross =
+        (flat[b * 2] - flat[a * 2]) * (flat[c * 2 + 1] - flat[a * 2 + 1]) -
+        (flat[b * 2 + 1] - flat[a * 2 + 1]) * (flat[c * 2] - flat[a * 2])
+      if (cross < 0) [b, c] = [c, b]
+      indices.push(top + a, top + b, top + c)
+      indices.push(bottom + a, bottom + c, bottom + b)
+    }
+
+    // Walls: outer is CCW and holes CW, so the solid is always left of
+    // each edge and (a, b, b') faces outward
+    let start = 0
+    for (const ring of rings) {
+      for (let i = 0; i < ring.length; i++) {
+        const a = start + i
+        const b = start + ((i + 1) % ring.length)
+        indices.push(bottom + a, bottom + b, top + b)
+        indices.push(bottom + a, top + b, top + a)
+      }
+      start += ring.length
+    }
+  }
+
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) }
+}
+
+/**
+ * Drop repeated and exactly collinear points. earcut skips these, and a cap
+ * that skips a vertex the walls use would leave a T-junction (not watertight).
+ */
+function cleanRing(ring: Contour): Contour {
+  const points = [...ring]
+  let changed = true
+  while (changed && points.length >= 3) {
+    changed = false
+    for (let i = 0; i < points.length && points.length >= 3; i++) {
+      const prev = points[(i - 1 + points.length) % points.length]
+      const p = points[i]
+      const next = points[(i + 1) % points.length]
+      const cross = (p.y - prev.y) * (next.x - p.x) - (p.x - prev.x) * (next.y - p.y)
+      if ((p.x === next.x && p.y === next.y) || cross === 0) {
+        points.splice(i, 1)
+        changed = true
+        i--
+      }
+    }
+  }
+  return points
+}
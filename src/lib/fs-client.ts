@@ -0,0 +1,43 @@
+import { authClient } from '@/lib/auth-client'
+
+const CONVEX_SITE_URL = import.meta.env.VITE_CONVEX_SITE_URL as string
+
+/**
+ * Download a file through the convex-fs `/fs` route registered in convex/http.ts.
+ * The route checks the blobId against the path, then redirects to a signed CDN URL.
+ */
+export function buildFsDownloadUrl(blobId: string, path: string): string {
+  const url = new URL(`/fs/blobs/${blobId}`, CONVEX_SITE_URL)
+  url.searchParams.set('path', path)
+  return url.toString()
+}
+
+/**
+ * Fetch file contents from convex-fs.
+ * Base samples are public; user files need the Convex JWT so the route's
+ * downloadAuth can verify ownership.
+ */
+export async function fetchFsFile(
+  file: { blobId: string; path: string },
+  signal?: AbortSignal
+): Promise<ArrayBuffer> {
+  const headers: Record<string, string> = {}
+
+  if (!file.path.startsWith('/base/')) {
+    const { data } = await authClient.convex.token()
+    if (data?.token) {
+      headers.Authorization = `Bearer ${data.token}`
+    }
+  }
+
+  const response = await fetch(buildFsDownloadUrl(file.blobId, file.path), {
+    headers,
+    signal,
+  })
+
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status}`)
+  }
+
+  return response.arrayBuffer()
+}
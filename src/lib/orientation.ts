@@ -0,0 +1,151 @@
+import * as THREE from 'three'
+import type { Doc } from '@convex/_generated/dataModel'
+import type { StlMesh } from '@convex/lib/stl'
+
+/**
+ * STL orientation as stored on projects (see notes.md):
+ * { rotation: quaternion, zOffset: mm to build plate }
+ *
+ * Convention: a raw STL vertex p is placed in the scene at
+ *   R * (p - c) + (0, 0, zOffset)
+ * where c is the center of the raw mesh bounding box. The model therefore
+ * spins about its own center, stays centered on the plate in XY, and zOffset
+ * lifts it so the lowest vertex rests on z = 0.
+ */
+export type StlOrientation = NonNullable<Doc<'projects'>['stlOrientation']>
+export type Quat = StlOrientation['rotation']
+export type Axis = 'x' | 'y' | 'z'
+
+const IDENTITY_ROTATION: Quat = { x: 0, y: 0, z: 0, w: 1 }
+
+const AXIS_VECTORS: Record<Axis, THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1),
+}
+
+// Plate normal that a "lay flat" face should end up pointing along
+const DOWN = new THREE.Vector3(0, 0, -1)
+
+export function toThreeQuaternion(q: Quat): THREE.Quaternion {
+  return new THREE.Quaternion(q.x, q.y, q.z, q.w).normalize()
+}
+
+function fromThreeQuaternion(q: THREE.Quaternion): Quat {
+  const n = q.clone().normalize()
+  return { x: n.x, y: n.y, z: n.z, w: n.w }
+}
+
+/**
+ * Center of the raw mesh bounding box (the rotation pivot).
+ */
+export function meshCenter(mesh: StlMesh): THREE.Vector3 {
+  const { positions } = mesh
+  const min = new THREE.Vector3(Infinity, Infinity, Infinity)
+  const max = new THREE.Vector3(-Infinity, -Infinity, -Infinity)
+  const v = new THREE.Vector3()
+  for (let i = 0; i < positions.length; i += 3) {
+    v.set(positions[i], positions[i + 1], positions[i + 2])
+    min.min(v)
+    max.max(v)
+  }
+  return min.add(max).multiplyScalar(0.5)
+}
+
+/**
+ * zOffset that puts the lowest rotated vertex exactly on the build plate.
+ */
+export function restingZOffset(mesh: StlMesh, rotation: Quat): number {
+  const q = toThreeQuaternion(rotation)
+  const center = meshCenter(mesh)
+  const { positions } = mesh
+  const v = new THREE.Vector3()
+  let minZ = Infinity
+  for (let i = 0; i < positions.length; i += 3) {
+    v.set(positions[i], positions[i + 1], positions[i + 2]).sub(center).applyQuaternion(q)
+    minZ = Math.min(minZ, v.z)
+  }
+  return Number.isFinite(minZ) ? -minZ : 0
+}
+
+/**
+ * Orientation with the given rotation, dropped onto the plate.
+ */
+export function withRestingOffset(mesh: StlMesh, rotation: Quat): StlOrientation {
+  return { rotation, zOffset: restingZOffset(mesh, rotation) }
+}
+
+/**
+ * Stored orientation, or the default (unrotated, resting on the plate).
+ */
+export function resolveOrientation(
+  mesh: StlMesh,
+  orientation: StlOrientation | undefined
+): StlOrientation {
+  return orientation ?? withRestingOffset(mesh, IDENTITY_ROTATION)
+}
+
+/**
+ * Rotate about a world axis (applied after the current rotation).
+ */
+export function rotateAboutWorldAxis(rotation: Quat, axis: Axis, degrees: number): Quat {
+  const step = new THREE.Quaternion().setFromAxisAngle(
+    AXIS_VECTORS[axis],
+    THREE.MathUtils.degToRad(degrees)
+  )
+  return fromThreeQuaternion(step.multiply(toThreeQuaternion(rotation)))
+}
+
+/**
+ * Rotation that turns a face (given by its current world-space normal)
+ * to face straight down onto the build plate.
+ */
+export function layFlatRotation(rotation: Quat, worldNormal: THREE.Vector3): Quat {
+  const align = new THREE.Quaternion().setFromUnitVectors(worldNormal.clone().normalize(), DOWN)
+  return fromThreeQuaternion(align.multiply(toThreeQuaternion(rotation)))
+}
+
+/**
+ * Matrix mapping raw STL coordinates to scene/world coordinates.
+ */
+export function orientationMatrix(mesh: StlMesh, orientation: StlOrientation): THREE.Matrix4 {
+  const center = meshCenter(mesh)
+  const toPivot = new THREE.Matrix4().makeTranslation(-center.x, -center.y, -center.z)
+  const rotate = new THREE.Matrix4().makeRotationFromQuaternion(toThreeQuaternion(orientation.rotation))
+  const lift = new THREE.Matrix4().makeTranslation(0, 0, orientation.zOffset)
+  return lift.multiply(rotate).multiply(toPivot)
+}
+
+/**
+ * Copy of the mesh with the orientation baked into positions and normals.
+ */
+export function orientMesh(mesh: StlMesh, orientation: StlOrientation): StlMesh {
+  const matrix = orientationMatrix(mesh, orientation)
+  const q = toThreeQuaternion(orientation.rotation)
+
+  const positions = new Float32Array(mesh.positions.length)
+  const normals = new Float32Array(mesh.normals.length)
+  const faceNormals = new Float32Array(mesh.faceNormals.length)
+  const v = new THREE.Vector3()
+
+  for (let i = 0; i < positions.length; i += 3) {
+    v.set(mesh.positions[i], mesh.positions[i + 1], mesh.positions[i + 2]).applyMatrix4(matrix)
+    positions[i] = v.x
+    positions[i + 1] = v.y
+    positions[i + 2] = v.z
+
+    v.set(mesh.normals[i], mesh.normals[i + 1], mesh.normals[i + 2]).applyQuaternion(q)
+    normals[i] = v.x
+    normals[i + 1] = v.y
+    normals[i + 2] = v.z
+  }
+
+  for (let i = 0; i < faceNormals.length; i += 3) {
+    v.set(mesh.faceNormals[i], mesh.faceNormals[i + 1], mesh.faceNormals[i + 2]).applyQuaternion(q)
+    faceNormals[i] = v.x
+    faceNormals[i + 1] = v.y
+    faceNormals[i + 2] = v.z
+  }
+
+  return { positions, normals, faceNormals, indices: mesh.indices }
+}
@@ -0,0 +1,132 @@
+import type { Bounds, Contour, Point, SvgShape } from '@convex/lib/svg'
+import { bounds2d, type ExtrusionPlane, type PlaneData } from '@/lib/planes'
+
+/**
+ * SVG placement on an extrusion plane, stored as plane.svgSettings:
+ * { scale: mm per SVG unit, rotation: degrees CCW, position: plane XY in mm }
+ *
+ * Convention: an SVG point s (Y down) lands on the plane at
+ *   position + Rot(rotation) * scale * (s.x - c.x, c.y - s.y)
+ * where c is the center of the SVG's shape bounds. The artwork therefore
+ * scales and spins about its own center, and position is where that
+ * center sits on the plane.
+ */
+export type SvgSettings = NonNullable<ExtrusionPlane['svgSettings']>
+
+// Fit leaves this fraction of the plane's bounds around the artwork
+const FIT_MARGIN = 0.9
+
+export const MIN_SVG_SCALE = 0.001
+export const MAX_SVG_SCALE = 1000
+
+export function boundsCenter(bounds: Bounds): Point {
+  return { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }
+}
+
+function planeBounds(planeData: PlaneData): Bounds {
+  return bounds2d(planeData.outer)
+}
+
+/**
+ * Largest scale that fits the artwork inside the plane's bounds, centered.
+ */
+export function fitPlacement(svgBounds: Bounds, planeData: PlaneData, rotation = 0): SvgSettings {
+  const plane = planeBounds(planeData)
+  const { width, height } = rotatedSize(svgBounds, rotation)
+  const scale = clampScale(
+    Math.min(
+      (plane.maxX - plane.minX) / Math.max(width, 1e-9),
+      (plane.maxY - plane.minY) / Math.max(height, 1e-9)
+    ) * FIT_MARGIN
+  )
+  return { scale, rotation, position: boundsCenter(plane) }
+}
+
+/**
+ * Keep scale and rotation; move the artwork to the middle of the plane.
+ */
+export function centerPlacement(settings: SvgSettings, planeData: PlaneData): SvgSettings {
+  return { ...settings, position: boundsCenter(planeBounds(planeData)) }
+}
+
+/**
+ * Stored placement, or the default (fit to the plane).
+ */
+export function resolvePlacement(
+  settings: SvgSettings | undefined,
+  svgBounds: Bounds,
+  planeData: PlaneData
+): SvgSettings {
+  return settings ?? fitPlacement(svgBounds, planeData)
+}
+
+export function clampScale(scale: number): number {
+  return Math.min(Math.max(scale, MIN_SVG_SCALE), MAX_SVG_SCALE)
+}
+
+// Width/height of the SVG bounds after rotation (before scaling)
+function rotatedSize(bounds: Bounds, rotation: number) {
+  const w = bounds.maxX - bounds.minX
+  const h = bounds.maxY - bounds.minY
+  const rad = (rotation * Math.PI) / 180
+  const cos = Math.abs(Math.cos(rad))
+  const sin = Math.abs(Math.sin(rad))
+  return { width: w * cos + h * sin, height: w * sin + h * cos }
+}
+
+/**
+ * Map from SVG coordinates to plane coordinates.
+ */
+export function placementTransform(settings: SvgSettings, svgBounds: Bounds): (p: Point) => Point {
+  const center = boundsCenter(svgBounds)
+  const rad = (settings.rotation * Math.PI) / 180
+  const cos = Math.cos(rad) * settings.scale
+  const sin = Math.sin(rad) * settings.scale
+  const { x: px, y: py } = settings.position
+  return (p) => {
+    const x = p.x - center.x
+    const y = center.y - p.y
+    return { x: px + cos * x - sin * y, y: py + sin * x + cos * y }
+  }
+}
+
+/**
+ * An SVG shape in plane coordinates. The Y flip mirrors the contours, so
+ * they are reversed to keep outers counter-clockwise and holes clockwise.
+ */
+export function placeShape(
+  shape: SvgShape,
+  settings: SvgSettings,
+  svgBounds: Bounds
+): { outer: Contour; holes: Contour[] } {
+  const transform = placementTransform(settings, svgBounds)
+  const place = (contour: Contour) => contour.map(transform).reverse()
+  return { outer: place(shape.outer), holes: shape.holes.map(place) }
+}
+
+/**
+ * Corners of the placed artwork's bounding box (plane coordinates),
+ * in order: top-left, top-right, bottom-right, bottom-left of the SVG.
+ */
+export function placedCorners(settings: SvgSettings, svgBounds: Bounds): Point[] {
+  const transform = placementTransform(settings, svgBounds)
+  const { minX, minY, maxX, maxY } = svgBounds
+  return [
+    transform({ x: minX, y: minY }),
+    transform({ x: maxX, y: minY }),
+    transform({ x: maxX, y: maxY }),
+    transform({ x: minX, y: maxY }),
+  ]
+}
+
+/**
+ * Put an SVG on a plane, dropping the previous artwork's placement and
+ * shape settings (they refer to the old file's shapes).
+ */
+export function assignSvg(plane: ExtrusionPlane, svgFileId: ExtrusionPlane['svgFileId']): ExtrusionPlane {
+  const next: ExtrusionPlane = { name: plane.name, planeData: plane.planeData }
+  if (svgFileId) {
+    next.svgFileId = svgFileId
+  }
+  return next
+}
@@ -0,0 +1,317 @@
+import type { Doc } from '@convex/_generated/dataModel'
+import type { StlMesh } from '@convex/lib/stl'
+
+/**
+ * Planar region detection for Step 2.
+ *
+ * Works on an oriented mesh (see orientMesh in lib/orientation) and finds
+ * connected, coplanar, upward-facing regions. Each region's outline becomes
+ * the `planeData` stored on a project extrusion plane.
+ */
+
+export type ExtrusionPlane = Doc<'projects'>['extrusionPlanes'][number]
+export type PlaneData = ExtrusionPlane['planeData']
+export type Point2 = PlaneData['outer'][number]
+
+// Mirrors the limits enforced in convex/projects.ts
+export const MAX_EXTRUSION_PLANES = 10
+export const MAX_PLANE_NAME_LENGTH = 50
+
+export interface PlanarRegion {
+  id: string
+  planeData: PlaneData
+  area: number // mm², outer minus holes
+  triangles: number[] // triangle indices into the source mesh
+}
+
+// Scene highlight for one region (world-space triangle soup)
+export interface PlaneOverlay {
+  id: string
+  positions: Float32Array
+  selected: boolean
+}
+
+export interface DetectPlanesOptions {
+  // Max angle (degrees) between a face normal and +Z
+  normalToleranceDeg?: number
+  // Max height difference (mm) between triangles of one region
+  heightTolerance?: number
+  // Regions smaller than this (mm²) are ignored
+  minArea?: number
+}
+
+const DEFAULT_OPTIONS: Required<DetectPlanesOptions> = {
+  normalToleranceDeg: 1,
+  heightTolerance: 0.01,
+  minArea: 4,
+}
+
+// Collinear points closer than this (mm of deviation) are dropped from outlines
+const COLLINEAR_EPSILON = 1e-4
+
+/**
+ * Find coplanar upward-facing regions, highest first.
+ */
+export function detectPlanarRegions(mesh: StlMesh, options: DetectPlanesOptions = {}): PlanarRegion[] {
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+  const { positions, faceNormals, indices } = mesh
+  const triangleCount = indices.length / 3
+  const minNormalZ = Math.cos((opts.normalToleranceDeg * Math.PI) / 180)
+
+  // Candidate triangles face up and have a height
+  const triangleZ = new Float64Array(triangleCount)
+  const isCandidate = new Uint8Array(triangleCount)
+  for (let t = 0; t < triangleCount; t++) {
+    if (faceNormals[t * 3 + 2] < minNormalZ) continue
+    isCandidate[t] = 1
+    triangleZ[t] =
+      (positions[indices[t * 3] * 3 + 2] +
+        positions[indices[t * 3 + 1] * 3 + 2] +
+        positions[indices[t * 3 + 2] * 3 + 2]) / 3
+  }
+
+  // Union candidates that share an edge and sit at the same height
+  const parent = new Int32Array(triangleCount)
+  for (let t = 0; t < triangleCount; t++) parent[t] = t
+  const find = (t: number): number => {
+    while (parent[t] !== t) {
+      parent[t] = parent[parent[t]]
+      t = parent[t]
+    }
+    return t
+  }
+
+  const edgeOwner = new Map<string, number>()
+  for (let t = 0; t < triangleCount; t++) {
+    if (!isCandidate[t]) continue
+    for (let e = 0; e < 3; e++) {
+      const a = indices[t * 3 + e]
+      const b = indices[t * 3 + ((e + 1) % 3)]
+      const key = a < b ? `${a}:${b}` : `${b}:${a}`
+      const other = edgeOwner.get(key)
+      if (other === undefined) {
+        edgeOwner.set(key, t)
+      } else if (Math.abs(triangleZ[other] - triangleZ[t]) <= opts.heightTolerance) {
+        parent[find(t)] = find(other)
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>()
+  for (let t = 0; t < triangleCount; t++) {
+    if (!isCandidate[t]) continue
+    const root = find(t)
+    const group = groups.get(root)
+    if (group) {
+      group.push(t)
+    } else {
+      groups.set(root, [t])
+    }
+  }
+
+  const regions: PlanarRegion[] = []
+  for (const triangles of groups.values()) {
+    const region = buildRegion(mesh, triangles)
+    if (region && region.area >= opts.minArea) {
+      regions.push(region)
+    }
+  }
+
+  return regions.sort((a, b) => b.planeData.planeZ - a.planeData.planeZ || b.area - a.area)
+}
+
+function buildRegion(mesh: StlMesh, triangles: number[]): PlanarRegion | null {
+  const { positions, indices } = mesh
+
+  // Directed edges that appear without their reverse form the boundary
+  const directed = new Set<string>()
+  for (const t of triangles) {
+    for (let e = 0; e < 3; e++) {
+      directed.add(`${indices[t * 3 + e]}:${indices[t * 3 + ((e + 1) % 3)]}`)
+    }
+  }
+
+  const nextVertex = new Map<number, number[]>()
+  for (const edge of directed) {
+    const [a, b] = edge.split(':').map(Number)
+    if (directed.has(`${b}:${a}`)) continue
+    const list = nextVertex.get(a)
+    if (list) {
+      list.push(b)
+    } else {
+      nextVertex.set(a, [b])
+    }
+  }
+
+  // Walk boundary edges into closed loops
+  const loops: Point2[][] = []
+  let zSum = 0
+  let zCount = 0
+  for (const start of [...nextVertex.keys()]) {
+    while (nextVertex.get(start)?.length) {
+      const loop: number[] = [start]
+      let current = nextVertex.get(start)!.pop()!
+      while (current !== start) {
+        loop.push(current)
+        const next = nextVertex.get(current)?.pop()
+        if (next === undefined) break
+        current = next
+      }
+      if (current !== start || loop.length < 3) continue
+
+      loops.push(
+        simplifyLoop(
+          loop.map((v) => {
+            zSum += positions[v * 3 + 2]
+            zCount++
+            return { x: positions[v * 3], y: positions[v * 3 + 1] }
+          })
+        )
+      )
+    }
+  }
+
+  const valid = loops.filter((loop) => loop.length >= 3)
+  if (valid.length === 0) return null
+
+  // Largest loop is the outer boundary; the rest are holes
+  valid.sort((a, b) => Math.abs(signedArea(b)) - Math.abs(signedArea(a)))
+  const outer = ensureWinding(valid[0], true)
+  const holes = valid.slice(1).map((hole) => ensureWinding(hole, false))
+
+  const planeZ = roundTo(zSum / zCount, 4)
+  const area = Math.abs(signedArea(outer)) - holes.reduce((sum, h) => sum + Math.abs(signedArea(h)), 0)
+  const c = centroid(outer)
+
+  return {
+    id: `${planeZ.toFixed(3)}@${c.x.toFixed(2)},${c.y.toFixed(2)}`,
+    planeData: { outer, holes, planeZ },
+    area,
+    triangles,
+  }
+}
+
+// =============================================================================
+// Polygon helpers
+// =============================================================================
+
+/**
+ * Shoelace area: positive for counter-clockwise (Y up).
+ */
+export function signedArea(points: Point2[]): number {
+  let sum = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    sum += a.x * b.y - b.x * a.y
+  }
+  return sum / 2
+}
+
+export function ensureWinding(points: Point2[], counterClockwise: boolean): Point2[] {
+  const isCcw = signedArea(points) > 0
+  return isCcw === counterClockwise ? points : [...points].reverse()
+}
+
+function centroid(points: Point2[]): Point2 {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 })
+  return { x: sum.x / points.length, y: sum.y / points.length }
+}
+
+function simplifyLoop(points: Point2[]): Point2[] {
+  const result: Point2[] = []
+  for (let i = 0; i < points.length; i++) {
+    const prev = points[(i - 1 + points.length) % points.length]
+    const p = points[i]
+    const next = points[(i + 1) % points.length]
+    const cross = (p.x - prev.x) * (next.y - prev.y) - (p.y - prev.y) * (next.x - prev.x)
+    const length = Math.hypot(next.x - prev.x, next.y - prev.y)
+    if (length === 0 || Math.abs(cross) / length > COLLINEAR_EPSILON) {
+      result.push({ x: roundTo(p.x, 4), y: roundTo(p.y, 4) })
+    }
+  }
+  return result
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Axis-aligned bounds of a 2D outline.
+ */
+export function bounds2d(points: Point2[]) {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const p of points) {
+    minX = Math.min(minX, p.x)
+    minY = Math.min(minY, p.y)
+    maxX = Math.max(maxX, p.x)
+    maxY = Math.max(maxY, p.y)
+  }
+  return { minX, minY, maxX, maxY }
+}
+
+/**
+ * Index of the saved plane matching a detected region, or -1.
+ * Planes store only their outline, so match on height and outline bounds.
+ */
+export function findPlaneForRegion(planes: ExtrusionPlane[], region: PlanarRegion, tolerance = 0.01): number {
+  const target = bounds2d(region.planeData.outer)
+  return planes.findIndex((plane) => {
+    if (Math.abs(plane.planeData.planeZ - region.planeData.planeZ) > tolerance) return false
+    const b = bounds2d(plane.planeData.outer)
+    return (
+      Math.abs(b.minX - target.minX) <= tolerance &&
+      Math.abs(b.minY - target.minY) <= tolerance &&
+      Math.abs(b.maxX - target.maxX) <= tolerance &&
+      Math.abs(b.maxY - target.maxY) <= tolerance
+    )
+  })
+}
+
+/**
+ * Next free default name ("Plane 1", "Plane 2", ...).
+ */
+export function nextPlaneName(planes: ExtrusionPlane[]): string {
+  const used = new Set(planes.map((p) => p.name))
+  let n = 1
+  while (used.has(`Plane ${n}`)) n++
+  return `Plane ${n}`
+}
+
+/**
+ * Add the region as a new plane, or remove it if already selected.
+ * Returns null when adding would exceed MAX_EXTRUSION_PLANES.
+ */
+export function togglePlaneForRegion(planes: ExtrusionPlane[], region: PlanarRegion): ExtrusionPlane[] | null {
+  const index = findPlaneForRegion(planes, region)
+  if (index >= 0) {
+    return planes.filter((_, i) => i !== index)
+  }
+  if (planes.length >= MAX_EXTRUSION_PLANES) {
+    return null
+  }
+  return [...planes, { name: nextPlaneName(planes), planeData: region.planeData }]
+}
+
+/**
+ * Triangle soup (world coordinates) covering a region, for scene overlays.
+ */
+export function regionPositions(mesh: StlMesh, region: PlanarRegion): Float32Array {
+  const { positions, indices } = mesh
+  const out = new Float32Array(region.triangles.length * 9)
+  let o = 0
+  for (const t of region.triangles) {
+    for (let k = 0; k < 3; k++) {
+      const v = indices[t * 3 + k] * 3
+      out[o++] = positions[v]
+      out[o++] = positions[v + 1]
+      out[o++] = positions[v + 2]
+    }
+  }
+  return out
+}
@@ -0,0 +1,94 @@
+import type { ExtrusionPlane } from '@/lib/planes'
+import type { ProjectData } from '@/lib/project-draft'
+
+/**
+ * What changed between two project states, for the version history.
+ *
+ * Planes are matched by their outline (planeData), not by position in the
+ * list or name, so a renamed plane reads as "renamed" rather than as one
+ * removed and one added.
+ */
+
+export type PlaneChangeKind = 'added' | 'removed' | 'changed'
+
+export interface PlaneChange {
+  name: string
+  kind: PlaneChangeKind
+  details: string[] // for 'changed', e.g. "SVG placement", "Heights: Shape 2"
+}
+
+export interface ProjectDiff {
+  modelChanged: boolean
+  orientationChanged: boolean
+  planes: PlaneChange[]
+}
+
+function planeKey(plane: ExtrusionPlane): string {
+  return JSON.stringify(plane.planeData)
+}
+
+function shapeName(plane: ExtrusionPlane, shapeIndex: number): string {
+  return plane.svgShapes?.find((s) => s.shapeIndex === shapeIndex)?.name ?? `Shape ${shapeIndex + 1}`
+}
+
+function planeDetails(before: ExtrusionPlane, after: ExtrusionPlane): string[] {
+  const details: string[] = []
+  if (before.name !== after.name) {
+    details.push(`Renamed from "${before.name}"`)
+  }
+  if (before.svgFileId !== after.svgFileId) {
+    details.push(!after.svgFileId ? 'SVG removed' : !before.svgFileId ? 'SVG added' : 'SVG replaced')
+  } else if (JSON.stringify(before.svgSettings) !== JSON.stringify(after.svgSettings)) {
+    details.push('SVG placement')
+  }
+
+  const heights = (plane: ExtrusionPlane) =>
+    new Map(plane.svgShapes?.map((s) => [s.shapeIndex, s.extrusionSettings.height]))
+  const beforeHeights = heights(before)
+  const afterHeights = heights(after)
+  const changedShapes = [...new Set([...beforeHeights.keys(), ...afterHeights.keys()])]
+    .filter((index) => beforeHeights.get(index) !== afterHeights.get(index))
+    .sort((a, b) => a - b)
+    .map((index) => shapeName(after, index))
+  // A replaced SVG resets its shapes - listing them adds nothing
+  if (changedShapes.length > 0 && before.svgFileId === after.svgFileId) {
+    details.push(`Heights: ${changedShapes.join(', ')}`)
+  }
+  return details
+}
+
+/**
+ * Changes going from `before` to `after`.
+ */
+export function diffProjectData(before: ProjectData, after: ProjectData): ProjectDiff {
+  const beforePlanes = new Map(before.extrusionPlanes.map((plane) => [planeKey(plane), plane]))
+  const afterKeys = new Set(after.extrusionPlanes.map(planeKey))
+  const planes: PlaneChange[] = []
+
+  for (const plane of after.extrusionPlanes) {
+    const previous = beforePlanes.get(planeKey(plane))
+    if (!previous) {
+      planes.push({ name: plane.name, kind: 'added', details: [] })
+      continue
+    }
+    const details = planeDetails(previous, plane)
+    if (details.length > 0) {
+      planes.push({ name: plane.name, kind: 'changed', details })
+    }
+  }
+  for (const plane of before.extrusionPlanes) {
+    if (!afterKeys.has(planeKey(plane))) {
+      planes.push({ name: plane.name, kind: 'removed', details: [] })
+    }
+  }
+
+  return {
+    modelChanged: before.stlFileId !== after.stlFileId,
+    orientationChanged: JSON.stringify(before.stlOrientation) !== JSON.stringify(after.stlOrientation),
+    planes,
+  }
+}
+
+export function isEmptyDiff(diff: ProjectDiff): boolean {
+  return !diff.modelChanged && !diff.orientationChanged && diff.planes.length === 0
+}
@@ -0,0 +1,78 @@
+import type { Doc, Id } from '@convex/_generated/dataModel'
+import { safeLocalGet, safeLocalRemove, safeLocalSet } from '@/lib/storage'
+
+/**
+ * Local copy of unsaved project edits, so a reload, crash or "Session Ended"
+ * kick doesn't lose work. One draft per user on this browser (plus one for
+ * signed-out edits), so it's never offered to another account: the project
+ * it belongs to (null before a project exists) and when it was written.
+ */
+
+// The editable part of a project (what autosave and drafts carry)
+export type ProjectData = Pick<Doc<'projects'>, 'stlFileId' | 'stlOrientation' | 'extrusionPlanes'>
+
+const DRAFT_KEY = 'vp_project_draft'
+const CURRENT_PROJECT_KEY = 'vp_current_project'
+
+export interface ProjectDraft {
+  projectId: Id<'projects'> | null
+  data: ProjectData
+  savedAt: number
+}
+
+function draftKey(userId: string | null): string {
+  return userId ? `${DRAFT_KEY}:${userId}` : DRAFT_KEY
+}
+
+export function readDraft(userId: string | null): ProjectDraft | null {
+  const raw = safeLocalGet(draftKey(userId))
+  if (!raw) return null
+  try {
+    const draft = JSON.parse(raw) as ProjectDraft
+    // Shape check only - the backend validates contents when it's saved
+    if (typeof draft.savedAt !== 'number' || !Array.isArray(draft.data?.extrusionPlanes)) {
+      return null
+    }
+    return draft
+  } catch {
+    return null
+  }
+}
+
+export function writeDraft(
+  userId: string | null,
+  projectId: Id<'projects'> | null,
+  data: ProjectData
+): void {
+  const draft: ProjectDraft = { projectId, data, savedAt: Date.now() }
+  safeLocalSet(draftKey(userId), JSON.stringify(draft))
+}
+
+export function clearDraft(userId: string | null): void {
+  safeLocalRemove(draftKey(userId))
+}
+
+// Last opened project, reopened after a reload
+export function readCurrentProjectId(): Id<'projects'> | null {
+  return safeLocalGet(CURRENT_PROJECT_KEY) as Id<'projects'> | null
+}
+
+export function writeCurrentProjectId(projectId: Id<'projects'> | null): void {
+  if (projectId) {
+    safeLocalSet(CURRENT_PROJECT_KEY, projectId)
+  } else {
+    safeLocalRemove(CURRENT_PROJECT_KEY)
+  }
+}
+
+/**
+ * Stable comparison key for project data (dirty checks, draft matching).
+ */
+export function projectDataKey(data: ProjectData): string {
+  return JSON.stringify(data)
+}
+
+// Anything worth keeping in a draft before a project exists
+export function hasProjectContent(data: ProjectData): boolean {
+  return !!data.stlFileId || data.extrusionPlanes.length > 0
+}
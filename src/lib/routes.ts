@@ -0,0 +1,90 @@
+import type { Id } from '@convex/_generated/dataModel'
+
+/**
+ * App routes and their URLs.
+ *
+ *   /                          editor (no project, step 1)
+ *   /step/:n                   editor step n, no project yet
+ *   /projects/:id/step/:n      editor with a project open
+ *   /account                   user page
+ *   /admin/:section            admin dashboard
+ *   /faq, /pricing, /checkout/success
+ *
+ * Unknown paths fall back to the editor.
+ */
+
+export const ADMIN_SECTIONS = [
+  'alerts',
+  'base-stl',
+  'base-svg',
+  'users',
+  'analytics',
+  'settings',
+  'logs',
+] as const
+
+export type AdminSection = (typeof ADMIN_SECTIONS)[number]
+
+export const STEP_COUNT = 5
+
+export type Route =
+  | { page: 'main'; projectId: Id<'projects'> | null; step: number }
+  | { page: 'account' }
+  | { page: 'admin'; section: AdminSection }
+  | { page: 'faq' }
+  | { page: 'pricing' }
+  | { page: 'checkout-success' }
+
+// Convex ids are lowercase alphanumeric; the backend still checks the table
+const PROJECT_ID_PATTERN = /^[a-z0-9]+$/
+
+function parseStep(value: string | undefined): number {
+  const step = Number(value)
+  return Number.isInteger(step) && step >= 1 && step <= STEP_COUNT ? step : 1
+}
+
+export function parseRoute(pathname: string): Route {
+  const parts = pathname.split('/').filter(Boolean)
+
+  switch (parts[0]) {
+    case 'projects':
+      if (parts[1] && PROJECT_ID_PATTERN.test(parts[1])) {
+        return { page: 'main', projectId: parts[1] as Id<'projects'>, step: parseStep(parts[3]) }
+      }
+      break
+    case 'step':
+      return { page: 'main', projectId: null, step: parseStep(parts[1]) }
+    case 'account':
+      return { page: 'account' }
+    case 'admin': {
+      const section = ADMIN_SECTIONS.find((s) => s === parts[1])
+      return { page: 'admin', section: section ?? 'alerts' }
+    }
+    case 'faq':
+      return { page: 'faq' }
+    case 'pricing':
+      return { page: 'pricing' }
+    case 'checkout':
+      if (parts[1] === 'success') return { page: 'checkout-success' }
+      break
+  }
+  return { page: 'main', projectId: null, step: 1 }
+}
+
+export function routePath(route: Route): string {
+  switch (route.page) {
+    case 'main':
+      if (route.projectId) return `/projects/${route.projectId}/step/${route.step}`
+      return route.step === 1 ? '/' : `/step/${route.step}`
+    case 'account':
+      return '/account'
+    case 'admin':
+      return `/admin/${route.section}`
+    case 'faq':
+      return '/faq'
+    case 'pricing':
+      return '/pricing'
+    case 'checkout-success':
+      return '/checkout/success'
+  }
+}
@@ -0,0 +1,148 @@
+import { strToU8, zipSync } from 'fflate'
+import { formatCoordinate, safeFileName, type ExportModel, type ExportObject } from '@/lib/export-model'
+
+/**
+ * STL writers for the export model.
+ *
+ * STL has no objects, colors or build transforms, so everything is merged
+ * into one triangle soup with the offset baked into the vertices. Facet
+ * normals are recomputed from the winding.
+ */
+
+const BINARY_HEADER_BYTES = 80
+const BINARY_TRIANGLE_BYTES = 50
+
+export type StlFormat = 'binary' | 'ascii'
+
+export interface StlExportOptions {
+  // Added to every vertex (scene origin is the plate center)
+  offset?: { x: number; y: number }
+}
+
+interface Triangle {
+  normal: [number, number, number]
+  vertices: [number, number, number][]
+}
+
+/**
+ * Non-degenerate triangles of the objects, offset applied.
+ */
+function* triangles(objects: ExportObject[], options: StlExportOptions): Generator<Triangle> {
+  const ox = options.offset?.x ?? 0
+  const oy = options.offset?.y ?? 0
+  for (const { positions, indices } of objects) {
+    for (let t = 0; t < indices.length; t += 3) {
+      const a = indices[t]
+      const b = indices[t + 1]
+      const c = indices[t + 2]
+      if (a === b || b === c || a === c) continue
+      const vertices = [a, b, c].map((i): [number, number, number] => [
+        positions[i * 3] + ox,
+        positions[i * 3 + 1] + oy,
+        positions[i * 3 + 2],
+      ])
+      const [p, q, r] = vertices
+      const ux = q[0] - p[0], uy = q[1] - p[1], uz = q[2] - p[2]
+      const vx = r[0] - p[0], vy = r[1] - p[1], vz = r[2] - p[2]
+      const nx = uy * vz - uz * vy
+      const ny = uz * vx - ux * vz
+      const nz = ux * vy - uy * vx
+      const length = Math.hypot(nx, ny, nz) || 1
+      yield { normal: [nx / length, ny / length, nz / length], vertices }
+    }
+  }
+}
+
+function triangleCount(objects: ExportObject[]): number {
+  let count = 0
+  for (const { indices } of objects) {
+    for (let t = 0; t < indices.length; t += 3) {
+      if (indices[t] !== indices[t + 1] && indices[t + 1] !== indices[t + 2] && indices[t] !== indices[t + 2]) {
+        count++
+      }
+    }
+  }
+  return count
+}
+
+/**
+ * Binary STL: 80-byte header, uint32 count, then 50 bytes per triangle.
+ */
+export function writeBinaryStl(objects: ExportObject[], options: StlExportOptions = {}): Uint8Array {
+  const count = triangleCount(objects)
+  const bytes = new Uint8Array(BINARY_HEADER_BYTES + 4 + count * BINARY_TRIANGLE_BYTES)
+  const view = new DataView(bytes.buffer)
+
+  // Header must not start with "solid" or readers may take it for ASCII
+  bytes.set(strToU8('Vector Projector binary STL').subarray(0, BINARY_HEADER_BYTES))
+  view.setUint32(BINARY_HEADER_BYTES, count, true)
+
+  let offset = BINARY_HEADER_BYTES + 4
+  for (const { normal, vertices } of triangles(objects, options)) {
+    for (const value of [...normal, ...vertices.flat()]) {
+      view.setFloat32(offset, value, true)
+      offset += 4
+    }
+    offset += 2 // attribute byte count, unused
+  }
+  return bytes
+}
+
+/**
+ * ASCII STL. Larger than binary; for tools that only read text.
+ */
+export function writeAsciiStl(objects: ExportObject[], name: string, options: StlExportOptions = {}): string {
+  const solid = name.replace(/\s+/g, '_') || 'model'
+  const lines = [`solid ${solid}`]
+  for (const { normal, vertices } of triangles(objects, options)) {
+    lines.push(`  facet normal ${normal.map(formatCoordinate).join(' ')}`)
+    lines.push('    outer loop')
+    for (const v of vertices) lines.push(`      vertex ${v.map(formatCoordinate).join(' ')}`)
+    lines.push('    endloop')
+    lines.push('  endfacet')
+  }
+  lines.push(`endsolid ${solid}`)
+  return lines.join('\n') + '\n'
+}
+
+function writeStl(objects: ExportObject[], name: string, format: StlFormat, options: StlExportOptions): Uint8Array {
+  return format === 'binary' ? writeBinaryStl(objects, options) : strToU8(writeAsciiStl(objects, name, options))
+}
+
+/**
+ * Whole model merged into one STL.
+ */
+export function writeMergedStl(model: ExportModel, format: StlFormat, options: StlExportOptions = {}): Uint8Array {
+  return writeStl(model.objects, 'model', format, options)
+}
+
+/**
+ * Zip with one STL for the base model and one per plane, all in the same
+ * coordinates so they line up when imported together.
+ */
+export function writeStlPerPlaneZip(
+  model: ExportModel,
+  format: StlFormat,
+  options: StlExportOptions = {}
+): Uint8Array {
+  const groups = new Map<number | null, ExportObject[]>()
+  for (const object of model.objects) {
+    const group = groups.get(object.planeIndex) ?? []
+    group.push(object)
+    groups.set(object.planeIndex, group)
+  }
+
+  const files: Record<string, Uint8Array> = {}
+  const used = new Set<string>()
+  for (const [planeIndex, objects] of groups) {
+    // Base object and plane material names are the group labels
+    const label = planeIndex === null
+      ? objects[0].name
+      : model.materials[objects[0].materialIndex]?.name ?? `Plane ${planeIndex + 1}`
+    let fileName = `${safeFileName(label, 'part')}.stl`
+    for (let n = 2; used.has(fileName); n++) fileName = `${safeFileName(label, 'part')}-${n}.stl`
+    used.add(fileName)
+    files[fileName] = writeStl(objects, label, format, options)
+  }
+  return zipSync(files, { level: 6 })
+}
@@ -0,0 +1,34 @@
+import type { SvgDiagnostic, SvgParseResult } from '@convex/lib/svg'
+import { approximateWidth, MIN_PRINTABLE_WIDTH } from '@/lib/clipping'
+
+/**
+ * "Does your SVG look correct?" - the parser's per-element diagnostics plus
+ * shapes that come out too thin to print at a given scale.
+ */
+
+export type ShapeDiagnostic =
+  | SvgDiagnostic
+  | { kind: 'too-small'; shapeIndex: number; message: string }
+
+/**
+ * scale is mm per SVG unit: the plane placement's scale, or 1 when the SVG
+ * isn't placed yet (SVG units read as millimeters).
+ */
+export function svgDiagnostics(
+  result: SvgParseResult,
+  scale = 1,
+  minWidth = MIN_PRINTABLE_WIDTH
+): ShapeDiagnostic[] {
+  const diagnostics: ShapeDiagnostic[] = [...result.diagnostics]
+  for (const shape of result.shapes) {
+    const width = approximateWidth(shape) * scale
+    if (width < minWidth) {
+      diagnostics.push({
+        kind: 'too-small',
+        shapeIndex: shape.index,
+        message: `Shape ${shape.index + 1} is about ${Number(width.toFixed(2))} mm wide - thinner than ${minWidth} mm won't print reliably.`,
+      })
+    }
+  }
+  return diagnostics
+}
@@ -0,0 +1,194 @@
+import { strFromU8, unzipSync } from 'fflate'
+import { describe, expect, it } from 'vitest'
+import { parseXml, type XmlElement } from '@convex/lib/xml'
+import type { ExportModel } from '@/lib/export-model'
+import { buildModelXml, write3mf } from '@/lib/threemf'
+
+// Zip entry dates - fixed so repeated writes can be compared
+const MODIFIED_AT = new Date(2025, 0, 15, 12, 30, 0)
+
+// 10 mm cube on the plate
+const CUBE: ExportModel = {
+  materials: [{ name: 'Base', color: '#94a3b8' }],
+  objects: [
+    {
+      name: 'Base',
+      positions: new Float32Array([
+        0, 0, 0, 10, 0, 0, 10, 10, 0, 0, 10, 0,
+        0, 0, 10, 10, 0, 10, 10, 10, 10, 0, 10, 10,
+      ]),
+      indices: new Uint32Array([
+        0, 2, 1, 0, 3, 2, 4, 5, 6, 4, 6, 7,
+        0, 1, 5, 0, 5, 4, 1, 2, 6, 1, 6, 5,
+        2, 3, 7, 2, 7, 6, 3, 0, 4, 3, 4, 7,
+      ]),
+      materialIndex: 0,
+      planeIndex: null,
+    },
+  ],
+}
+
+// Base plus an extruded plane: names that need escaping, fractional
+// coordinates and a degenerate triangle that must be dropped
+const BASE_AND_PLANE: ExportModel = {
+  materials: [
+    { name: 'Base & "lid"', color: '#94A3B8' },
+    { name: 'Plane 1 <top>', color: '#0284c7' },
+  ],
+  objects: [
+    {
+      name: 'Base & "lid"',
+      positions: new Float32Array([0, 0, 0, 20, 0, 0, 0, 20, 0, 0, 0, 5]),
+      indices: new Uint32Array([0, 2, 1, 0, 1, 3, 1, 2, 3, 0, 3, 2]),
+      materialIndex: 0,
+      planeIndex: null,
+    },
+    {
+      name: 'Plane 1 <top>',
+      positions: new Float32Array([1.25, 1.5, 5, 8.125, 1.5, 5, 1.25, 7.75, 5.5]),
+      indices: new Uint32Array([0, 1, 2, 0, 0, 1]),
+      materialIndex: 1,
+      planeIndex: 0,
+    },
+  ],
+}
+
+const CORE_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02'
+const MODEL_RELATIONSHIP = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel'
+
+function children(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name)
+}
+
+function child(element: XmlElement, name: string): XmlElement {
+  const [found] = children(element, name)
+  expect(found, `<${name}> in <${element.name}>`).toBeDefined()
+  return found
+}
+
+function unzipParts(file: Uint8Array): Record<string, XmlElement> {
+  return Object.fromEntries(
+    Object.entries(unzipSync(file)).map(([path, bytes]) => [path, parseXml(strFromU8(bytes))])
+  )
+}
+
+/**
+ * The package and model rules of the 3MF Core Specification (and OPC) that
+ * slicers enforce, checked on the parsed parts rather than against output of
+ * this same writer.
+ */
+function expectValid3mf(file: Uint8Array, model: ExportModel) {
+  const parts = unzipParts(file)
+  expect(Object.keys(parts).sort()).toEqual(['3D/3dmodel.model', '[Content_Types].xml', '_rels/.rels'])
+
+  // OPC: content types for the rels and model parts
+  const types = parts['[Content_Types].xml']
+  expect(types.name).toBe('Types')
+  expect(types.attributes.xmlns).toBe('http://schemas.openxmlformats.org/package/2006/content-types')
+  const defaults = Object.fromEntries(
+    children(types, 'Default').map((d) => [d.attributes.Extension, d.attributes.ContentType])
+  )
+  expect(defaults).toEqual({
+    rels: 'application/vnd.openxmlformats-package.relationships+xml',
+    model: 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml',
+  })
+
+  // OPC: the root relationship points at the model part
+  const rels = parts['_rels/.rels']
+  expect(rels.name).toBe('Relationships')
+  expect(rels.attributes.xmlns).toBe('http://schemas.openxmlformats.org/package/2006/relationships')
+  const [relationship] = children(rels, 'Relationship')
+  expect(relationship.attributes.Type).toBe(MODEL_RELATIONSHIP)
+  expect(relationship.attributes.Target).toBe('/3D/3dmodel.model')
+
+  const root = parts['3D/3dmodel.model']
+  expect(root.name).toBe('model')
+  expect(root.attributes.xmlns).toBe(CORE_NAMESPACE)
+  expect(root.attributes.unit).toBe('millimeter')
+
+  // Resource ids are unique positive integers
+  const resources = child(root, 'resources')
+  const ids = resources.children.map((r) => Number(r.attributes.id))
+  expect(ids.every((id) => Number.isInteger(id) && id > 0)).toBe(true)
+  expect(new Set(ids).size).toBe(ids.length)
+
+  const materials = child(resources, 'basematerials')
+  const bases = children(materials, 'base')
+  expect(bases.map((b) => b.attributes.name)).toEqual(model.materials.map((m) => m.name))
+  for (const base of bases) {
+    expect(base.attributes.displaycolor).toMatch(/^#[0-9A-F]{8}$/)
+  }
+
+  const objects = children(resources, 'object')
+  expect(objects.map((o) => o.attributes.name)).toEqual(model.objects.map((o) => o.name))
+  objects.forEach((object, index) => {
+    expect(object.attributes.type).toBe('model')
+    // Material references resolve to an entry of the basematerials group
+    expect(object.attributes.pid).toBe(materials.attributes.id)
+    expect(Number(object.attributes.pindex)).toBe(model.objects[index].materialIndex)
+    expect(Number(object.attributes.pindex)).toBeLessThan(bases.length)
+
+    const mesh = child(object, 'mesh')
+    const vertices = children(child(mesh, 'vertices'), 'vertex')
+    expect(vertices).toHaveLength(model.objects[index].positions.length / 3)
+    for (const vertex of vertices) {
+      for (const axis of ['x', 'y', 'z']) {
+        expect(Number.isFinite(Number(vertex.attributes[axis]))).toBe(true)
+      }
+    }
+    // Triangles use three distinct, existing vertices
+    const triangles = children(child(mesh, 'triangles'), 'triangle')
+    expect(triangles.length).toBeGreaterThan(0)
+    for (const { attributes } of triangles) {
+      const corners = [attributes.v1, attributes.v2, attributes.v3].map(Number)
+      expect(new Set(corners).size).toBe(3)
+      for (const corner of corners) {
+        expect(Number.isInteger(corner) && corner >= 0 && corner < vertices.length).toBe(true)
+      }
+    }
+  })
+
+  // One build item per object, each referencing an object resource
+  const items = children(child(root, 'build'), 'item')
+  expect(items.map((item) => item.attributes.objectid)).toEqual(objects.map((o) => o.attributes.id))
+  for (const item of items) {
+    expect(item.attributes.transform.split(' ')).toHaveLength(12)
+  }
+  return root
+}
+
+describe('write3mf', () => {
+  it('writes a valid package for a single object', () => {
+    expectValid3mf(write3mf(CUBE, { modifiedAt: MODIFIED_AT }), CUBE)
+  })
+
+  it('writes a valid package for several objects and materials', () => {
+    const root = expectValid3mf(
+      write3mf(BASE_AND_PLANE, { modifiedAt: MODIFIED_AT, offset: { x: 110, y: -92.5 } }),
+      BASE_AND_PLANE
+    )
+    // The plane's degenerate triangle is dropped
+    const plane = children(child(root, 'resources'), 'object')[1]
+    expect(children(child(child(plane, 'mesh'), 'triangles'), 'triangle')).toHaveLength(1)
+  })
+
+  it('is reproducible with a fixed modifiedAt', () => {
+    const options = { modifiedAt: MODIFIED_AT }
+    expect(write3mf(CUBE, options)).toEqual(write3mf(CUBE, options))
+  })
+})
+
+describe('buildModelXml', () => {
+  it('escapes names and drops degenerate triangles', () => {
+    const xml = buildModelXml(BASE_AND_PLANE)
+    expect(xml).toContain('<base name="Base &amp; &quot;lid&quot;" displaycolor="#94A3B8FF"/>')
+    expect(xml).toContain('name="Plane 1 &lt;top&gt;"')
+    expect(xml.match(/<triangle /g)).toHaveLength(5)
+    expect(xml).not.toContain('v1="0" v2="0"')
+  })
+
+  it('places every build item at the offset', () => {
+    const xml = buildModelXml(BASE_AND_PLANE, { offset: { x: 110, y: -92.5 } })
+    expect(xml.match(/<item [^>]*transform="1 0 0 0 1 0 0 0 1 110 -92.5 0"\/>/g)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,113 @@
+import { strToU8, zipSync } from 'fflate'
+import { formatCoordinate, type ExportModel } from '@/lib/export-model'
+
+/**
+ * 3MF writer (3MF Core Specification 1.x).
+ *
+ * A 3MF file is a zip (OPC package) holding a content-types part, a root
+ * relationship to the model part, and the model XML: one basematerials group
+ * for colors, one mesh object per ExportObject, and a build item for each.
+ */
+
+const CORE_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02'
+const MODEL_PATH = '3D/3dmodel.model'
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/${MODEL_PATH}" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`
+
+export interface ThreeMfOptions {
+  // Added to every build item so the model lands on the plate, not at its corner
+  offset?: { x: number; y: number }
+  // Fixed timestamp for reproducible output (zip entry dates)
+  modifiedAt?: Date
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Model part XML. Triangles that reference the same vertex twice are
+ * dropped - the spec forbids them and slicers reject the file.
+ */
+export function buildModelXml(model: ExportModel, options: ThreeMfOptions = {}): string {
+  const parts: string[] = []
+  const offset = options.offset ?? { x: 0, y: 0 }
+  const materialsId = 1
+  const objectId = (index: number) => index + 2
+
+  parts.push('<?xml version="1.0" encoding="UTF-8"?>\n')
+  parts.push(`<model unit="millimeter" xml:lang="en-US" xmlns="${CORE_NAMESPACE}">\n`)
+  parts.push(' <metadata name="Application">Vector Projector</metadata>\n')
+  parts.push(' <resources>\n')
+
+  parts.push(`  <basematerials id="${materialsId}">\n`)
+  for (const material of model.materials) {
+    parts.push(`   <base name="${escapeXml(material.name)}" displaycolor="${material.color.toUpperCase()}FF"/>\n`)
+  }
+  parts.push('  </basematerials>\n')
+
+  model.objects.forEach((object, index) => {
+    parts.push(
+      `  <object id="${objectId(index)}" type="model" name="${escapeXml(object.name)}" pid="${materialsId}" pindex="${object.materialIndex}">\n`
+    )
+    parts.push('   <mesh>\n    <vertices>\n')
+    const { positions, indices } = object
+    const vertices: string[] = []
+    for (let i = 0; i < positions.length; i += 3) {
+      vertices.push(
+        `     <vertex x="${formatCoordinate(positions[i])}" y="${formatCoordinate(positions[i + 1])}" z="${formatCoordinate(positions[i + 2])}"/>\n`
+      )
+    }
+    parts.push(vertices.join(''))
+    parts.push('    </vertices>\n    <triangles>\n')
+    const triangles: string[] = []
+    for (let t = 0; t < indices.length; t += 3) {
+      const a = indices[t]
+      const b = indices[t + 1]
+      const c = indices[t + 2]
+      if (a === b || b === c || a === c) continue
+      triangles.push(`     <triangle v1="${a}" v2="${b}" v3="${c}"/>\n`)
+    }
+    parts.push(triangles.join(''))
+    parts.push('    </triangles>\n   </mesh>\n  </object>\n')
+  })
+
+  parts.push(' </resources>\n <build>\n')
+  const transform = `1 0 0 0 1 0 0 0 1 ${formatCoordinate(offset.x)} ${formatCoordinate(offset.y)} 0`
+  model.objects.forEach((_, index) => {
+    parts.push(`  <item objectid="${objectId(index)}" transform="${transform}"/>\n`)
+  })
+  parts.push(' </build>\n</model>\n')
+
+  return parts.join('')
+}
+
+/**
+ * Complete .3mf file contents.
+ */
+export function write3mf(model: ExportModel, options: ThreeMfOptions = {}): Uint8Array {
+  const mtime = options.modifiedAt ?? new Date()
+  return zipSync(
+    {
+      '[Content_Types].xml': [strToU8(CONTENT_TYPES), { mtime }],
+      '_rels/.rels': [strToU8(RELATIONSHIPS), { mtime }],
+      [MODEL_PATH]: [strToU8(buildModelXml(model, options)), { mtime }],
+    },
+    { level: 6 }
+  )
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import type { ProjectData } from '@/lib/project-draft'
+import {
+  EMPTY_UNDO_STATE,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+  type EditInfo,
+  type UndoState,
+} from '@/lib/undo-stack'
+
+type Orientation = NonNullable<ProjectData['stlOrientation']>
+
+function orientation(zOffset: number): Orientation {
+  return { rotation: { x: 0, y: 0, z: 0, w: 1 }, zOffset }
+}
+
+const DATA: ProjectData = { stlOrientation: orientation(0), extrusionPlanes: [] }
+
+const ROTATE: EditInfo = { label: 'Change orientation', coalesceKey: 'orientation' }
+
+// Apply a series of [patch, edit, time] steps, like useProject.updateData
+function record(steps: [Partial<ProjectData>, EditInfo, number][]) {
+  return steps.reduce<{ data: ProjectData; undo: UndoState }>(
+    ({ data, undo }, [patch, edit, now]) => ({
+      data: { ...data, ...patch },
+      undo: recordEdit(undo, data, patch, edit, now),
+    }),
+    { data: DATA, undo: EMPTY_UNDO_STATE }
+  )
+}
+
+describe('recordEdit', () => {
+  it('records the replaced fields and their new values', () => {
+    const { undo } = record([[{ stlOrientation: orientation(5) }, { label: 'Drop to plate' }, 1000]])
+    expect(undo.past).toEqual([
+      {
+        label: 'Drop to plate',
+        before: { stlOrientation: orientation(0) },
+        after: { stlOrientation: orientation(5) },
+        at: 1000,
+      },
+    ])
+    expect(undo.future).toEqual([])
+  })
+
+  it('merges edits with the same key inside the window, keeping the oldest before', () => {
+    const { undo } = record([
+      [{ stlOrientation: orientation(1) }, ROTATE, 1000],
+      [{ stlOrientation: orientation(2) }, ROTATE, 1800],
+      [{ stlOrientation: orientation(3) }, ROTATE, 2800],
+    ])
+    expect(undo.past).toHaveLength(1)
+    expect(undo.past[0].before).toEqual({ stlOrientation: orientation(0) })
+    expect(undo.past[0].after).toEqual({ stlOrientation: orientation(3) })
+    expect(undo.past[0].at).toBe(2800)
+  })
+
+  it('keeps the first before of each field when a merge adds a field', () => {
+    const plane = { name: 'Plane 1', planeData: { outer: [], holes: [], planeZ: 5 } }
+    const { undo } = record([
+      [{ stlOrientation: orientation(1) }, ROTATE, 1000],
+      [{ stlOrientation: orientation(2), extrusionPlanes: [plane] }, ROTATE, 1500],
+    ])
+    expect(undo.past).toHaveLength(1)
+    expect(undo.past[0].before).toEqual({ stlOrientation: orientation(0), extrusionPlanes: [] })
+    expect(undo.past[0].after).toEqual({ stlOrientation: orientation(2), extrusionPlanes: [plane] })
+  })
+
+  it('starts a new step after the window or for another key', () => {
+    const late = record([
+      [{ stlOrientation: orientation(1) }, ROTATE, 1000],
+      [{ stlOrientation: orientation(2) }, ROTATE, 2001],
+    ])
+    expect(late.undo.past).toHaveLength(2)
+
+    const otherKey = record([
+      [{ extrusionPlanes: [] }, { label: 'Rename plane', coalesceKey: 'rename-0' }, 1000],
+      [{ extrusionPlanes: [] }, { label: 'Rename plane', coalesceKey: 'rename-1' }, 1100],
+    ])
+    expect(otherKey.undo.past).toHaveLength(2)
+
+    const noKey = record([
+      [{ stlOrientation: orientation(1) }, { label: 'Edit' }, 1000],
+      [{ stlOrientation: orientation(2) }, { label: 'Edit' }, 1100],
+    ])
+    expect(noKey.undo.past).toHaveLength(2)
+  })
+
+  it('keeps only the last 100 steps', () => {
+    const steps = Array.from({ length: 105 }, (_, i): [Partial<ProjectData>, EditInfo, number] => [
+      { stlOrientation: orientation(i + 1) },
+      { label: 'Edit' },
+      i,
+    ])
+    const { undo } = record(steps)
+    expect(undo.past).toHaveLength(100)
+    expect(undo.past[0].before).toEqual({ stlOrientation: orientation(5) })
+    expect(undo.past[99].after).toEqual({ stlOrientation: orientation(105) })
+  })
+})
+
+describe('undoEdit and redoEdit', () => {
+  it('return null with nothing to undo or redo', () => {
+    expect(undoEdit(EMPTY_UNDO_STATE)).toBeNull()
+    expect(redoEdit(EMPTY_UNDO_STATE)).toBeNull()
+  })
+
+  it('step back and forward through the history', () => {
+    const { undo } = record([
+      [{ stlOrientation: orientation(1) }, { label: 'Edit' }, 1000],
+      [{ stlOrientation: orientation(2) }, { label: 'Edit' }, 2000],
+    ])
+
+    const back = undoEdit(undo)!
+    expect(back.patch).toEqual({ stlOrientation: orientation(1) })
+    const back2 = undoEdit(back.state)!
+    expect(back2.patch).toEqual({ stlOrientation: orientation(0) })
+    expect(back2.state.past).toEqual([])
+    expect(back2.state.future).toHaveLength(2)
+
+    const forward = redoEdit(back2.state)!
+    expect(forward.patch).toEqual({ stlOrientation: orientation(1) })
+    expect(redoEdit(forward.state)!.patch).toEqual({ stlOrientation: orientation(2) })
+  })
+
+  it('drops the redo steps when a new edit is recorded', () => {
+    const edited = record([[{ stlOrientation: orientation(1) }, { label: 'Edit' }, 1000]])
+    const back = undoEdit(edited.undo)!
+    const state = recordEdit(back.state, DATA, { stlOrientation: orientation(7) }, { label: 'Edit' }, 2000)
+    expect(state.future).toEqual([])
+    expect(redoEdit(state)).toBeNull()
+  })
+
+  it('does not merge the next edit into a redone step', () => {
+    const edited = record([[{ stlOrientation: orientation(1) }, ROTATE, 1000]])
+    const redone = redoEdit(undoEdit(edited.undo)!.state)!
+    const state = recordEdit(redone.state, edited.data, { stlOrientation: orientation(2) }, ROTATE, 1100)
+    expect(state.past).toHaveLength(2)
+  })
+})
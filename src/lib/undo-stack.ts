@@ -0,0 +1,93 @@
+import type { ProjectData } from '@/lib/project-draft'
+
+/**
+ * Undo/redo for project edits.
+ *
+ * Every edit is recorded as a command holding the fields it replaced and
+ * their new values, so undo/redo just patch the project data back and forth.
+ * Consecutive edits with the same coalesceKey (e.g. the events of one drag)
+ * merge into one command while they keep arriving within COALESCE_WINDOW_MS.
+ */
+
+export interface EditInfo {
+  label: string // e.g. "Move SVG", shown as "Undo Move SVG"
+  coalesceKey?: string
+}
+
+export interface EditCommand extends EditInfo {
+  before: Partial<ProjectData>
+  after: Partial<ProjectData>
+  at: number // last merged edit, for coalescing
+}
+
+export interface UndoState {
+  past: EditCommand[]
+  future: EditCommand[]
+}
+
+export const EMPTY_UNDO_STATE: UndoState = { past: [], future: [] }
+
+const MAX_UNDO_STEPS = 100
+const COALESCE_WINDOW_MS = 1000
+
+/**
+ * Record an edit (patch applied on top of data). Clears the redo stack.
+ */
+export function recordEdit(
+  state: UndoState,
+  data: ProjectData,
+  patch: Partial<ProjectData>,
+  edit: EditInfo,
+  now: number
+): UndoState {
+  const keys = Object.keys(patch) as (keyof ProjectData)[]
+  const before: Partial<ProjectData> = {}
+  for (const key of keys) {
+    Object.assign(before, { [key]: data[key] })
+  }
+
+  const last = state.past[state.past.length - 1]
+  if (
+    last &&
+    edit.coalesceKey &&
+    last.coalesceKey === edit.coalesceKey &&
+    now - last.at <= COALESCE_WINDOW_MS
+  ) {
+    // Keep the oldest "before" of each field so undo returns to the drag start
+    const merged: EditCommand = {
+      ...last,
+      before: { ...before, ...last.before },
+      after: { ...last.after, ...patch },
+      at: now,
+    }
+    return { past: [...state.past.slice(0, -1), merged], future: [] }
+  }
+
+  const command: EditCommand = { ...edit, before, after: patch, at: now }
+  return { past: [...state.past, command].slice(-MAX_UNDO_STEPS), future: [] }
+}
+
+/**
+ * Step back: the new state and the patch to apply, or null if nothing to undo.
+ */
+export function undoEdit(state: UndoState): { state: UndoState; patch: Partial<ProjectData> } | null {
+  const command = state.past[state.past.length - 1]
+  if (!command) return null
+  return {
+    state: { past: state.past.slice(0, -1), future: [...state.future, command] },
+    patch: command.before,
+  }
+}
+
+/**
+ * Step forward again after an undo.
+ */
+export function redoEdit(state: UndoState): { state: UndoState; patch: Partial<ProjectData> } | null {
+  const command = state.future[state.future.length - 1]
+  if (!command) return null
+  return {
+    // at: 0 - a redone command doesn't coalesce with the next edit
+    state: { past: [...state.past, { ...command, at: 0 }], future: state.future.slice(0, -1) },
+    patch: command.after,
+  }
+}
@@ -0,0 +1,92 @@
+import { MAX_UPLOAD_BYTES, formatBytes, type UploadKind } from '@convex/lib/limits'
+import { sanitizeSvg } from '@convex/lib/sanitize'
+import { parseStl } from '@convex/lib/stl'
+import { parseSvg } from '@convex/lib/svg'
+import { authClient } from '@/lib/auth-client'
+
+const CONVEX_SITE_URL = import.meta.env.VITE_CONVEX_SITE_URL as string
+
+/**
+ * Error from the /upload route. code is set for errors the UI can act on,
+ * e.g. "pending_upload_limit" (offer uploads.abandonPendingUploads).
+ */
+export class UploadError extends Error {
+  readonly code: string | undefined
+
+  constructor(message: string, code?: string) {
+    super(message)
+    this.name = 'UploadError'
+    this.code = code
+  }
+}
+
+/**
+ * What /upload stored: a blobId to pass to stlFiles/svgFiles.commitFile, or,
+ * for a file the user already has (or a base sample), that file's id -
+ * nothing was stored and there's nothing to commit.
+ */
+export type UploadResult = { blobId: string } | { existingFileId: string }
+
+/**
+ * POST a file to the authenticated /upload route (convex/http.ts).
+ * Uses XHR rather than fetch so upload progress can be reported (0-1).
+ */
+export function uploadFile(
+  file: Blob,
+  kind: UploadKind,
+  onProgress?: (fraction: number) => void
+): Promise<UploadResult> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('POST', `${CONVEX_SITE_URL}/upload?kind=${kind}`)
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream')
+    // Browsers can't set Cookie directly; the route reads this header instead
+    xhr.setRequestHeader('X-Better-Auth-Cookie', authClient.getCookie() || '')
+    xhr.responseType = 'json'
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total)
+    }
+    xhr.onload = () => {
+      const body = xhr.response as {
+        blobId?: string
+        existingFileId?: string
+        error?: string
+        code?: string
+      } | null
+      const ok = xhr.status >= 200 && xhr.status < 300
+      if (ok && body?.blobId) {
+        resolve({ blobId: body.blobId })
+      } else if (ok && body?.existingFileId) {
+        resolve({ existingFileId: body.existingFileId })
+      } else {
+        reject(new UploadError(body?.error || `Upload failed: ${xhr.status}`, body?.code))
+      }
+    }
+    xhr.onerror = () => reject(new UploadError('Upload failed: network error'))
+    xhr.send(file)
+  })
+}
+
+/**
+ * The server's checks, run locally first so bad files fail before upload.
+ * Throws with a user-facing message.
+ */
+export async function validateUpload(file: File, kind: UploadKind): Promise<void> {
+  const extension = `.${kind}`
+  if (!file.name.toLowerCase().endsWith(extension)) {
+    throw new Error(`Choose a ${extension} file.`)
+  }
+  if (file.size > MAX_UPLOAD_BYTES[kind]) {
+    throw new Error(`File too large. Max size is ${formatBytes(MAX_UPLOAD_BYTES[kind])}.`)
+  }
+
+  if (kind === 'stl') {
+    const { report } = parseStl(await file.arrayBuffer())
+    if (report.declaredCountMatchesLength === false) {
+      throw new Error('STL file is truncated or corrupt (triangle count does not match its size).')
+    }
+  } else if (parseSvg(sanitizeSvg(await file.text()).svg).shapes.length === 0) {
+    throw new Error('SVG has no filled shapes to extrude.')
+  }
+}